@@ -1,16 +1,185 @@
 'use client';
 
 import React, { useState, useCallback, useRef } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle, Download, RotateCcw } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, Download, RotateCcw, Settings } from 'lucide-react';
 import { clsx } from 'clsx';
+import { detectFixedWidthColumns, splitTextLines, toDisplayCharacters } from '@/lib/fixedWidth';
 
 // 지원하는 파일 확장자
-const SUPPORTED_EXTENSIONS = ['.xls', '.xlsx', '.csv', '.tsv', '.txt'];
+const SUPPORTED_EXTENSIONS = ['.xls', '.xlsx', '.csv', '.tsv', '.txt', '.prn'];
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
 // 파일 상태 타입
 type FileStatus = 'idle' | 'uploading' | 'converting' | 'success' | 'error';
 
+// 변환 리포트 타입 (서버 X-Conversion-Report 헤더)
+interface ConversionReport {
+  detectedFormat: string;
+  encryption?: string;
+  strategy: string | null;
+  fidelity: 'exact' | 'normalized' | 'partial' | 'salvage';
+  attempts: { strategy: string; success: boolean; detail?: string; reason?: string }[];
+  encoding?: string;
+  encodingConfidence?: number;
+  encodingCandidates?: { encoding: string; confidence: number }[];
+  mojibake?: { decodedAs: string; original: string; repairedCells: number };
+  delimiter?: string;
+  columnBoundaries?: number[];
+  reportCleanup?: {
+    pages: number;
+    repeatedHeaderRows: number;
+    pageLines: number;
+    preambleRows: number;
+    subtotalRows: number;
+    subtotalMode: string;
+  };
+  headers?: {
+    sheet: string;
+    row: number;
+    rows: number;
+    detected: boolean;
+    flattened: boolean;
+    renamed?: { column: number; original: string; name: string }[];
+  }[];
+  repairs?: string[];
+  sheets: { name: string; rows: number; columns: number }[];
+  score?: number;
+  layout?: { preserved: string[]; dropped: { sheet: string; property: string; reason: string }[] };
+  formulas?: { mode: string; count: number; untranslatable: { sheet: string; address: string; formula: string; reason: string }[] };
+  outputFormat?: string;
+  unmappableCharacters?: number;
+  omittedIssues?: number;
+  annotations?: {
+    source: AnnotationCounts;
+    preserved: AnnotationCounts;
+    dropped: { sheet: string; kind: string; address: string; reason: string }[];
+  };
+}
+
+// 메모, 하이퍼링크, 데이터 유효성 검사 개수
+interface AnnotationCounts {
+  comments: number;
+  hyperlinks: number;
+  validations: number;
+}
+
+function countAnnotations(counts: AnnotationCounts): number {
+  return counts.comments + counts.hyperlinks + counts.validations;
+}
+
+// 충실도 표시 문구
+const FIDELITY_LABELS: Record<ConversionReport['fidelity'], { label: string; className: string }> = {
+  exact: { label: '원본 그대로', className: 'bg-green-100 text-green-800' },
+  normalized: { label: '정규화됨', className: 'bg-blue-100 text-blue-800' },
+  partial: { label: '부분 복구', className: 'bg-yellow-100 text-yellow-800' },
+  salvage: { label: '텍스트만 복구', className: 'bg-red-100 text-red-800' },
+};
+
+// 텍스트 해석 옵션 (서버 ConvertOptions 폼 필드, 빈 값은 자동 감지)
+interface TextOptions {
+  encoding: string;
+  delimiter: string;
+  quote: string;
+  columnBoundaries: string;
+  headerRow: string;
+  headerRows: string;
+  skipRows: string;
+  commentPrefix: string;
+  reportCleanup: string;
+  subtotalRows: string;
+  locale: string;
+  formulas: string;
+  outputFormat: string;
+}
+
+const EMPTY_TEXT_OPTIONS: TextOptions = {
+  encoding: '',
+  delimiter: '',
+  quote: '',
+  columnBoundaries: '',
+  headerRow: '',
+  headerRows: '',
+  skipRows: '',
+  commentPrefix: '',
+  reportCleanup: '',
+  subtotalRows: '',
+  locale: '',
+  formulas: '',
+  outputFormat: '',
+};
+
+// 고급 설정 선택지
+const ENCODING_CHOICES = ['utf8', 'euc-kr', 'cp949', 'utf16le', 'utf16be', 'latin1'];
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': '쉼표 (,)',
+  '\t': '탭',
+  ';': '세미콜론 (;)',
+  '|': '세로선 (|)',
+  fixed: '고정 폭 (공백으로 열 맞춤)',
+};
+
+// 고정 폭 열 경계 미리보기 (파일 앞부분만 읽음)
+const FIXED_WIDTH_EXTENSIONS = ['.txt', '.prn'];
+const PREVIEW_SAMPLE_SIZE = 64 * 1024;
+const PREVIEW_LINES = 15;
+
+/**
+ * 텍스트 파일 앞부분 읽기 (UTF-8이 아니면 CP949로 해석)
+ */
+async function readTextSample(file: File): Promise<string> {
+  const bytes = await file.slice(0, PREVIEW_SAMPLE_SIZE).arrayBuffer();
+  try {
+    // stream 모드: 앞부분만 잘라 읽어 끝에서 잘린 글자는 오류로 보지 않음
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return new TextDecoder('euc-kr').decode(bytes);
+  }
+}
+
+/**
+ * 열 경계 입력값 → 경계 목록 (1 이상의 정수만, 작은 값부터)
+ */
+function parseColumnBoundaries(value: string): number[] {
+  return value.split(/[\s,]+/)
+    .map(Number)
+    .filter((boundary, index, boundaries) => Number.isInteger(boundary) && boundary > 0 && boundaries.indexOf(boundary) === index)
+    .sort((a, b) => a - b);
+}
+const LOCALE_LABELS: Record<string, string> = {
+  'ko-KR': '한국어 (2024.01.05, ₩1,200)',
+  'en-US': '영어-미국 (1/5/2024, $1,200.50)',
+  'de-DE': '독일어 (05.01.2024, 1.234,56 €)',
+};
+
+const SUBTOTAL_LABELS: Record<string, string> = {
+  drop: '버리기',
+  keep: '데이터에 그대로 두기',
+};
+
+const FORMULA_LABELS: Record<string, string> = {
+  keep: '수식 유지 (계산 값 포함)',
+  both: '값만 저장 + 수식 목록 시트',
+};
+const OUTPUT_FORMAT_LABELS: Record<string, string> = {
+  xlsb: 'Excel 바이너리 (.xlsb)',
+  ods: 'OpenDocument (.ods)',
+  csv: 'CSV (UTF-8)',
+  'csv-bom': 'CSV (UTF-8, Excel용 BOM)',
+  'csv-cp949': 'CSV (CP949, 택배사·공공 포털 업로드용)',
+  tsv: 'TSV (UTF-8)',
+  json: 'JSON (시트별 배열)',
+  ndjson: 'NDJSON (한 줄에 한 행)',
+};
+
+/**
+ * 응답 Content-Disposition의 파일명에서 확장자 읽기 (시트가 여러 개인 CSV는 .zip)
+ */
+function readDownloadExtension(contentDisposition: string | null): string {
+  const match = contentDisposition && contentDisposition.match(/filename\*=UTF-8''([^;]+)/);
+  const extension = match && decodeURIComponent(match[1]).match(/\.([^.]+)$/);
+  return extension ? extension[1] : 'xlsx';
+}
+
 // 변환 결과 타입
 interface ConversionResult {
   success: boolean;
@@ -18,6 +187,8 @@ interface ConversionResult {
   originalSize: number;
   convertedSize: number;
   warnings?: string[];
+  report?: ConversionReport;
+  conversionStatus?: string;
   downloadUrl?: string;
 }
 
@@ -25,8 +196,46 @@ interface ConversionResult {
 interface ConversionError {
   message: string;
   code?: string;
+  details?: Record<string, unknown>;
+  report?: ConversionReport;
 }
 
+// 에러 코드별 제목과 해결 방법 (서버 ConversionError 코드)
+const ERROR_REMEDIES: Record<string, { title: string; remedy: string }> = {
+  ENCRYPTED: {
+    title: '암호로 보호된 파일',
+    remedy: '아래에 파일 암호를 입력하고 다시 변환하거나, Excel에서 파일을 열어 [파일 → 정보 → 통합 문서 보호]에서 암호를 해제한 뒤 업로드해주세요.',
+  },
+  CORRUPT_CONTAINER: {
+    title: '파일 구조 손상',
+    remedy: '원본 프로그램에서 파일을 열어 "다른 이름으로 저장"으로 새로 저장하거나 CSV로 내보낸 뒤 변환해주세요.',
+  },
+  UNSUPPORTED_FORMAT: {
+    title: '지원하지 않는 형식',
+    remedy: `${SUPPORTED_EXTENSIONS.join(', ')} 파일만 변환할 수 있습니다. 확장자가 실제 파일 형식과 맞는지 확인해주세요.`,
+  },
+  EMPTY_WORKBOOK: {
+    title: '데이터 없음',
+    remedy: '파일에 값이 있는 셀이 없습니다. 올바른 파일을 선택했는지, 데이터가 숨김 시트에만 있지 않은지 확인해주세요.',
+  },
+  ENCODING_UNDETERMINED: {
+    title: '인코딩 판별 실패',
+    remedy: '메모장 등에서 파일을 열어 UTF-8로 다시 저장한 뒤 업로드해주세요.',
+  },
+  LIMIT_EXCEEDED: {
+    title: '처리 한도 초과',
+    remedy: '파일을 여러 개로 나누거나 불필요한 시트와 서식을 지워 크기를 줄인 뒤 다시 시도해주세요.',
+  },
+  UPSTREAM_ENGINE_FAILED: {
+    title: '변환 엔진 오류',
+    remedy: '변환 서버가 일시적으로 응답하지 않습니다. 잠시 후 다시 시도해주세요.',
+  },
+  PARTIAL_RECOVERY: {
+    title: '부분 복구만 가능',
+    remedy: '원본 구조를 온전히 읽지 못해 일부 데이터만 복구되었습니다. 내용을 직접 확인할 경우에만 받아주세요.',
+  },
+};
+
 export default function FileUploader() {
   // 상태 관리
   const [status, setStatus] = useState<FileStatus>('idle');
@@ -36,7 +245,13 @@ export default function FileUploader() {
   const [dragOver, setDragOver] = useState(false);
   const [progress, setProgress] = useState(0);
   const [forceTextRecovery, setForceTextRecovery] = useState(false);
+  const [preserveLayout, setPreserveLayout] = useState(true); // 병합, 열 너비, 틀 고정 등 유지
+  const [password, setPassword] = useState(''); // 암호로 보호된 파일의 암호 (변환 요청에만 사용)
   const [usePythonService, setUsePythonService] = useState(true); // Python 서비스 사용 여부
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [textOptions, setTextOptions] = useState<TextOptions>(EMPTY_TEXT_OPTIONS); // 사용자가 지정한 값
+  const [detectedOptions, setDetectedOptions] = useState<Partial<TextOptions>>({}); // 자동 감지된 값
+  const [previewLines, setPreviewLines] = useState<string[]>([]); // 고정 폭 열 경계 미리보기용 앞부분 행
 
   // 참조
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -72,10 +287,28 @@ export default function FileUploader() {
     }
 
     setSelectedFile(file);
+    setPassword('');
     setStatus('idle');
     setError(null);
     setResult(null);
     setProgress(0);
+    setPreviewLines([]);
+    setDetectedOptions(prev => ({ ...prev, delimiter: prev.delimiter === 'fixed' ? undefined : prev.delimiter, columnBoundaries: undefined }));
+
+    // 고정 폭 보고서로 보이면 추정한 열 경계를 고급 설정 기본값으로
+    const ext = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
+    if (FIXED_WIDTH_EXTENSIONS.indexOf(ext) !== -1) {
+      readTextSample(file).then(sample => {
+        const lines = splitTextLines(sample);
+        const boundaries = detectFixedWidthColumns(lines);
+        setPreviewLines(lines.filter(line => line.trim() !== '').slice(0, PREVIEW_LINES));
+        if (boundaries) {
+          setDetectedOptions(prev => ({ ...prev, delimiter: 'fixed', columnBoundaries: boundaries.join(',') }));
+        }
+      }).catch(error => {
+        console.log('⚠️ 미리보기용 텍스트 읽기 실패:', error);
+      });
+    }
   }, [validateFile]);
 
   /**
@@ -111,10 +344,48 @@ export default function FileUploader() {
     }
   }, [handleFileSelect]);
 
+  /**
+   * 리포트의 자동 감지 결과를 고급 설정 기본값으로 사용
+   */
+  const updateDetectedOptions = useCallback((report?: ConversionReport) => {
+    if (report) {
+      // 헤더 위치는 시트가 하나일 때만 (여러 시트에는 같은 값이 모두 적용되므로)
+      const header = report.headers && report.headers.length === 1 ? report.headers[0] : null;
+      setDetectedOptions({
+        encoding: report.encoding,
+        delimiter: report.columnBoundaries ? 'fixed' : report.delimiter,
+        columnBoundaries: report.columnBoundaries && report.columnBoundaries.join(','),
+        headerRow: header ? String(header.row) : undefined,
+        headerRows: header && header.rows > 0 ? String(header.rows) : undefined,
+      });
+    }
+  }, []);
+
+  /**
+   * 고급 설정 값 변경 (자동 감지 값과 같게 되돌리면 다시 자동)
+   */
+  const handleTextOptionChange = useCallback((key: keyof TextOptions, value: string) => {
+    setTextOptions(prev => ({ ...prev, [key]: value === detectedOptions[key] ? '' : value }));
+  }, [detectedOptions]);
+
+  const effectiveDelimiter = textOptions.delimiter || detectedOptions.delimiter || '';
+  const columnBoundaries = parseColumnBoundaries(textOptions.columnBoundaries || detectedOptions.columnBoundaries || '');
+
+  /**
+   * 미리보기에서 누른 글자 앞의 열 경계를 넣거나 뺌
+   */
+  const toggleColumnBoundary = useCallback((column: number) => {
+    if (column === 0) return;
+    const next = columnBoundaries.indexOf(column) !== -1
+      ? columnBoundaries.filter(boundary => boundary !== column)
+      : columnBoundaries.concat(column).sort((a, b) => a - b);
+    handleTextOptionChange('columnBoundaries', next.join(','));
+  }, [columnBoundaries, handleTextOptionChange]);
+
   /**
    * 파일 변환 처리
    */
-  const handleConvert = useCallback(async () => {
+  const handleConvert = useCallback(async (allowPartial: boolean = false) => {
     if (!selectedFile) return;
 
     console.log('🚀 클라이언트: 변환 시작', selectedFile.name, selectedFile.size + ' bytes');
@@ -127,6 +398,20 @@ export default function FileUploader() {
       const formData = new FormData();
       formData.append('file', selectedFile);
       formData.append('forceTextRecovery', forceTextRecovery.toString());
+      formData.append('allowPartial', allowPartial.toString());
+      if (!preserveLayout) {
+        formData.append('preserveLayout', 'false');
+      }
+      if (password !== '') {
+        formData.append('password', password);
+      }
+      (Object.keys(textOptions) as (keyof TextOptions)[]).forEach(key => {
+        // 열 경계는 고정 폭으로 읽을 때만 전달
+        if (key === 'columnBoundaries' && effectiveDelimiter !== 'fixed') return;
+        if (textOptions[key] !== '') {
+          formData.append(key, textOptions[key]);
+        }
+      });
 
       console.log('📤 클라이언트: 서버로 파일 전송 중...');
       setStatus('converting');
@@ -146,17 +431,38 @@ export default function FileUploader() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || '변환에 실패했습니다.');
+        updateDetectedOptions(errorData.report);
+        setError({
+          message: errorData.message || '변환에 실패했습니다.',
+          code: errorData.code,
+          details: errorData.details,
+          report: errorData.report,
+        });
+        setStatus('error');
+        setProgress(0);
+        return;
       }
 
       // 응답 헤더에서 메타데이터 추출
       const originalSize = parseInt(response.headers.get('X-Original-Size') || '0');
       const convertedSize = parseInt(response.headers.get('X-Converted-Size') || '0');
       const conversionMethod = response.headers.get('X-Conversion-Method') || 'unknown';
+      const conversionStatus = response.headers.get('X-Conversion-Status') || undefined;
       const warningsHeader = response.headers.get('X-Warnings');
       const warnings = warningsHeader ? decodeURIComponent(warningsHeader).split('; ') : undefined;
+      const reportHeader = response.headers.get('X-Conversion-Report');
+      let report: ConversionReport | undefined;
+      if (reportHeader) {
+        try {
+          report = JSON.parse(decodeURIComponent(reportHeader));
+        } catch (e) {
+          console.warn('⚠️ 변환 리포트 해석 실패');
+        }
+      }
       
       console.log('🔧 변환 방법:', conversionMethod);
+      console.log('📋 변환 리포트:', report);
+      updateDetectedOptions(report);
 
       // 파일 다운로드 준비
       const blob = await response.blob();
@@ -166,7 +472,7 @@ export default function FileUploader() {
 
       // 결과 설정
       const baseName = selectedFile.name.replace(/\.[^.]+$/, '');
-      const resultFilename = `${baseName}_변환완료.xlsx`;
+      const resultFilename = `${baseName}_변환완료.${readDownloadExtension(response.headers.get('Content-Disposition'))}`;
 
       console.log('✅ 클라이언트: 변환 완료!', resultFilename);
       console.log('📊 클라이언트: 크기 비교 - 원본:', originalSize, '→ 변환:', convertedSize);
@@ -177,6 +483,8 @@ export default function FileUploader() {
         originalSize,
         convertedSize,
         warnings,
+        report,
+        conversionStatus,
         downloadUrl,
       });
 
@@ -200,7 +508,7 @@ export default function FileUploader() {
       setStatus('error');
       setProgress(0);
     }
-  }, [selectedFile, forceTextRecovery]);
+  }, [selectedFile, forceTextRecovery, preserveLayout, password, usePythonService, textOptions, effectiveDelimiter, updateDetectedOptions]);
 
   /**
    * 초기화
@@ -212,6 +520,11 @@ export default function FileUploader() {
     setResult(null);
     setProgress(0);
     setForceTextRecovery(false);
+    setPreserveLayout(true);
+    setPassword('');
+    setTextOptions(EMPTY_TEXT_OPTIONS);
+    setDetectedOptions({});
+    setPreviewLines([]);
     
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -289,7 +602,7 @@ export default function FileUploader() {
                 파일을 드래그하거나 클릭하여 선택하세요
               </p>
               <p className="text-sm text-gray-500">
-                지원 형식: .xls, .xlsx, .csv, .tsv, .txt (최대 50MB)
+                지원 형식: .xls, .xlsx, .csv, .tsv, .txt, .prn (최대 50MB)
               </p>
             </>
           )}
@@ -321,7 +634,7 @@ export default function FileUploader() {
           {status === 'success' && result && (
             <>
               <p className="text-lg font-medium text-green-700 mb-2">
-                변환 완료!
+                {result.conversionStatus === 'partial' ? '부분 복구 완료' : '변환 완료!'}
               </p>
               <p className="text-sm text-gray-600">
                 {result.filename} ({formatFileSize(result.convertedSize)})
@@ -334,17 +647,172 @@ export default function FileUploader() {
                   ))}
                 </div>
               )}
+              {result.report && (
+                <div className="mt-3 p-3 bg-white border border-gray-200 rounded text-left text-sm text-gray-700">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="font-medium">변환 리포트</p>
+                    <span className={clsx('px-2 py-0.5 rounded text-xs font-medium', FIDELITY_LABELS[result.report.fidelity].className)}>
+                      {FIDELITY_LABELS[result.report.fidelity].label}
+                    </span>
+                  </div>
+                  <p>감지된 형식: {result.report.detectedFormat}</p>
+                  {result.report.encryption && <p>암호 해제: {result.report.encryption}</p>}
+                  <p>사용된 방법: {result.report.strategy || '-'}</p>
+                  {result.report.score !== undefined && <p>품질 점수: {result.report.score.toFixed(2)}</p>}
+                  {result.report.encoding && (
+                    <p>
+                      인코딩: {result.report.encoding}
+                      {result.report.encodingConfidence !== undefined && ` (신뢰도 ${Math.round(result.report.encodingConfidence * 100)}%)`}
+                    </p>
+                  )}
+                  {result.report.mojibake && (
+                    <p>
+                      깨진 글자 복구: {result.report.mojibake.original}를 {result.report.mojibake.decodedAs}로 잘못 읽은 셀 {result.report.mojibake.repairedCells}개
+                    </p>
+                  )}
+                  {result.report.delimiter && (
+                    <p>구분자: {result.report.delimiter === '\t' ? '탭' : `"${result.report.delimiter}"`}</p>
+                  )}
+                  {result.report.columnBoundaries && (
+                    <p>고정 폭 열 경계: {result.report.columnBoundaries.length > 0 ? result.report.columnBoundaries.join(', ') : '없음 (한 열)'}</p>
+                  )}
+                  {result.report.reportCleanup && (
+                    <p>
+                      인쇄 보고서 정리: {result.report.reportCleanup.pages}페이지,
+                      반복 헤더 {result.report.reportCleanup.repeatedHeaderRows}행·페이지 번호/바닥글 {result.report.reportCleanup.pageLines}행·머리말 {result.report.reportCleanup.preambleRows}행 제거,
+                      소계·합계 {result.report.reportCleanup.subtotalRows}행
+                      {result.report.reportCleanup.subtotalRows > 0 && (
+                        result.report.reportCleanup.subtotalMode === 'sheet' ? ' (별도 시트)' :
+                        result.report.reportCleanup.subtotalMode === 'drop' ? ' (버림)' : ''
+                      )}
+                    </p>
+                  )}
+                  {result.report.headers && result.report.headers.length > 0 && (
+                    <p>
+                      헤더 행: {result.report.headers.map(header =>
+                        `${header.sheet} ${header.row < 0 ? '없음' : header.rows > 1 ? `${header.row}~${header.row + header.rows - 1} (${header.rows}행${header.flattened ? ' 합침' : ''})` : header.row}`
+                      ).join(', ')}
+                      {result.report.headers.some(header => header.detected) && ' (자동 감지)'}
+                    </p>
+                  )}
+                  {result.report.headers && result.report.headers.some(header => header.renamed && header.renamed.length > 0) && (
+                    <details className="mt-2">
+                      <summary className="cursor-pointer">
+                        바뀐 열 이름 {result.report.headers.reduce((sum, header) => sum + (header.renamed ? header.renamed.length : 0), 0)}개
+                      </summary>
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {result.report.headers.map(header => (header.renamed || []).map(column => (
+                          <li key={`${header.sheet}-${column.column}`}>
+                            • {header.sheet} {column.column + 1}열: {column.original === '' ? '(빈 헤더)' : `"${column.original}"`} → &quot;{column.name}&quot;
+                          </li>
+                        )))}
+                      </ul>
+                    </details>
+                  )}
+                  {result.report.repairs && result.report.repairs.length > 0 && (
+                    <p>컨테이너 복구: {result.report.repairs.join(', ')}</p>
+                  )}
+                  {result.report.sheets.length > 0 && (
+                    <ul className="mt-1">
+                      {result.report.sheets.map((sheet, index) => (
+                        <li key={index}>• {sheet.name}: {sheet.rows}행 × {sheet.columns}열</li>
+                      ))}
+                    </ul>
+                  )}
+                  {result.report.annotations && countAnnotations(result.report.annotations.source) > 0 && (
+                    <p>
+                      메모 {result.report.annotations.preserved.comments}/{result.report.annotations.source.comments}개,
+                      링크 {result.report.annotations.preserved.hyperlinks}/{result.report.annotations.source.hyperlinks}개,
+                      유효성 검사 {result.report.annotations.preserved.validations}/{result.report.annotations.source.validations}개 유지
+                    </p>
+                  )}
+                  {result.report.annotations && result.report.annotations.dropped.length > 0 && (
+                    <details className="mt-2">
+                      <summary className="cursor-pointer text-yellow-700">
+                        옮기지 못한 메모/링크/유효성 검사 {result.report.annotations.dropped.length}건
+                      </summary>
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {result.report.annotations.dropped.map((issue, index) => (
+                          <li key={index}>• {issue.sheet}!{issue.address}: {issue.reason}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                  {result.report.unmappableCharacters !== undefined && (
+                    <p className="text-yellow-700">CP949로 표현할 수 없어 ?로 바뀐 글자: {result.report.unmappableCharacters}개</p>
+                  )}
+                  {result.report.formulas && (
+                    <p>수식: {result.report.formulas.count}개{result.report.formulas.mode === 'both' ? ' (수식 목록 시트 추가)' : ''}</p>
+                  )}
+                  {result.report.formulas && result.report.formulas.untranslatable.length > 0 && (
+                    <details className="mt-2">
+                      <summary className="cursor-pointer text-yellow-700">
+                        옮기지 못한 수식 {result.report.formulas.untranslatable.length}건
+                      </summary>
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {result.report.formulas.untranslatable.map((issue, index) => (
+                          <li key={index}>• {issue.sheet}!{issue.address} ={issue.formula}: {issue.reason}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                  {result.report.layout && result.report.layout.dropped.length > 0 && (
+                    <details className="mt-2">
+                      <summary className="cursor-pointer text-yellow-700">
+                        유지하지 못한 레이아웃 {result.report.layout.dropped.length}건
+                      </summary>
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {result.report.layout.dropped.map((issue, index) => (
+                          <li key={index}>• {issue.sheet}: {issue.reason}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                  {result.report.omittedIssues !== undefined && (
+                    <p className="mt-1 text-xs text-gray-500">응답 크기 제한으로 위 목록에서 {result.report.omittedIssues}건을 생략했습니다.</p>
+                  )}
+                  {result.report.attempts.some(attempt => !attempt.success) && (
+                    <details className="mt-2">
+                      <summary className="cursor-pointer text-gray-500">
+                        실패한 시도 {result.report.attempts.filter(attempt => !attempt.success).length}건
+                      </summary>
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {result.report.attempts.filter(attempt => !attempt.success).map((attempt, index) => (
+                          <li key={index}>• {attempt.strategy}{attempt.reason ? `: ${attempt.reason}` : ''}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              )}
             </>
           )}
 
           {status === 'error' && error && (
             <>
               <p className="text-lg font-medium text-red-700 mb-2">
-                변환 실패
+                {error.code && ERROR_REMEDIES[error.code] ? ERROR_REMEDIES[error.code].title : '변환 실패'}
               </p>
               <p className="text-sm text-red-600">
                 {error.message}
               </p>
+              {error.code && ERROR_REMEDIES[error.code] && (
+                <p className="mt-2 text-sm text-gray-600">
+                  {ERROR_REMEDIES[error.code].remedy}
+                </p>
+              )}
+              {/* 지원하지 않는 암호화 방식(details.reason)이 아니면 암호 입력 */}
+              {error.code === 'ENCRYPTED' && !(error.details && error.details.reason) && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleConvert()}
+                  placeholder="파일 암호"
+                  autoComplete="off"
+                  className="mt-3 border border-gray-300 rounded px-2 py-1 text-sm"
+                />
+              )}
             </>
           )}
         </div>
@@ -384,19 +852,278 @@ export default function FileUploader() {
         )}
       </div>
 
+      {/* 고급 설정 (텍스트 파일 해석 방식) */}
+      {selectedFile && (status === 'idle' || status === 'error') && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1 mx-auto"
+          >
+            <Settings className="w-4 h-4" />
+            고급 설정 {showAdvanced ? '▴' : '▾'}
+          </button>
+
+          {showAdvanced && (
+            <div className="mt-3 p-4 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 grid grid-cols-2 gap-3">
+              <label className="col-span-2 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={forceTextRecovery}
+                  onChange={e => setForceTextRecovery(e.target.checked)}
+                />
+                텍스트 기반 복구 강제
+              </label>
+
+              <label className="col-span-2 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preserveLayout}
+                  onChange={e => setPreserveLayout(e.target.checked)}
+                />
+                레이아웃 유지 (셀 병합, 열 너비, 행 높이, 틀 고정, 숨긴 시트)
+              </label>
+
+              <label className="flex flex-col gap-1">
+                인코딩
+                <select
+                  value={textOptions.encoding || detectedOptions.encoding || ''}
+                  onChange={e => handleTextOptionChange('encoding', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">자동 감지</option>
+                  {ENCODING_CHOICES.concat(
+                    detectedOptions.encoding && ENCODING_CHOICES.indexOf(detectedOptions.encoding) === -1 ? [detectedOptions.encoding] : []
+                  ).map(encoding => (
+                    <option key={encoding} value={encoding}>
+                      {encoding}{encoding === detectedOptions.encoding ? ' (감지됨)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col gap-1">
+                구분자
+                <select
+                  value={effectiveDelimiter}
+                  onChange={e => handleTextOptionChange('delimiter', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">자동 감지</option>
+                  {Object.keys(DELIMITER_LABELS).map(delimiter => (
+                    <option key={delimiter} value={delimiter}>
+                      {DELIMITER_LABELS[delimiter]}{delimiter === detectedOptions.delimiter ? ' (감지됨)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col gap-1">
+                따옴표 문자
+                <select
+                  value={textOptions.quote}
+                  onChange={e => handleTextOptionChange('quote', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">기본 (&quot;)</option>
+                  <option value="'">작은따옴표 (&#39;)</option>
+                </select>
+              </label>
+
+              {effectiveDelimiter === 'fixed' && (
+                <div className="col-span-2 flex flex-col gap-1">
+                  <label className="flex flex-col gap-1">
+                    열 경계 (열이 시작하는 칸 위치, 쉼표로 구분)
+                    <input
+                      type="text"
+                      value={textOptions.columnBoundaries || detectedOptions.columnBoundaries || ''}
+                      onChange={e => handleTextOptionChange('columnBoundaries', e.target.value)}
+                      placeholder="예: 9,23,34"
+                      className="border border-gray-300 rounded px-2 py-1"
+                    />
+                  </label>
+                  {previewLines.length > 0 && (
+                    <>
+                      <p className="text-xs text-gray-500">
+                        글자를 누르면 그 앞에 열 경계를 넣거나 뺍니다. 한글 등 전각 문자는 2칸으로 셉니다.
+                      </p>
+                      <pre className="overflow-x-auto bg-gray-50 border border-gray-200 rounded p-2 text-xs leading-5">
+                        {previewLines.map((line, lineIndex) => (
+                          <div key={lineIndex}>
+                            {toDisplayCharacters(line).map((character, index) => (
+                              <span
+                                key={index}
+                                onClick={() => toggleColumnBoundary(character.column)}
+                                title={`${character.column}칸`}
+                                className="cursor-pointer hover:bg-blue-100"
+                                style={columnBoundaries.indexOf(character.column) !== -1 ? { boxShadow: 'inset 2px 0 0 #3b82f6' } : undefined}
+                              >
+                                {character.text}
+                              </span>
+                            ))}
+                          </div>
+                        ))}
+                      </pre>
+                    </>
+                  )}
+                </div>
+              )}
+
+              <label className="flex flex-col gap-1">
+                주석 시작 문자
+                <input
+                  type="text"
+                  value={textOptions.commentPrefix}
+                  onChange={e => handleTextOptionChange('commentPrefix', e.target.value)}
+                  placeholder="예: #"
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+
+              <label className="flex flex-col gap-1">
+                건너뛸 행 수
+                <input
+                  type="number"
+                  min={0}
+                  value={textOptions.skipRows}
+                  onChange={e => handleTextOptionChange('skipRows', e.target.value)}
+                  placeholder="0"
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+
+              <label className="flex flex-col gap-1">
+                헤더 행 (-1: 헤더 없음)
+                <input
+                  type="number"
+                  min={-1}
+                  value={textOptions.headerRow}
+                  onChange={e => handleTextOptionChange('headerRow', e.target.value)}
+                  placeholder={detectedOptions.headerRow !== undefined ? `${detectedOptions.headerRow} (감지됨)` : '자동'}
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+
+              <label className="flex flex-col gap-1">
+                헤더 행 수 (여러 행은 상위_하위 이름으로)
+                <input
+                  type="number"
+                  min={1}
+                  max={3}
+                  value={textOptions.headerRows}
+                  onChange={e => handleTextOptionChange('headerRows', e.target.value)}
+                  placeholder={detectedOptions.headerRows !== undefined ? `${detectedOptions.headerRows} (감지됨)` : '자동'}
+                  className="border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+
+              <label className="flex flex-col gap-1">
+                인쇄 보고서 정리
+                <select
+                  value={textOptions.reportCleanup}
+                  onChange={e => handleTextOptionChange('reportCleanup', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">자동 (반복 헤더, 페이지 번호가 있을 때)</option>
+                  <option value="true">항상</option>
+                  <option value="false">사용 안 함</option>
+                </select>
+              </label>
+
+              <label className="flex flex-col gap-1">
+                소계·합계 행
+                <select
+                  value={textOptions.subtotalRows}
+                  onChange={e => handleTextOptionChange('subtotalRows', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">기본 (별도 시트로)</option>
+                  {Object.keys(SUBTOTAL_LABELS).map(mode => (
+                    <option key={mode} value={mode}>{SUBTOTAL_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="col-span-2 flex flex-col gap-1">
+                날짜·숫자 형식 (로캘)
+                <select
+                  value={textOptions.locale}
+                  onChange={e => handleTextOptionChange('locale', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">기본 (한국어)</option>
+                  {Object.keys(LOCALE_LABELS).map(locale => (
+                    <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="col-span-2 flex flex-col gap-1">
+                수식
+                <select
+                  value={textOptions.formulas}
+                  onChange={e => handleTextOptionChange('formulas', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">기본 (계산 값만 저장)</option>
+                  {Object.keys(FORMULA_LABELS).map(mode => (
+                    <option key={mode} value={mode}>{FORMULA_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="col-span-2 flex flex-col gap-1">
+                결과 형식
+                <select
+                  value={textOptions.outputFormat}
+                  onChange={e => handleTextOptionChange('outputFormat', e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">기본 (Excel .xlsx)</option>
+                  {Object.keys(OUTPUT_FORMAT_LABELS).map(format => (
+                    <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <p className="col-span-2 text-xs text-gray-500">
+                날짜·숫자 형식, 수식, 결과 형식, 헤더 행은 모든 파일에 (헤더 행은 모든 시트에), 나머지는 CSV/TSV/TXT/PRN 파일에만 적용됩니다. 비워둔 항목은 자동 감지 결과를 사용합니다. CSV/TSV/JSON 결과는 레이아웃을 유지하지 않고 헤더 위의 행을 뺀 표로 씁니다.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* 액션 버튼 */}
       {selectedFile && (
         <div className="mt-6 flex gap-3 justify-center">
           {status === 'idle' && (
             <button
-              onClick={handleConvert}
+              onClick={() => handleConvert()}
               className="px-8 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
             >
               변환하기
             </button>
           )}
 
+          {status === 'error' && error?.code !== 'PARTIAL_RECOVERY' && (
+            <button
+              onClick={() => handleConvert()}
+              className="px-8 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+            >
+              다시 변환
+            </button>
+          )}
+
+          {status === 'error' && error?.code === 'PARTIAL_RECOVERY' && (
+            <button
+              onClick={() => handleConvert(true)}
+              className="px-8 py-3 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              부분 복구 결과 받기
+            </button>
+          )}
+
           {status === 'success' && result?.downloadUrl && (
             <button
               onClick={() => downloadLinkRef.current?.click()}
@@ -0,0 +1,684 @@
+import * as XLSX from 'xlsx';
+import { repairWorkbookStream } from './cfbRepair';
+import { DataValidation } from './cellAnnotations';
+import { SheetPane } from './sheetLayout';
+
+// BIFF8 레코드 타입
+const RECORD = {
+  BOF: 0x0809,
+  EOF: 0x000a,
+  BOUNDSHEET: 0x0085,
+  SST: 0x00fc,
+  CONTINUE: 0x003c,
+  FORMAT: 0x041e,
+  XF: 0x00e0,
+  LABELSST: 0x00fd,
+  LABEL: 0x0204,
+  NUMBER: 0x0203,
+  RK: 0x027e,
+  MULRK: 0x00bd,
+  BOOLERR: 0x0205,
+  FORMULA: 0x0006,
+  STRING: 0x0207,
+  WINDOW2: 0x023e,
+  PANE: 0x0041,
+  LBL: 0x0018,
+  DV: 0x01be,
+};
+
+// BIFF8 레코드 본문 최대 크기
+const MAX_RECORD_LENGTH = 8224;
+
+// BIFF8 시트 최대 크기
+const MAX_ROWS = 65536;
+const MAX_COLUMNS = 256;
+
+// 재동기화 시 유효한 레코드로 인정할 타입들
+const KNOWN_RECORD_TYPES = Object.keys(RECORD).map(key => (RECORD as { [name: string]: number })[key]);
+
+// 수식 오류 코드
+const ERROR_VALUES: { [code: number]: string } = {
+  0x00: '#NULL!',
+  0x07: '#DIV/0!',
+  0x0f: '#VALUE!',
+  0x17: '#REF!',
+  0x1d: '#NAME?',
+  0x24: '#NUM!',
+  0x2a: '#N/A',
+};
+
+/**
+ * BIFF 레코드
+ */
+interface BiffRecord {
+  type: number;
+  offset: number;
+  data: Buffer;
+}
+
+/**
+ * 복구된 시트 정보
+ */
+export interface BiffSheetSummary {
+  name: string;
+  cells: number;
+  recovered: boolean;
+}
+
+/**
+ * BIFF8 복구 결과
+ */
+export interface BiffSalvageResult {
+  workbook: XLSX.WorkBook;
+  sheets: BiffSheetSummary[];
+  sharedStrings: number;
+  skippedRecords: number;
+}
+
+/**
+ * OLE/CFB 컨테이너에서 Workbook(또는 Book) 스트림 꺼내기
+ */
+export function extractWorkbookStream(buffer: Buffer): Buffer | null {
+  try {
+    const container = XLSX.CFB.read(buffer, { type: 'buffer' });
+    const entry = XLSX.CFB.find(container, 'Workbook') || XLSX.CFB.find(container, 'Book');
+    if (entry && entry.content && entry.content.length > 0) {
+      console.log(`📋 CFB에서 Workbook 스트림 발견: ${entry.content.length} bytes`);
+      return Buffer.from(entry.content);
+    }
+    console.log('❌ CFB에 Workbook/Book 스트림 없음');
+  } catch (error) {
+    console.log('❌ CFB 컨테이너 읽기 실패:', error instanceof Error ? error.message : String(error));
+  }
+
+  // FAT/디렉터리 체인이 손상된 컨테이너는 허용 모드로 스트림 재구성
+  const repaired = repairWorkbookStream(buffer);
+  if (repaired) {
+    return repaired.stream;
+  }
+
+  // 섹터가 연속 저장된 경우가 많으므로 전역 BOF(BIFF8, dt=0x0005) 위치부터 스트림으로 간주
+  const globalsBof = Buffer.from([0x09, 0x08, 0x10, 0x00, 0x00, 0x06, 0x05, 0x00]);
+  const bofOffset = buffer.indexOf(globalsBof);
+  if (bofOffset !== -1) {
+    console.log(`🔧 파일 내 BIFF8 BOF 레코드 위치 ${bofOffset}부터 스트림으로 사용`);
+    return buffer.subarray(bofOffset);
+  }
+
+  return null;
+}
+
+/**
+ * 레코드 헤더가 그럴듯한지 확인
+ */
+function isPlausibleRecord(stream: Buffer, offset: number): boolean {
+  if (offset + 4 > stream.length) return false;
+  const type = stream.readUInt16LE(offset);
+  const length = stream.readUInt16LE(offset + 2);
+  return KNOWN_RECORD_TYPES.indexOf(type) !== -1 && length <= MAX_RECORD_LENGTH && offset + 4 + length <= stream.length;
+}
+
+/**
+ * 스트림을 레코드 단위로 분할 (손상 구간은 다음 유효 레코드까지 건너뜀)
+ */
+function readBiffRecords(stream: Buffer): { records: BiffRecord[]; skipped: number } {
+  const records: BiffRecord[] = [];
+  let skipped = 0;
+  let offset = 0;
+
+  while (offset + 4 <= stream.length) {
+    const type = stream.readUInt16LE(offset);
+    const length = stream.readUInt16LE(offset + 2);
+
+    if (length > MAX_RECORD_LENGTH || offset + 4 + length > stream.length || (type === 0 && length === 0)) {
+      // 손상된 레코드 헤더: 알려진 레코드가 연속으로 나오는 위치를 찾아 재동기화
+      let next = offset + 1;
+      while (next + 4 <= stream.length) {
+        if (isPlausibleRecord(stream, next)) {
+          const following = next + 4 + stream.readUInt16LE(next + 2);
+          if (following >= stream.length || isPlausibleRecord(stream, following)) break;
+        }
+        next++;
+      }
+      if (next + 4 > stream.length) break;
+      skipped++;
+      console.log(`⚠️ 오프셋 ${offset}의 레코드 손상, ${next}에서 재동기화`);
+      offset = next;
+      continue;
+    }
+
+    records.push({ type, offset, data: stream.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+
+  return { records, skipped };
+}
+
+/**
+ * 레코드 경계를 넘나드는 SST 데이터 읽기 도구 (SST + CONTINUE 구간)
+ */
+function createSegmentReader(segments: Buffer[]) {
+  let segment = 0;
+  let position = 0;
+
+  const ensure = () => {
+    while (segment < segments.length && position >= segments[segment].length) {
+      segment++;
+      position = 0;
+    }
+    if (segment >= segments.length) throw new Error('SST 데이터가 끝났습니다');
+  };
+
+  return {
+    readUInt8(): number {
+      ensure();
+      return segments[segment][position++];
+    },
+    readUInt16(): number {
+      return this.readUInt8() | (this.readUInt8() << 8);
+    },
+    readInt32(): number {
+      return this.readUInt16() | (this.readUInt16() << 16);
+    },
+    skip(count: number) {
+      for (let i = 0; i < count; i++) this.readUInt8();
+    },
+    // 문자 데이터가 CONTINUE로 넘어가면 새 레코드 첫 바이트가 인코딩 플래그(fHighByte)
+    readCharacters(count: number, highByte: boolean): string {
+      let result = '';
+      let remaining = count;
+      let wide = highByte;
+      while (remaining > 0) {
+        if (position >= segments[segment].length) {
+          segment++;
+          position = 0;
+          if (segment >= segments.length) throw new Error('SST 문자열이 잘렸습니다');
+          wide = (segments[segment][position++] & 0x01) === 1;
+        }
+        const current = segments[segment];
+        const available = wide ? Math.floor((current.length - position) / 2) : current.length - position;
+        const take = Math.min(remaining, available);
+        if (take <= 0) {
+          position = current.length;
+          continue;
+        }
+        result += wide
+          ? current.toString('utf16le', position, position + take * 2)
+          : current.toString('latin1', position, position + take);
+        position += wide ? take * 2 : take;
+        remaining -= take;
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * SST 레코드와 뒤따르는 CONTINUE 레코드로 공유 문자열 테이블 재구성
+ */
+function parseSharedStringTable(segments: Buffer[]): string[] {
+  const strings: string[] = [];
+  const reader = createSegmentReader(segments);
+
+  try {
+    reader.readInt32(); // cstTotal
+    const uniqueCount = reader.readInt32() >>> 0;
+
+    for (let i = 0; i < uniqueCount; i++) {
+      const charCount = reader.readUInt16();
+      const flags = reader.readUInt8();
+      const runCount = flags & 0x08 ? reader.readUInt16() : 0;
+      const extLength = flags & 0x04 ? reader.readInt32() : 0;
+
+      strings.push(reader.readCharacters(charCount, (flags & 0x01) === 1));
+
+      // 서식 run과 확장 데이터(후리가나 등)는 건너뜀
+      reader.skip(runCount * 4 + Math.max(extLength, 0));
+    }
+  } catch (error) {
+    console.log(`⚠️ SST 일부만 복구: ${strings.length}개 문자열`, error instanceof Error ? error.message : String(error));
+  }
+
+  return strings;
+}
+
+/**
+ * XLUnicodeString (2바이트 길이) 읽기
+ */
+function readUnicodeString(data: Buffer, offset: number): string {
+  const charCount = data.readUInt16LE(offset);
+  const highByte = (data[offset + 2] & 0x01) === 1;
+  const start = offset + 3;
+  return highByte
+    ? data.toString('utf16le', start, Math.min(start + charCount * 2, data.length))
+    : data.toString('latin1', start, Math.min(start + charCount, data.length));
+}
+
+/**
+ * ShortXLUnicodeString (1바이트 길이) 읽기 - BOUNDSHEET 시트명
+ */
+function readShortUnicodeString(data: Buffer, offset: number): string {
+  const charCount = data[offset];
+  const highByte = (data[offset + 1] & 0x01) === 1;
+  const start = offset + 2;
+  return highByte
+    ? data.toString('utf16le', start, Math.min(start + charCount * 2, data.length))
+    : data.toString('latin1', start, Math.min(start + charCount, data.length));
+}
+
+/**
+ * RK 값 디코딩
+ */
+function decodeRk(rk: number): number {
+  let value: number;
+  if (rk & 0x02) {
+    value = rk >> 2;
+  } else {
+    const bytes = Buffer.alloc(8);
+    bytes.writeInt32LE(rk & ~0x03, 4);
+    value = bytes.readDoubleLE(0);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+/**
+ * BIFF8 Workbook 스트림을 레코드 단위로 읽어 워크북 복구
+ */
+export function salvageBiffWorkbook(buffer: Buffer): BiffSalvageResult | null {
+  console.log('🔧 BIFF8 레코드 단위 복구 시작');
+
+  const stream = extractWorkbookStream(buffer);
+  if (!stream) {
+    console.log('❌ Workbook 스트림을 찾을 수 없음');
+    return null;
+  }
+
+  const { records, skipped } = readBiffRecords(stream);
+  console.log(`📋 BIFF 레코드 ${records.length}개 읽음 (손상 구간 ${skipped}개 건너뜀)`);
+
+  const boundSheets: { name: string; position: number; type: number }[] = [];
+  const formats: { [index: number]: string } = {};
+  const xfFormats: number[] = [];
+  let sharedStrings: string[] = [];
+  let skippedRecords = skipped;
+
+  // 1단계: 전역 레코드 (시트 목록, SST, 서식)
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    try {
+      switch (record.type) {
+        case RECORD.BOUNDSHEET:
+          boundSheets.push({
+            position: record.data.readUInt32LE(0),
+            type: record.data[5],
+            name: readShortUnicodeString(record.data, 6),
+          });
+          break;
+        case RECORD.SST: {
+          const segments = [record.data];
+          for (let j = i + 1; j < records.length && records[j].type === RECORD.CONTINUE; j++) {
+            segments.push(records[j].data);
+          }
+          sharedStrings = parseSharedStringTable(segments);
+          break;
+        }
+        case RECORD.FORMAT:
+          formats[record.data.readUInt16LE(0)] = readUnicodeString(record.data, 2);
+          break;
+        case RECORD.XF:
+          xfFormats.push(record.data.readUInt16LE(2));
+          break;
+      }
+    } catch (error) {
+      skippedRecords++;
+    }
+  }
+
+  console.log(`📋 시트 ${boundSheets.length}개, SST ${sharedStrings.length}개 문자열, 서식 ${xfFormats.length}개`);
+
+  const builtInFormats = XLSX.SSF.get_table();
+  const formatOf = (xfIndex: number): string | undefined => {
+    const formatIndex = xfFormats[xfIndex];
+    if (formatIndex === undefined || formatIndex === 0) return undefined;
+    return formats[formatIndex] || builtInFormats[formatIndex];
+  };
+
+  // 2단계: 시트 서브스트림 (BOF 위치로 BOUNDSHEET와 매칭, 어긋나면 순서대로 배정)
+  const sheetCells: { [address: string]: XLSX.CellObject }[] = [];
+  const sheetNames: string[] = [];
+  const claimed: boolean[] = boundSheets.map(() => false);
+  let current: { [address: string]: XLSX.CellObject } | null = null;
+  let pendingFormula: string | null = null;
+  let globalsDone = false;
+
+  const putCell = (row: number, col: number, cell: XLSX.CellObject) => {
+    if (!current || row < 0 || row >= MAX_ROWS || col < 0 || col >= MAX_COLUMNS) return;
+    current[XLSX.utils.encode_cell({ r: row, c: col })] = cell;
+  };
+
+  const numberCell = (value: number, xfIndex: number): XLSX.CellObject => {
+    const format = formatOf(xfIndex);
+    return format ? { t: 'n', v: value, z: format } : { t: 'n', v: value };
+  };
+
+  records.forEach(record => {
+    try {
+      if (record.type === RECORD.BOF) {
+        const substreamType = record.data.readUInt16LE(2);
+        if (!globalsDone && substreamType === 0x0005) return;
+        globalsDone = true;
+        current = null;
+        if (substreamType !== 0x0010) return; // 워크시트가 아닌 서브스트림(차트, 매크로)은 건너뜀
+
+        let index = boundSheets.findIndex((sheet, k) => !claimed[k] && sheet.position === record.offset);
+        if (index === -1) index = claimed.indexOf(false);
+        if (index !== -1) claimed[index] = true;
+
+        current = {};
+        sheetCells.push(current);
+        sheetNames.push(index !== -1 ? boundSheets[index].name : `Sheet${sheetNames.length + 1}`);
+        return;
+      }
+
+      if (record.type === RECORD.EOF) {
+        current = null;
+        return;
+      }
+
+      if (!current) return;
+      const data = record.data;
+
+      switch (record.type) {
+        case RECORD.LABELSST: {
+          const text = sharedStrings[data.readUInt32LE(6)];
+          if (text !== undefined) putCell(data.readUInt16LE(0), data.readUInt16LE(2), { t: 's', v: text });
+          break;
+        }
+        case RECORD.LABEL:
+          putCell(data.readUInt16LE(0), data.readUInt16LE(2), { t: 's', v: readUnicodeString(data, 6) });
+          break;
+        case RECORD.NUMBER:
+          putCell(data.readUInt16LE(0), data.readUInt16LE(2), numberCell(data.readDoubleLE(6), data.readUInt16LE(4)));
+          break;
+        case RECORD.RK:
+          putCell(data.readUInt16LE(0), data.readUInt16LE(2), numberCell(decodeRk(data.readInt32LE(6)), data.readUInt16LE(4)));
+          break;
+        case RECORD.MULRK: {
+          const row = data.readUInt16LE(0);
+          const firstColumn = data.readUInt16LE(2);
+          const count = Math.floor((data.length - 6) / 6);
+          for (let k = 0; k < count; k++) {
+            const base = 4 + k * 6;
+            putCell(row, firstColumn + k, numberCell(decodeRk(data.readInt32LE(base + 2)), data.readUInt16LE(base)));
+          }
+          break;
+        }
+        case RECORD.BOOLERR: {
+          const value = data[6];
+          putCell(data.readUInt16LE(0), data.readUInt16LE(2), data[7]
+            ? { t: 'e', v: value, w: ERROR_VALUES[value] || '#N/A' }
+            : { t: 'b', v: value !== 0 });
+          break;
+        }
+        case RECORD.FORMULA: {
+          const row = data.readUInt16LE(0);
+          const col = data.readUInt16LE(2);
+          // 캐시된 결과: 마지막 2바이트가 0xFFFF면 문자열/불린/오류/빈 값
+          if (data.readUInt16LE(12) === 0xffff) {
+            const resultType = data[6];
+            if (resultType === 0x00) pendingFormula = XLSX.utils.encode_cell({ r: row, c: col });
+            else if (resultType === 0x01) putCell(row, col, { t: 'b', v: data[8] !== 0 });
+            else if (resultType === 0x02) putCell(row, col, { t: 'e', v: data[8], w: ERROR_VALUES[data[8]] || '#N/A' });
+          } else {
+            putCell(row, col, numberCell(data.readDoubleLE(6), data.readUInt16LE(4)));
+          }
+          break;
+        }
+        case RECORD.STRING:
+          if (pendingFormula) {
+            current[pendingFormula] = { t: 's', v: readUnicodeString(data, 0) };
+            pendingFormula = null;
+          }
+          break;
+      }
+    } catch (error) {
+      // 읽을 수 없는 레코드는 건너뛰고 계속 진행
+      skippedRecords++;
+    }
+  });
+
+  const workbook = XLSX.utils.book_new();
+  const summaries: BiffSheetSummary[] = [];
+
+  sheetCells.forEach((cells, index) => {
+    const addresses = Object.keys(cells);
+    summaries.push({ name: sheetNames[index], cells: addresses.length, recovered: addresses.length > 0 });
+    if (addresses.length === 0) return;
+
+    const range = { s: { r: MAX_ROWS, c: MAX_COLUMNS }, e: { r: 0, c: 0 } };
+    addresses.forEach(address => {
+      const { r, c } = XLSX.utils.decode_cell(address);
+      range.s.r = Math.min(range.s.r, r);
+      range.s.c = Math.min(range.s.c, c);
+      range.e.r = Math.max(range.e.r, r);
+      range.e.c = Math.max(range.e.c, c);
+    });
+    // 원래 위치 유지를 위해 범위는 A1부터 시작
+    const worksheet: XLSX.WorkSheet = { ...cells, '!ref': XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: range.e }) };
+
+    let name = (sheetNames[index].replace(/[\\/?*[\]:]/g, '_').trim() || `Sheet${index + 1}`).substring(0, 31);
+    while (workbook.SheetNames.indexOf(name) !== -1) name = `${name.substring(0, 28)}_${index + 1}`;
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+  });
+
+  console.log(`📋 BIFF 복구 결과: 시트 ${workbook.SheetNames.length}/${summaries.length}개, 건너뛴 레코드 ${skippedRecords}개`);
+  summaries.forEach(summary => console.log(`  - "${summary.name}": ${summary.cells}개 셀${summary.recovered ? '' : ' (복구 실패)'}`));
+
+  if (workbook.SheetNames.length === 0) {
+    return null;
+  }
+
+  return { workbook, sheets: summaries, sharedStrings: sharedStrings.length, skippedRecords };
+}
+
+/**
+ * 워크북 스트림의 레코드를 순회하며 워크시트 하위 스트림 레코드는 시트 이름과 함께 전달
+ * (BOF 위치를 BOUNDSHEET의 위치와 맞춰 시트 이름 확인, 전역 하위 스트림 레코드는 시트 이름 null)
+ */
+function forEachSheetRecord(buffer: Buffer, visit: (sheetName: string | null, record: BiffRecord) => void): void {
+  const stream = extractWorkbookStream(buffer);
+  if (!stream) {
+    return;
+  }
+
+  const { records } = readBiffRecords(stream);
+  const boundSheets: { name: string; position: number }[] = [];
+  let sheetName: string | null = null;
+  let globalsDone = false;
+
+  records.forEach(record => {
+    try {
+      if (record.type === RECORD.BOUNDSHEET) {
+        boundSheets.push({ position: record.data.readUInt32LE(0), name: readShortUnicodeString(record.data, 6) });
+      } else if (record.type === RECORD.BOF) {
+        const substreamType = record.data.readUInt16LE(2);
+        if (!globalsDone && substreamType === 0x0005) return;
+        globalsDone = true;
+        const sheet = boundSheets.find(entry => entry.position === record.offset);
+        sheetName = substreamType === 0x0010 && sheet ? sheet.name : null;
+      }
+      visit(sheetName, record);
+    } catch (error) {
+      // 손상된 레코드는 무시
+    }
+  });
+}
+
+/**
+ * 시트별 틀 고정/창 나누기 정보 읽기 (WINDOW2의 고정 플래그 + PANE 레코드)
+ * - SheetJS가 .xls의 창 정보를 읽지 않으므로 레코드에서 직접 확인
+ */
+export function readBiffSheetPanes(buffer: Buffer): { [sheetName: string]: SheetPane } {
+  const panes: { [sheetName: string]: SheetPane } = {};
+  let frozen = false;
+
+  forEachSheetRecord(buffer, (sheetName, record) => {
+    switch (record.type) {
+      case RECORD.BOF:
+        frozen = false;
+        break;
+      case RECORD.WINDOW2:
+        frozen = (record.data.readUInt16LE(0) & 0x0008) !== 0;
+        break;
+      case RECORD.PANE:
+        if (sheetName) {
+          panes[sheetName] = {
+            xSplit: record.data.readUInt16LE(0),
+            ySplit: record.data.readUInt16LE(2),
+            topLeftCell: XLSX.utils.encode_cell({ r: record.data.readUInt16LE(4), c: record.data.readUInt16LE(6) }),
+            frozen,
+          };
+        }
+        break;
+    }
+  });
+  return panes;
+}
+
+// DV 레코드의 유효성 검사 종류, 연산자, 오류 스타일 (.xlsx 속성 값 순서)
+const VALIDATION_TYPES = ['none', 'whole', 'decimal', 'list', 'date', 'time', 'textLength', 'custom'];
+const VALIDATION_OPERATORS = ['between', 'notBetween', 'equal', 'notEqual', 'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual'];
+const VALIDATION_ERROR_STYLES = ['stop', 'warning', 'information'];
+
+/**
+ * XLUnicodeString 읽기 + 다음 위치 (DV의 빈 문자열은 NUL 한 글자로 저장됨)
+ */
+function readUnicodeStringAt(data: Buffer, offset: number): { text: string; next: number } {
+  const charCount = data.readUInt16LE(offset);
+  const highByte = (data[offset + 2] & 0x01) === 1;
+  return {
+    text: readUnicodeString(data, offset).replace(/\u0000/g, ''),
+    next: offset + 3 + charCount * (highByte ? 2 : 1),
+  };
+}
+
+/**
+ * 셀 참조 (RgceLoc: 행, 열 + 상대 참조 플래그)
+ */
+function formatCellReference(row: number, column: number): string {
+  const columnRelative = (column & 0x4000) !== 0;
+  const rowRelative = (column & 0x8000) !== 0;
+  return `${columnRelative ? '' : '$'}${XLSX.utils.encode_col(column & 0x3fff)}${rowRelative ? '' : '$'}${row + 1}`;
+}
+
+/**
+ * 유효성 검사 수식 해석 (값, 셀/영역 참조, 이름 하나로 된 수식만 지원, 그 외는 null)
+ * - 목록 직접 입력(strLookup)은 NUL로 구분된 문자열 → "항목1,항목2"
+ */
+function decodeValidationFormula(rgce: Buffer, names: (string | null)[], strLookup: boolean): string | null {
+  const ptg = rgce[0];
+  switch (ptg) {
+    case 0x17: {
+      const charCount = rgce[1];
+      const highByte = (rgce[2] & 0x01) === 1;
+      const text = highByte ? rgce.toString('utf16le', 3, 3 + charCount * 2) : rgce.toString('latin1', 3, 3 + charCount);
+      if (3 + charCount * (highByte ? 2 : 1) !== rgce.length) return null;
+      return `"${(strLookup ? text.split('\u0000').join(',') : text).replace(/"/g, '""')}"`;
+    }
+    case 0x1e:
+      return rgce.length === 3 ? String(rgce.readUInt16LE(1)) : null;
+    case 0x1f:
+      return rgce.length === 9 ? String(rgce.readDoubleLE(1)) : null;
+    case 0x24: case 0x44: case 0x64:
+      return rgce.length === 5 ? formatCellReference(rgce.readUInt16LE(1), rgce.readUInt16LE(3)) : null;
+    case 0x25: case 0x45: case 0x65:
+      return rgce.length === 9
+        ? `${formatCellReference(rgce.readUInt16LE(1), rgce.readUInt16LE(5))}:${formatCellReference(rgce.readUInt16LE(3), rgce.readUInt16LE(7))}`
+        : null;
+    case 0x23: case 0x43: case 0x63:
+      return rgce.length === 5 ? names[rgce.readUInt32LE(1) - 1] || null : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 시트별 데이터 유효성 검사 읽기 (DV 레코드)
+ * - SheetJS가 .xls의 유효성 검사를 읽지 않으므로 레코드에서 직접 확인
+ * - 해석하지 못한 수식은 issue에 사유를 남김
+ */
+export function readBiffDataValidations(buffer: Buffer): { [sheetName: string]: DataValidation[] } {
+  const validations: { [sheetName: string]: DataValidation[] } = {};
+  const names: (string | null)[] = [];
+
+  forEachSheetRecord(buffer, (sheetName, record) => {
+    if (record.type === RECORD.LBL && !sheetName) {
+      // 이름 정의 (기본 제공 이름은 목록 참조로 쓰이지 않으므로 null)
+      const builtIn = (record.data.readUInt16LE(0) & 0x0020) !== 0;
+      const charCount = record.data[3];
+      const highByte = (record.data[14] & 0x01) === 1;
+      names.push(builtIn ? null : highByte
+        ? record.data.toString('utf16le', 15, 15 + charCount * 2)
+        : record.data.toString('latin1', 15, 15 + charCount));
+      return;
+    }
+    if (record.type !== RECORD.DV || !sheetName) {
+      return;
+    }
+
+    const data = record.data;
+    const flags = data.readUInt32LE(0);
+    const strings: string[] = [];
+    let offset = 4;
+    for (let i = 0; i < 4; i++) {
+      const read = readUnicodeStringAt(data, offset);
+      strings.push(read.text);
+      offset = read.next;
+    }
+    const formulas: Buffer[] = [];
+    for (let i = 0; i < 2; i++) {
+      const length = data.readUInt16LE(offset);
+      formulas.push(data.subarray(offset + 4, offset + 4 + length));
+      offset += 4 + length;
+    }
+    const ranges: string[] = [];
+    const rangeCount = data.readUInt16LE(offset);
+    for (let i = 0; i < rangeCount; i++) {
+      const at = offset + 2 + i * 8;
+      ranges.push(XLSX.utils.encode_range({
+        s: { r: data.readUInt16LE(at), c: data.readUInt16LE(at + 4) },
+        e: { r: data.readUInt16LE(at + 2), c: data.readUInt16LE(at + 6) },
+      }));
+    }
+    if (ranges.length === 0) {
+      return;
+    }
+
+    const type = VALIDATION_TYPES[flags & 0x0f] || 'none';
+    const operator = (flags >> 20) & 0x0f;
+    const errorStyle = (flags >> 4) & 0x07;
+    const strLookup = (flags & 0x0080) !== 0;
+    const decoded = formulas.map(rgce => rgce.length > 0 ? decodeValidationFormula(rgce, names, strLookup) : undefined);
+    const validation: DataValidation = {
+      sqref: ranges.join(' '),
+      type,
+      operator: type !== 'list' && type !== 'custom' && type !== 'none' && operator > 0 ? VALIDATION_OPERATORS[operator] : undefined,
+      errorStyle: errorStyle > 0 ? VALIDATION_ERROR_STYLES[errorStyle] : undefined,
+      allowBlank: (flags & 0x0100) !== 0,
+      showDropDown: (flags & 0x0200) !== 0,
+      showInputMessage: (flags & 0x40000) !== 0,
+      showErrorMessage: (flags & 0x80000) !== 0,
+      promptTitle: strings[0] || undefined,
+      errorTitle: strings[1] || undefined,
+      prompt: strings[2] || undefined,
+      error: strings[3] || undefined,
+      formula1: decoded[0] || undefined,
+      formula2: decoded[1] || undefined,
+    };
+    if (decoded.indexOf(null) !== -1) {
+      validation.issue = '해석할 수 없는 유효성 검사 수식';
+    }
+    (validations[sheetName] = validations[sheetName] || []).push(validation);
+  });
+  return validations;
+}
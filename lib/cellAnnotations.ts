@@ -0,0 +1,289 @@
+import * as XLSX from 'xlsx';
+import { findUntranslatableReason, renameSheetReferences } from './formulas';
+
+/**
+ * 셀 주석 종류 (메모, 하이퍼링크, 데이터 유효성 검사)
+ */
+export type AnnotationKind = 'comments' | 'hyperlinks' | 'validations';
+
+/**
+ * 데이터 유효성 검사 규칙 (.xlsx <dataValidation> 속성과 같은 의미)
+ * - showDropDown: true면 목록 드롭다운을 숨김
+ * - issue: 원본에서 읽지 못한 사유 (있으면 옮기지 않음)
+ */
+export interface DataValidation {
+  sqref: string;
+  type: string;
+  operator?: string;
+  errorStyle?: string;
+  allowBlank: boolean;
+  showDropDown: boolean;
+  showInputMessage: boolean;
+  showErrorMessage: boolean;
+  promptTitle?: string;
+  prompt?: string;
+  errorTitle?: string;
+  error?: string;
+  formula1?: string;
+  formula2?: string;
+  issue?: string;
+}
+
+export interface AnnotationCounts {
+  comments: number;
+  hyperlinks: number;
+  validations: number;
+}
+
+/**
+ * 옮기지 못한 셀 주석
+ */
+export interface AnnotationIssue {
+  sheet: string;
+  kind: AnnotationKind;
+  address: string;
+  reason: string;
+}
+
+/**
+ * 셀 주석 보존 결과 (원본 개수와 옮긴 개수)
+ */
+export interface AnnotationReport {
+  source: AnnotationCounts;
+  preserved: AnnotationCounts;
+  dropped: AnnotationIssue[];
+}
+
+// 원본 시트의 데이터 유효성 검사를 담는 시트 속성 (SheetJS가 읽고 쓰지 않으므로 직접 처리)
+export const VALIDATIONS_KEY = '!validations';
+
+// CT_Worksheet에서 <dataValidations> 뒤에 오는 요소들 (이 중 첫 요소 앞에 삽입)
+const ELEMENTS_AFTER_VALIDATIONS = [
+  'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup', 'headerFooter', 'rowBreaks', 'colBreaks',
+  'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags', 'drawing', 'legacyDrawing',
+  'legacyDrawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst',
+];
+
+export function createAnnotationReport(): AnnotationReport {
+  return {
+    source: { comments: 0, hyperlinks: 0, validations: 0 },
+    preserved: { comments: 0, hyperlinks: 0, validations: 0 },
+    dropped: [],
+  };
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function readFlag(attributes: string, name: string): boolean {
+  const value = readAttribute(attributes, name);
+  return value === '1' || value === 'true';
+}
+
+function readChild(body: string, name: string): string | undefined {
+  const match = body.match(new RegExp(`<(?:\\w+:)?${name}>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * 워크시트 XML의 <dataValidation> 읽기
+ */
+export function parseDataValidations(sheetXml: string): DataValidation[] {
+  const validations: DataValidation[] = [];
+  const pattern = /<(?:\w+:)?dataValidation\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?dataValidation>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sheetXml)) !== null) {
+    const attributes = match[1];
+    const body = match[2] || '';
+    const sqref = readAttribute(attributes, 'sqref') || readChild(body, 'sqref');
+    if (!sqref) {
+      continue;
+    }
+    validations.push({
+      sqref,
+      type: readAttribute(attributes, 'type') || 'none',
+      operator: readAttribute(attributes, 'operator'),
+      errorStyle: readAttribute(attributes, 'errorStyle'),
+      allowBlank: readFlag(attributes, 'allowBlank'),
+      showDropDown: readFlag(attributes, 'showDropDown'),
+      showInputMessage: readFlag(attributes, 'showInputMessage'),
+      showErrorMessage: readFlag(attributes, 'showErrorMessage'),
+      promptTitle: readAttribute(attributes, 'promptTitle'),
+      prompt: readAttribute(attributes, 'prompt'),
+      errorTitle: readAttribute(attributes, 'errorTitle'),
+      error: readAttribute(attributes, 'error'),
+      formula1: readChild(body, 'formula1'),
+      formula2: readChild(body, 'formula2'),
+    });
+  }
+  return validations;
+}
+
+/**
+ * 셀 주소를 새 시트 위치로 이동 (레이아웃을 유지하지 않으면 데이터가 A1부터 시작)
+ */
+function shiftAddress(address: string, offset: XLSX.CellAddress): string | null {
+  const cell = XLSX.utils.decode_cell(address);
+  return cell.r >= offset.r && cell.c >= offset.c ? XLSX.utils.encode_cell({ r: cell.r - offset.r, c: cell.c - offset.c }) : null;
+}
+
+function shiftSqref(sqref: string, offset: XLSX.CellAddress): string | null {
+  if (offset.r === 0 && offset.c === 0) {
+    return sqref;
+  }
+  const ranges = sqref.split(/\s+/).filter(ref => ref !== '').map(ref => {
+    const range = XLSX.utils.decode_range(ref.replace(/\$/g, ''));
+    return { s: { r: range.s.r - offset.r, c: range.s.c - offset.c }, e: { r: range.e.r - offset.r, c: range.e.c - offset.c } };
+  }).filter(range => range.e.r >= 0 && range.e.c >= 0);
+  return ranges.length > 0
+    ? ranges.map(range => XLSX.utils.encode_range({ s: { r: Math.max(range.s.r, 0), c: Math.max(range.s.c, 0) }, e: range.e })).join(' ')
+    : null;
+}
+
+/**
+ * 원본 시트의 메모, 하이퍼링크, 데이터 유효성 검사를 새 시트로 복사
+ * - 시트 내부 링크와 유효성 검사 수식의 시트 참조는 바뀐 시트 이름으로 변경
+ * - 다른 통합 문서를 참조하는 유효성 검사는 제외
+ */
+export function copyCellAnnotations(
+  source: XLSX.WorkSheet,
+  target: XLSX.WorkSheet,
+  sheetName: string,
+  offset: XLSX.CellAddress,
+  renames: Record<string, string>,
+  report: AnnotationReport
+): void {
+  Object.keys(source).forEach(address => {
+    const cell: XLSX.CellObject = source[address];
+    if (address[0] === '!' || !cell || (!cell.c && !cell.l)) {
+      return;
+    }
+    const hasComments = !!cell.c && cell.c.length > 0;
+    const hasLink = !!cell.l && !!cell.l.Target;
+    report.source.comments += hasComments ? 1 : 0;
+    report.source.hyperlinks += hasLink ? 1 : 0;
+    const targetAddress = shiftAddress(address, offset);
+    if (!targetAddress) {
+      if (hasComments) report.dropped.push({ sheet: sheetName, kind: 'comments', address, reason: '데이터 범위 밖의 셀' });
+      if (hasLink) report.dropped.push({ sheet: sheetName, kind: 'hyperlinks', address, reason: '데이터 범위 밖의 셀' });
+      return;
+    }
+    const targetCell: XLSX.CellObject = target[targetAddress] || { t: 'z' };
+
+    if (cell.c && hasComments) {
+      const comments: XLSX.Comments = cell.c.map(comment => ({ a: comment.a, t: comment.t }));
+      comments.hidden = cell.c.hidden;
+      targetCell.c = comments;
+      report.preserved.comments++;
+    }
+    if (cell.l && hasLink) {
+      const internal = cell.l.Target[0] === '#';
+      targetCell.l = {
+        Target: internal ? `#${renameSheetReferences(cell.l.Target.substring(1), renames)}` : cell.l.Target,
+        ...(cell.l.Tooltip ? { Tooltip: cell.l.Tooltip } : {}),
+      };
+      report.preserved.hyperlinks++;
+    }
+    if (targetCell.c || targetCell.l) {
+      target[targetAddress] = targetCell;
+    }
+  });
+
+  const validations: DataValidation[] = source[VALIDATIONS_KEY] || [];
+  const kept: DataValidation[] = [];
+  validations.forEach(validation => {
+    report.source.validations++;
+    const reason = validation.issue || [validation.formula1, validation.formula2]
+      .map(formula => formula ? findUntranslatableReason(formula) : null)
+      .filter(found => !!found)[0];
+    const sqref = shiftSqref(validation.sqref, offset);
+    if (reason || !sqref) {
+      report.dropped.push({ sheet: sheetName, kind: 'validations', address: validation.sqref, reason: reason || '데이터 범위 밖의 영역' });
+      return;
+    }
+    const { issue, ...rule } = validation;
+    kept.push({
+      ...rule,
+      sqref,
+      formula1: validation.formula1 !== undefined ? renameSheetReferences(validation.formula1, renames) : undefined,
+      formula2: validation.formula2 !== undefined ? renameSheetReferences(validation.formula2, renames) : undefined,
+    });
+    report.preserved.validations++;
+  });
+  if (kept.length > 0) {
+    target[VALIDATIONS_KEY] = kept;
+  }
+}
+
+/**
+ * <dataValidation> 요소
+ */
+function validationElement(validation: DataValidation): string {
+  const attributes: [string, string | undefined][] = [
+    ['type', validation.type !== 'none' ? validation.type : undefined],
+    ['errorStyle', validation.errorStyle],
+    ['operator', validation.operator],
+    ['allowBlank', validation.allowBlank ? '1' : undefined],
+    ['showDropDown', validation.showDropDown ? '1' : undefined],
+    ['showInputMessage', validation.showInputMessage ? '1' : undefined],
+    ['showErrorMessage', validation.showErrorMessage ? '1' : undefined],
+    ['errorTitle', validation.errorTitle],
+    ['error', validation.error],
+    ['promptTitle', validation.promptTitle],
+    ['prompt', validation.prompt],
+    ['sqref', validation.sqref],
+  ];
+  return '<dataValidation' +
+    attributes.filter(([, value]) => value !== undefined).map(([name, value]) => ` ${name}="${encodeXml(value as string)}"`).join('') + '>' +
+    (validation.formula1 !== undefined ? `<formula1>${encodeXml(validation.formula1)}</formula1>` : '') +
+    (validation.formula2 !== undefined ? `<formula2>${encodeXml(validation.formula2)}</formula2>` : '') +
+    '</dataValidation>';
+}
+
+/**
+ * 작성된 .xlsx에 데이터 유효성 검사 추가 (SheetJS는 시트 순서대로 sheet1.xml, sheet2.xml ... 로 작성)
+ */
+export function applyDataValidations(xlsxBuffer: Buffer, workbook: XLSX.WorkBook): Buffer {
+  const sheetValidations = workbook.SheetNames.map(name => workbook.Sheets[name][VALIDATIONS_KEY] as DataValidation[] | undefined);
+  if (!sheetValidations.some(validations => !!validations && validations.length > 0)) {
+    return xlsxBuffer;
+  }
+
+  const container = XLSX.CFB.read(xlsxBuffer, { type: 'buffer' });
+  const following = new RegExp(`<(${ELEMENTS_AFTER_VALIDATIONS.join('|')})\\b`);
+  sheetValidations.forEach((validations, index) => {
+    if (!validations || validations.length === 0) return;
+    const entry = XLSX.CFB.find(container, `/xl/worksheets/sheet${index + 1}.xml`);
+    if (!entry || !entry.content) return;
+    const xml = Buffer.from(entry.content as Uint8Array).toString('utf8');
+    const element = `<dataValidations count="${validations.length}">${validations.map(validationElement).join('')}</dataValidations>`;
+    const dataEnd = Math.max(xml.indexOf('</sheetData>'), 0);
+    const match = xml.substring(dataEnd).match(following);
+    const position = match && match.index !== undefined ? dataEnd + match.index : xml.lastIndexOf('</worksheet>');
+    entry.content = Buffer.from(xml.substring(0, position) + element + xml.substring(position), 'utf8');
+    entry.size = entry.content.length;
+  });
+  console.log('✅ 데이터 유효성 검사 적용:', sheetValidations.filter(validations => !!validations && validations.length > 0).length, '개 시트');
+  return Buffer.from(XLSX.CFB.write(container, { type: 'buffer', fileType: 'zip', compression: true }));
+}
@@ -0,0 +1,314 @@
+import * as XLSX from 'xlsx';
+
+// CFB 특수 섹터 번호
+const DIFSECT = 0xfffffffc;
+const FATSECT = 0xfffffffd;
+const ENDOFCHAIN = 0xfffffffe;
+const FREESECT = 0xffffffff;
+
+// CFB 시그니처 (D0 CF 11 E0 A1 B1 1A E1)
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// BIFF 전역 BOF 레코드 시작 (BIFF8 / BIFF5)
+const BIFF_BOF_PREFIXES = [
+  Buffer.from([0x09, 0x08, 0x10, 0x00, 0x00, 0x06, 0x05, 0x00]),
+  Buffer.from([0x09, 0x08, 0x08, 0x00, 0x00, 0x05, 0x05, 0x00]),
+];
+
+const DIRECTORY_ENTRY_SIZE = 128;
+const MINI_SECTOR_SIZE = 64;
+
+/**
+ * 디렉터리 엔트리
+ */
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+}
+
+/**
+ * 체인 추적 결과 (fault가 있으면 중간에 끊긴 체인)
+ */
+interface ChainResult {
+  sectors: number[];
+  fault: string | null;
+}
+
+/**
+ * CFB 복구 결과
+ */
+export interface CfbRepairResult {
+  streamName: string;
+  stream: Buffer;
+  repairs: string[];
+}
+
+/**
+ * CFB(OLE) 컨테이너 시그니처 확인
+ */
+export function isCfbContainer(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.subarray(0, 8).equals(CFB_SIGNATURE);
+}
+
+/**
+ * BIFF 전역 BOF 레코드로 시작하는지 확인
+ */
+function startsWithBiffBof(data: Buffer): boolean {
+  return BIFF_BOF_PREFIXES.some(prefix => data.length >= prefix.length && data.subarray(0, prefix.length).equals(prefix));
+}
+
+/**
+ * 체인 추적 (순환, 범위 초과, 비정상 종료 감지)
+ */
+function followChain(start: number, table: number[], limit: number): ChainResult {
+  const sectors: number[] = [];
+  const visited = new Set<number>();
+  let current = start;
+
+  while (current !== ENDOFCHAIN) {
+    if (current >= limit || current === FREESECT || current === FATSECT || current === DIFSECT) {
+      return { sectors, fault: `섹터 ${current >>> 0}에서 체인이 끊김` };
+    }
+    if (visited.has(current)) {
+      return { sectors, fault: `섹터 ${current}에서 순환 체인 발견` };
+    }
+    visited.add(current);
+    sectors.push(current);
+    current = current < table.length ? table[current] : FREESECT;
+  }
+
+  return { sectors, fault: null };
+}
+
+/**
+ * 디렉터리 엔트리 파싱
+ */
+function readDirectoryEntry(data: Buffer, offset: number): DirectoryEntry | null {
+  if (offset + DIRECTORY_ENTRY_SIZE > data.length) return null;
+  const nameLength = data.readUInt16LE(offset + 64);
+  const type = data[offset + 66];
+  if (nameLength < 2 || nameLength > 64 || nameLength % 2 !== 0 || type < 1 || type > 5) return null;
+
+  return {
+    name: data.toString('utf16le', offset, offset + nameLength - 2),
+    type,
+    startSector: data.readUInt32LE(offset + 116),
+    size: data.readUInt32LE(offset + 120),
+  };
+}
+
+/**
+ * 손상된 CFB 컨테이너에서 Workbook/Book 스트림을 허용적으로 재구성
+ */
+export function repairWorkbookStream(buffer: Buffer): CfbRepairResult | null {
+  console.log('🔧 CFB 컨테이너 허용 모드 읽기 시작');
+  const repairs: string[] = [];
+
+  if (buffer.length < 512) {
+    console.log('❌ CFB 헤더보다 작은 파일');
+    return null;
+  }
+  if (!isCfbContainer(buffer)) {
+    repairs.push('CFB 시그니처 손상 - 헤더 값을 그대로 사용');
+  }
+
+  // 1. 헤더
+  let sectorShift = buffer.readUInt16LE(30);
+  if (sectorShift !== 9 && sectorShift !== 12) {
+    repairs.push(`비정상 섹터 크기(2^${sectorShift}) - 512바이트로 가정`);
+    sectorShift = 9;
+  }
+  const sectorSize = 1 << sectorShift;
+  const sectorCount = Math.ceil((buffer.length - sectorSize) / sectorSize);
+  const firstDirectorySector = buffer.readUInt32LE(48);
+  const miniStreamCutoff = buffer.readUInt32LE(56) || 4096;
+  const firstMiniFatSector = buffer.readUInt32LE(60);
+  const firstDifatSector = buffer.readUInt32LE(68);
+
+  const readSector = (index: number): Buffer => {
+    const start = (index + 1) * sectorSize;
+    return buffer.subarray(Math.min(start, buffer.length), Math.min(start + sectorSize, buffer.length));
+  };
+
+  // 2. DIFAT → FAT 섹터 목록
+  const fatSectorList: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = buffer.readUInt32LE(76 + i * 4);
+    if (sector !== FREESECT) fatSectorList.push(sector);
+  }
+  const reserved = new Set<number>();
+  const visitedDifat = new Set<number>();
+  let difatSector = firstDifatSector;
+  while (difatSector !== ENDOFCHAIN && difatSector !== FREESECT) {
+    if (difatSector >= sectorCount || visitedDifat.has(difatSector)) {
+      repairs.push(`DIFAT 체인 손상(섹터 ${difatSector >>> 0}) - 이후 FAT 섹터 무시`);
+      break;
+    }
+    visitedDifat.add(difatSector);
+    reserved.add(difatSector);
+    const data = readSector(difatSector);
+    const perSector = sectorSize / 4 - 1;
+    for (let i = 0; i < perSector && (i + 1) * 4 <= data.length; i++) {
+      const sector = data.readUInt32LE(i * 4);
+      if (sector !== FREESECT) fatSectorList.push(sector);
+    }
+    difatSector = data.length >= sectorSize ? data.readUInt32LE(sectorSize - 4) : ENDOFCHAIN;
+  }
+
+  // 3. FAT 구성 (손상된 FAT 섹터 구간은 FREESECT로 채워 체인이 끊긴 것으로 처리)
+  const fat: number[] = [];
+  fatSectorList.forEach((sector, index) => {
+    const data = sector < sectorCount ? readSector(sector) : Buffer.alloc(0);
+    if (data.length < sectorSize) {
+      repairs.push(`FAT 섹터 #${index}(섹터 ${sector >>> 0})를 읽을 수 없음`);
+    } else {
+      reserved.add(sector);
+    }
+    for (let i = 0; i < sectorSize / 4; i++) {
+      fat.push((i + 1) * 4 <= data.length ? data.readUInt32LE(i * 4) : FREESECT);
+    }
+  });
+
+  // 4. 디렉터리에서 Workbook/Book과 Root Entry 찾기
+  const entries: DirectoryEntry[] = [];
+  const directoryChain = followChain(firstDirectorySector, fat, sectorCount);
+  directoryChain.sectors.forEach(sector => {
+    reserved.add(sector);
+    const data = readSector(sector);
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= data.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const entry = readDirectoryEntry(data, offset);
+      if (entry) entries.push(entry);
+    }
+  });
+
+  const findEntry = (names: string[], type: number) =>
+    entries.find(entry => entry.type === type && names.indexOf(entry.name) !== -1);
+
+  if (directoryChain.fault || !findEntry(['Workbook', 'Book'], 2)) {
+    repairs.push(`디렉터리 체인 손상(${directoryChain.fault || 'Workbook 엔트리 없음'}) - 전체 섹터에서 디렉터리 엔트리 검색`);
+    for (let offset = sectorSize; offset + DIRECTORY_ENTRY_SIZE <= buffer.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const entry = readDirectoryEntry(buffer, offset);
+      // 루트 엔트리는 이름이 다를 수 있지만 항상 디렉터리 섹터의 첫 엔트리
+      const isRoot = entry !== null && entry.type === 5 && offset % sectorSize === 0;
+      if (entry && (entry.name === 'Workbook' || entry.name === 'Book' || isRoot)) {
+        entries.push(entry);
+      }
+    }
+  }
+
+  const workbookEntry = findEntry(['Workbook', 'Book'], 2);
+  const rootEntry = entries.find(entry => entry.type === 5);
+  let stream: Buffer | null = null;
+  const streamName = workbookEntry ? workbookEntry.name : 'Workbook';
+
+  // 미니 FAT과 미니 스트림 섹터는 Workbook 스트림 재구성 대상에서 제외
+  const miniFatChain = followChain(firstMiniFatSector, fat, sectorCount);
+  const miniStreamChain = rootEntry ? followChain(rootEntry.startSector, fat, sectorCount) : { sectors: [], fault: null };
+  miniFatChain.sectors.forEach(sector => reserved.add(sector));
+  miniStreamChain.sectors.forEach(sector => reserved.add(sector));
+
+  // 5-a. 미니 스트림에 저장된 작은 Workbook 스트림
+  if (workbookEntry && workbookEntry.size < miniStreamCutoff && rootEntry) {
+    if (miniStreamChain.fault) {
+      repairs.push(`미니 스트림 체인 손상(${miniStreamChain.fault}) - 읽은 구간까지만 사용`);
+    }
+    const miniStream = Buffer.concat(miniStreamChain.sectors.map(readSector));
+    if (miniStream.length < rootEntry.size) {
+      repairs.push(`미니 스트림이 잘림 (${miniStream.length}/${rootEntry.size} bytes)`);
+    }
+
+    if (miniFatChain.fault) {
+      repairs.push(`미니 FAT 체인 손상(${miniFatChain.fault})`);
+    }
+    const miniFatData = Buffer.concat(miniFatChain.sectors.map(readSector));
+    const miniFat: number[] = [];
+    for (let offset = 0; offset + 4 <= miniFatData.length; offset += 4) {
+      miniFat.push(miniFatData.readUInt32LE(offset));
+    }
+
+    const miniSectorCount = Math.ceil(miniStream.length / MINI_SECTOR_SIZE);
+    const miniChain = followChain(workbookEntry.startSector, miniFat, miniSectorCount);
+    const miniSectors = miniChain.sectors.slice();
+    if (miniChain.fault) {
+      // 끊긴 지점부터는 연속된 미니 섹터로 가정
+      repairs.push(`Workbook 미니 섹터 체인 손상(${miniChain.fault}) - 연속 섹터로 재구성`);
+      let next = miniSectors.length > 0 ? miniSectors[miniSectors.length - 1] + 1 : workbookEntry.startSector;
+      while (miniSectors.length * MINI_SECTOR_SIZE < workbookEntry.size && next < miniSectorCount) {
+        miniSectors.push(next++);
+      }
+    }
+    stream = Buffer.concat(miniSectors.map(sector =>
+      miniStream.subarray(sector * MINI_SECTOR_SIZE, (sector + 1) * MINI_SECTOR_SIZE)
+    ));
+  }
+
+  // 5-b. 일반 섹터에 저장된 Workbook 스트림
+  if (!stream && workbookEntry && workbookEntry.size >= miniStreamCutoff) {
+    const chain = followChain(workbookEntry.startSector, fat, sectorCount);
+    // FAT/디렉터리/미니 스트림 섹터로 이어지는 링크는 손상된 것으로 보고 제외
+    const sectors = chain.sectors.filter(sector => !reserved.has(sector));
+    let fault = chain.fault;
+    if (!fault && sectors.length < chain.sectors.length) {
+      fault = '예약된 섹터로 연결됨';
+    }
+    if (!fault && sectors.length * sectorSize < workbookEntry.size) {
+      fault = `선언된 크기보다 짧은 체인 (${sectors.length}개 섹터)`;
+    }
+    if (fault) {
+      // 끊긴 지점 이후는 아직 쓰이지 않은 연속 섹터로 가정
+      repairs.push(`Workbook FAT 체인 손상(${fault}) - 연속 섹터로 재구성`);
+      const used = new Set<number>(sectors);
+      let next = sectors.length > 0 ? Math.max.apply(null, sectors) + 1 : workbookEntry.startSector;
+      while (sectors.length * sectorSize < workbookEntry.size && next < sectorCount) {
+        if (!reserved.has(next) && !used.has(next)) sectors.push(next);
+        next++;
+      }
+    }
+    stream = Buffer.concat(sectors.map(readSector));
+  }
+
+  // 6. 스트림 위치를 신뢰할 수 없으면 BOF 레코드로 시작하는 섹터를 찾아 연속 섹터로 재구성
+  if (!stream || !startsWithBiffBof(stream)) {
+    let startSector = -1;
+    for (let sector = 0; sector < sectorCount; sector++) {
+      if (!reserved.has(sector) && startsWithBiffBof(readSector(sector))) {
+        startSector = sector;
+        break;
+      }
+    }
+    if (startSector === -1) {
+      console.log('❌ BIFF BOF 레코드로 시작하는 섹터 없음, CFB 복구 불가');
+      return null;
+    }
+
+    repairs.push(`Workbook 시작 위치를 찾을 수 없음 - BOF 레코드가 있는 섹터 ${startSector}부터 스트림 재구성`);
+    const sectors: number[] = [];
+    const expectedSize = workbookEntry && workbookEntry.size >= miniStreamCutoff ? workbookEntry.size : buffer.length;
+    for (let sector = startSector; sector < sectorCount && sectors.length * sectorSize < expectedSize; sector++) {
+      if (!reserved.has(sector)) sectors.push(sector);
+    }
+    stream = Buffer.concat(sectors.map(readSector));
+  }
+
+  if (workbookEntry && stream.length > workbookEntry.size && workbookEntry.size > 0) {
+    stream = stream.subarray(0, workbookEntry.size);
+  } else if (workbookEntry && stream.length < workbookEntry.size) {
+    repairs.push(`Workbook 스트림이 잘림 (${stream.length}/${workbookEntry.size} bytes)`);
+  }
+
+  console.log(`📋 CFB 복구 결과: ${streamName} ${stream.length} bytes, 적용된 복구 ${repairs.length}건`);
+  repairs.forEach(repair => console.log(`  - ${repair}`));
+
+  return { streamName, stream, repairs };
+}
+
+/**
+ * 복구한 Workbook 스트림을 정상 CFB 컨테이너로 다시 포장 (표준 파서 재시도용)
+ */
+export function rebuildCfbContainer(result: CfbRepairResult): Buffer {
+  const container = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(container, result.streamName, result.stream);
+  return Buffer.from(XLSX.CFB.write(container, { type: 'buffer', fileType: 'cfb' }));
+}
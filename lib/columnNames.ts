@@ -0,0 +1,69 @@
+/**
+ * 열 이름 정규화 (헤더 셀 → 결과 파일의 열 이름)
+ * - 제어 문자와 폭 없는 문자를 빼고 공백(줄바꿈 포함)을 하나로 합침, #, /, %, *, 괄호 등 기호는 유지
+ * - 빈 이름은 열 위치로 컬럼N (같은 행의 빈 헤더끼리 겹치지 않음)
+ * - 대소문자만 다른 이름도 같은 이름으로 보고 (Excel 표 기준) 두 번째부터 _2, _3 ...
+ */
+
+// Excel 표 열 이름 최대 길이
+const MAX_COLUMN_NAME_LENGTH = 255;
+
+/**
+ * 바뀐 열 이름 (column: 0부터, original: 원래 헤더 값)
+ */
+export interface RenamedColumn {
+  column: number;
+  original: string;
+  name: string;
+}
+
+/**
+ * 헤더 값 하나를 열 이름으로 정리 (빈 값은 빈 문자열)
+ */
+export function normalizeColumnName(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value)
+    .replace(/[\x00-\x1F\x7F-\x9F]/g, ' ') // 제어 문자 (줄바꿈, 탭 포함)
+    .replace(/[\u200B-\u200D\u2060\uFEFF]/g, '') // 폭 없는 문자, BOM
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_COLUMN_NAME_LENGTH);
+}
+
+/**
+ * 헤더 행 → 겹치지 않는 열 이름과 원래 값에서 바뀐 열 목록
+ * - 먼저 나온 열이 원래 이름을 갖고, 뒤의 같은 이름에 _2, _3 ... (붙인 이름이 다른 열과 겹치면 다음 번호)
+ * - hasData를 주면 헤더가 비어 있고 값도 없는 열(hasData[i]가 false)은 컬럼N을 붙이지 않고 빈 이름으로 둠
+ */
+export function toUniqueColumnNames(values: any[], hasData?: boolean[]): { names: string[]; renamed: RenamedColumn[] } {
+  const bases = values.map((value, index) =>
+    normalizeColumnName(value) || (hasData && !hasData[index] ? '' : `컬럼${index + 1}`));
+  const taken = bases.map(base => base.toLowerCase());
+  const used: string[] = [];
+  const names: string[] = [];
+  const renamed: RenamedColumn[] = [];
+
+  bases.forEach((base, index) => {
+    if (base === '') {
+      names.push('');
+      return;
+    }
+    let name = base;
+    // 앞 열과 겹치거나, 뒤 열의 원래 이름을 빼앗게 되는 이름이면 번호를 붙임
+    for (let suffix = 2; used.indexOf(name.toLowerCase()) !== -1 ||
+         (name !== base && taken.indexOf(name.toLowerCase()) !== -1); suffix++) {
+      const ending = `_${suffix}`;
+      name = base.substring(0, MAX_COLUMN_NAME_LENGTH - ending.length) + ending;
+    }
+    used.push(name.toLowerCase());
+    names.push(name);
+
+    const original = values[index] === null || values[index] === undefined ? '' : String(values[index]);
+    if (name !== original) {
+      renamed.push({ column: index, original, name });
+    }
+  });
+  return { names, renamed };
+}
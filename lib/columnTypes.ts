@@ -0,0 +1,59 @@
+// 값이 숫자여도 텍스트로 유지할 식별자 열의 헤더 (주문번호, 송장번호, 우편번호, 전화, 사업자번호, ID 등)
+const IDENTIFIER_HEADER_PATTERNS: RegExp[] = [
+  /주문\s*번호/,
+  /(송장|운송장)\s*번호/,
+  /우편\s*번호/,
+  /전화|휴대\s*폰|핸드\s*폰|연락처|팩스/,
+  /사업자\s*(등록)?\s*번호/,
+  /주민\s*(등록)?\s*번호/,
+  /(계좌|카드|회원|고객|상품|바코드)\s*번호/,
+  /아이디|(^|[^a-z])id($|[^a-z])/i,
+  /zip|postal|phone|mobile|(^|[^a-z])tel($|[^a-z])|fax|barcode|invoice\s*no|order\s*no|tracking/i,
+];
+
+// 정밀도 손실 없이 숫자로 저장할 수 있는 최대 자릿수 (Excel은 15자리까지 유효)
+const MAX_NUMERIC_DIGITS = 15;
+
+/**
+ * 헤더 이름이 식별자 열을 뜻하는지
+ */
+export function isIdentifierHeader(name: any): boolean {
+  if (typeof name !== 'string' || name.trim() === '') {
+    return false;
+  }
+  return IDENTIFIER_HEADER_PATTERNS.some(pattern => pattern.test(name));
+}
+
+/**
+ * 숫자로 바꾸면 값이 달라지는 숫자 문자열인지 (앞자리 0, 15자리 초과)
+ */
+export function isIdentifierValue(value: any): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const text = value.trim();
+  if (!/^\d+$/.test(text)) {
+    return false;
+  }
+  return (text.length > 1 && text[0] === '0') || text.length > MAX_NUMERIC_DIGITS;
+}
+
+/**
+ * 열별로 텍스트로 유지해야 하는 식별자 열인지 판단
+ * - 헤더(첫 행) 이름이 식별자 패턴과 맞거나
+ * - 열 값 중 하나라도 앞자리 0이나 15자리를 넘는 숫자 문자열이 있으면 식별자 열
+ */
+export function detectIdentifierColumns(rows: any[][]): boolean[] {
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = rows.length > 0 ? rows[0] : [];
+  const identifiers: boolean[] = [];
+
+  for (let column = 0; column < columnCount; column++) {
+    let identifier = isIdentifierHeader(header[column]);
+    for (let row = 1; row < rows.length && !identifier; row++) {
+      identifier = isIdentifierValue(rows[row][column]);
+    }
+    identifiers.push(identifier);
+  }
+  return identifiers;
+}
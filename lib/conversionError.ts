@@ -0,0 +1,70 @@
+/**
+ * 변환 오류 코드
+ * - ENCRYPTED: 암호로 보호된 파일
+ * - CORRUPT_CONTAINER: ZIP/CFB 컨테이너가 손상되어 복구 불가
+ * - UNSUPPORTED_FORMAT: 지원하지 않는 확장자 또는 내용
+ * - EMPTY_WORKBOOK: 읽을 수 있는 데이터 없음
+ * - ENCODING_UNDETERMINED: 텍스트 인코딩을 판별할 수 없음
+ * - LIMIT_EXCEEDED: 크기 등 처리 한도 초과
+ * - UPSTREAM_ENGINE_FAILED: 외부 변환 엔진(Python 서비스) 실패
+ */
+export type ConversionErrorCode =
+  | 'ENCRYPTED'
+  | 'CORRUPT_CONTAINER'
+  | 'UNSUPPORTED_FORMAT'
+  | 'EMPTY_WORKBOOK'
+  | 'ENCODING_UNDETERMINED'
+  | 'LIMIT_EXCEEDED'
+  | 'UPSTREAM_ENGINE_FAILED';
+
+/**
+ * 응답으로 전달하는 오류 정보
+ */
+export interface ConversionErrorInfo {
+  code: ConversionErrorCode;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+// 오류 코드별 HTTP 상태
+const HTTP_STATUS_BY_CODE: Record<ConversionErrorCode, number> = {
+  ENCRYPTED: 422,
+  CORRUPT_CONTAINER: 422,
+  UNSUPPORTED_FORMAT: 415,
+  EMPTY_WORKBOOK: 422,
+  ENCODING_UNDETERMINED: 422,
+  LIMIT_EXCEEDED: 413,
+  UPSTREAM_ENGINE_FAILED: 502,
+};
+
+/**
+ * 코드와 상세 정보를 가진 변환 오류
+ */
+export class ConversionError extends Error {
+  readonly code: ConversionErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ConversionErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ConversionError';
+    this.code = code;
+    this.details = details;
+    // ES5 대상 컴파일에서 instanceof가 동작하도록 프로토타입 복원
+    Object.setPrototypeOf(this, ConversionError.prototype);
+  }
+
+  toJSON(): ConversionErrorInfo {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
+
+/**
+ * 오류 코드의 HTTP 상태
+ */
+export function httpStatusForError(code: ConversionErrorCode): number {
+  return HTTP_STATUS_BY_CODE[code];
+}
+
+export function isConversionError(error: unknown): error is ConversionError {
+  return error instanceof ConversionError;
+}
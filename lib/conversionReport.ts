@@ -0,0 +1,247 @@
+import * as XLSX from 'xlsx';
+import { AnnotationReport } from './cellAnnotations';
+import { EncodingCandidate, EncodingDetection, MojibakePattern } from './encodingDetection';
+import { FormulaReport } from './formulas';
+import { HeaderReport } from './headerDetection';
+import { OutputFormat } from './outputFormat';
+import { QualityScore } from './qualityScore';
+import { ReportCleanupReport } from './reportCleanup';
+import { LayoutReport } from './sheetLayout';
+import { EncryptionScheme } from './workbookEncryption';
+
+/**
+ * 결과 충실도
+ * - exact: 원본을 표준 파서로 그대로 읽음
+ * - normalized: 텍스트/마크업 파싱 또는 컨테이너 복구 후 표준 파서로 읽음
+ * - partial: 셀 단위 복구 (일부 셀/시트 누락 가능)
+ * - salvage: 구조 없이 텍스트만 건져냄
+ */
+export type FidelityLevel = 'exact' | 'normalized' | 'partial' | 'salvage';
+
+/**
+ * 변환 시도 기록
+ */
+export interface ConversionAttempt {
+  strategy: string;
+  success: boolean;
+  score?: number;
+  detail?: string;
+  reason?: string;
+}
+
+/**
+ * 시트별 결과 크기
+ */
+export interface SheetReport {
+  name: string;
+  rows: number;
+  columns: number;
+}
+
+/**
+ * 깨진 글자 복구 내역
+ */
+export interface MojibakeReport extends MojibakePattern {
+  repairedCells: number;
+}
+
+/**
+ * 변환 리포트
+ */
+export interface ConversionReport {
+  detectedFormat: string;
+  strategy: string | null;
+  fidelity: FidelityLevel;
+  attempts: ConversionAttempt[];
+  /** 복호화한 파일의 암호화 방식 */
+  encryption?: EncryptionScheme;
+  encoding?: string;
+  /** 인코딩 감지 신뢰도 (0~1)와 상위 후보 */
+  encodingConfidence?: number;
+  encodingCandidates?: EncodingCandidate[];
+  mojibake?: MojibakeReport;
+  delimiter?: string;
+  /** 고정 폭으로 읽은 텍스트의 열 경계 (표시 칸 기준, 전각 문자는 2칸) */
+  columnBoundaries?: number[];
+  /** 인쇄 보고서 정리 결과 (제거한 반복 헤더, 페이지 번호·바닥글 행 수, 소계·합계 행 수) */
+  reportCleanup?: ReportCleanupReport;
+  /** 시트별 헤더 위치 (건너뛴 행 이후 0부터, 헤더 행 수, 자동 감지 여부, 한 행으로 합쳤는지)와 바뀐 열 이름 */
+  headers?: HeaderReport[];
+  repairs?: string[];
+  sheets: SheetReport[];
+  /** 레이아웃 보존 결과 (유지한 속성, 유지하지 못한 속성과 사유) */
+  layout?: LayoutReport;
+  /** 수식 처리 결과 (keep, both 모드: 수식 수, 옮기지 못한 수식과 사유) */
+  formulas?: FormulaReport;
+  /** 메모, 하이퍼링크, 데이터 유효성 검사 개수 (원본, 옮긴 개수와 옮기지 못한 항목) */
+  annotations?: AnnotationReport;
+  /** 결과 파일 형식과 CP949로 표현하지 못해 ?로 바뀐 글자 수 */
+  outputFormat?: OutputFormat;
+  unmappableCharacters?: number;
+  /** 응답 헤더 크기 제한으로 뺀 문제 목록(옮기지 못한 수식, 레이아웃, 메모 등) 항목 수 */
+  omittedIssues?: number;
+  /** 채택한 결과 점수 (충실도 × 구조 품질) */
+  score?: number;
+  quality?: QualityScore;
+}
+
+// 헤더로 전달할 때 너무 길어지지 않도록 실패 사유 길이 제한
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * 빈 리포트 생성
+ */
+export function createConversionReport(detectedFormat: string): ConversionReport {
+  return {
+    detectedFormat,
+    strategy: null,
+    fidelity: 'salvage',
+    attempts: [],
+    sheets: [],
+  };
+}
+
+/**
+ * 시도 결과 기록
+ */
+export function recordAttempt(
+  report: ConversionReport,
+  strategy: string,
+  success: boolean,
+  reason?: unknown,
+  detail?: unknown
+): ConversionAttempt {
+  const attempt: ConversionAttempt = { strategy, success };
+  if (detail !== undefined) {
+    attempt.detail = typeof detail === 'string' ? detail : JSON.stringify(detail);
+  }
+  if (reason !== undefined) {
+    const message = reason instanceof Error ? reason.message : String(reason);
+    attempt.reason = message.substring(0, MAX_REASON_LENGTH);
+  }
+  report.attempts.push(attempt);
+  return attempt;
+}
+
+/**
+ * 워크북의 시트별 행/열 수 계산
+ */
+export function describeWorkbook(workbook: XLSX.WorkBook): SheetReport[] {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name] && workbook.Sheets[name]['!ref'];
+    if (!ref) {
+      return { name, rows: 0, columns: 0 };
+    }
+    const range = XLSX.utils.decode_range(ref);
+    return { name, rows: range.e.r + 1, columns: range.e.c + 1 };
+  });
+}
+
+/**
+ * 인코딩 감지 결과 기록 (후보는 상위 3개만)
+ */
+export function recordEncoding(report: ConversionReport, detection: EncodingDetection): void {
+  report.encoding = detection.encoding;
+  report.encodingConfidence = detection.confidence;
+  report.encodingCandidates = detection.candidates.slice(0, 3);
+}
+
+/**
+ * 채택한 전략과 결과 워크북으로 리포트 마무리
+ */
+export function completeReport(
+  report: ConversionReport,
+  strategy: string,
+  fidelity: FidelityLevel,
+  workbook: XLSX.WorkBook
+): void {
+  report.strategy = strategy;
+  report.fidelity = fidelity;
+  report.sheets = describeWorkbook(workbook);
+}
+
+// 프록시 헤더 버퍼(보통 8KB)를 넘지 않도록 제한
+const MAX_HEADER_LENGTH = 6000;
+
+/**
+ * 옮기지 못한 수식, 레이아웃, 셀 주석 목록을 앞쪽 keep개만 남긴 리포트 (뺀 항목 수는 omittedIssues)
+ */
+function trimIssueLists(report: ConversionReport, keep: number): ConversionReport {
+  const trimmed: ConversionReport = { ...report };
+  let omitted = 0;
+  const trim = <T>(items: T[]): T[] => {
+    omitted += Math.max(0, items.length - keep);
+    return items.slice(0, keep);
+  };
+  if (report.formulas) {
+    trimmed.formulas = { ...report.formulas, untranslatable: trim(report.formulas.untranslatable) };
+  }
+  if (report.layout) {
+    trimmed.layout = { ...report.layout, dropped: trim(report.layout.dropped) };
+  }
+  if (report.annotations) {
+    trimmed.annotations = { ...report.annotations, dropped: trim(report.annotations.dropped) };
+  }
+  if (omitted > 0) {
+    trimmed.omittedIssues = omitted;
+  }
+  return trimmed;
+}
+
+/**
+ * 응답 헤더(X-Conversion-Report)용 리포트 인코딩 (길면 시도 상세부터 줄임, 항상 MAX_HEADER_LENGTH 이하)
+ */
+export function encodeReportHeader(report: ConversionReport): string {
+  let encoded = encodeURIComponent(JSON.stringify(report));
+  if (encoded.length <= MAX_HEADER_LENGTH) {
+    return encoded;
+  }
+
+  const compact: ConversionReport = {
+    ...report,
+    attempts: report.attempts.map(attempt => ({
+      strategy: attempt.strategy,
+      success: attempt.success,
+      score: attempt.score,
+      reason: attempt.reason,
+    })),
+  };
+  encoded = encodeURIComponent(JSON.stringify(compact));
+
+  // 그래도 길면 최근 시도만 유지
+  while (encoded.length > MAX_HEADER_LENGTH && compact.attempts.length > 1) {
+    compact.attempts = compact.attempts.slice(Math.ceil(compact.attempts.length / 2));
+    encoded = encodeURIComponent(JSON.stringify(compact));
+  }
+
+  // 열이 많은 시트의 바뀐 열 이름 목록은 마지막에 뺌 (헤더 위치는 유지)
+  if (encoded.length > MAX_HEADER_LENGTH && compact.headers) {
+    compact.headers = compact.headers.map(header => ({ ...header, renamed: undefined }));
+    encoded = encodeURIComponent(JSON.stringify(compact));
+  }
+
+  // 그래도 길면 문제 목록을 절반씩 줄임
+  let keep = Math.max(
+    compact.formulas ? compact.formulas.untranslatable.length : 0,
+    compact.layout ? compact.layout.dropped.length : 0,
+    compact.annotations ? compact.annotations.dropped.length : 0
+  );
+  while (encoded.length > MAX_HEADER_LENGTH && keep > 0) {
+    keep = Math.floor(keep / 2);
+    encoded = encodeURIComponent(JSON.stringify(trimIssueLists(compact, keep)));
+  }
+
+  // 시트가 아주 많은 경우 등 그래도 길면 결과 요약만 전달
+  if (encoded.length > MAX_HEADER_LENGTH) {
+    const summary: ConversionReport = {
+      detectedFormat: report.detectedFormat,
+      strategy: report.strategy,
+      fidelity: report.fidelity,
+      attempts: [],
+      sheets: [],
+      score: report.score,
+    };
+    encoded = encodeURIComponent(JSON.stringify(summary));
+  }
+  return encoded;
+}
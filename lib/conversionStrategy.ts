@@ -0,0 +1,158 @@
+import * as XLSX from 'xlsx';
+import { isConversionError } from './conversionError';
+import { ConversionReport, FidelityLevel, recordAttempt } from './conversionReport';
+import { ConvertOptions } from './convertOptions';
+import { DetectedFormat } from './formatDetection';
+import { FIDELITY_SCORES, scoreWorkbookQuality } from './qualityScore';
+
+/**
+ * 전략에 전달되는 변환 대상 정보
+ */
+export interface StrategyContext {
+  buffer: Buffer;
+  filename: string;
+  extension: string;
+  detectedFormat: DetectedFormat;
+  forceTextRecovery: boolean;
+  /** 사용자 지정 옵션 (인코딩, 구분자 등) */
+  options: ConvertOptions;
+  report: ConversionReport;
+}
+
+/**
+ * 전략이 만든 워크북과 리포트용 상세 정보
+ */
+export interface StrategyResult {
+  workbook: XLSX.WorkBook;
+  detail?: unknown;
+}
+
+/**
+ * 변환 전략
+ * - detect: 이 파일에 적용할 수 있는지 (false면 시도 기록 없이 건너뜀)
+ * - attempt: 워크북 생성 (null 반환 또는 예외는 실패로 기록, ConversionError는 더 시도하지 않고 전달)
+ * - score: 결과 품질 0~1 (가장 높은 결과 채택, 충실도 기본 점수를 넘지 않아야 함)
+ */
+export interface ConversionStrategy {
+  name: string;
+  /** 높을수록 먼저 실행 */
+  priority: number;
+  fidelity: FidelityLevel;
+  detect(context: StrategyContext): boolean;
+  attempt(context: StrategyContext): Promise<StrategyResult | null>;
+  score(result: StrategyResult, context: StrategyContext): number;
+}
+
+/**
+ * 전략 실행 옵션
+ */
+export interface RunStrategiesOptions {
+  /** 실행하지 않을 전략 이름 */
+  disabled?: string[];
+  /** 이 점수 이상이면 남은 전략을 실행하지 않음 */
+  acceptScore?: number;
+}
+
+/**
+ * 채택된 전략 결과
+ */
+export interface StrategyOutcome {
+  strategy: ConversionStrategy;
+  result: StrategyResult;
+  score: number;
+}
+
+const DEFAULT_ACCEPT_SCORE = 0.7;
+
+const registry: ConversionStrategy[] = [];
+
+/**
+ * 전략 등록 (같은 이름이 있으면 교체)
+ */
+export function registerStrategy(strategy: ConversionStrategy): void {
+  unregisterStrategy(strategy.name);
+  registry.push(strategy);
+  registry.sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * 전략 등록 해제
+ */
+export function unregisterStrategy(name: string): boolean {
+  const index = registry.findIndex(strategy => strategy.name === name);
+  if (index === -1) {
+    return false;
+  }
+  registry.splice(index, 1);
+  return true;
+}
+
+/**
+ * 등록된 전략 목록 (실행 순서)
+ */
+export function listStrategies(): ConversionStrategy[] {
+  return registry.slice();
+}
+
+/**
+ * 충실도 점수 × 구조 품질 (값이 있는 셀이 없으면 0)
+ */
+export function scoreByFidelity(workbook: XLSX.WorkBook, fidelity: FidelityLevel): number {
+  return FIDELITY_SCORES[fidelity] * scoreWorkbookQuality(workbook).score;
+}
+
+/**
+ * 우선순위대로 전략을 실행하고 가장 점수가 높은 결과 반환
+ */
+export async function runStrategies(
+  context: StrategyContext,
+  options: RunStrategiesOptions = {}
+): Promise<StrategyOutcome | null> {
+  const disabled = options.disabled || [];
+  const acceptScore = options.acceptScore !== undefined ? options.acceptScore : DEFAULT_ACCEPT_SCORE;
+  let best: StrategyOutcome | null = null;
+
+  for (const strategy of listStrategies()) {
+    if (!strategy.detect(context)) {
+      continue;
+    }
+    if (disabled.indexOf(strategy.name) !== -1) {
+      recordAttempt(context.report, strategy.name, false, '비활성화됨');
+      continue;
+    }
+    // 충실도 상한으로도 현재 결과를 넘을 수 없으면 실행하지 않음
+    if (best && best.score >= FIDELITY_SCORES[strategy.fidelity]) {
+      continue;
+    }
+
+    console.log(`🔧 전략 "${strategy.name}" 시도 (우선순위 ${strategy.priority})`);
+    try {
+      const result = await strategy.attempt(context);
+      if (!result) {
+        recordAttempt(context.report, strategy.name, false, '결과 없음');
+        continue;
+      }
+
+      const score = strategy.score(result, context);
+      const attempt = recordAttempt(context.report, strategy.name, score > 0, score > 0 ? undefined : '값이 있는 셀 없음', result.detail);
+      attempt.score = score;
+      console.log(`📊 전략 "${strategy.name}" 점수: ${score.toFixed(2)}`);
+
+      if (score > 0 && (!best || score > best.score)) {
+        best = { strategy, result, score };
+      }
+      if (best && best.score >= acceptScore) {
+        break;
+      }
+    } catch (error) {
+      console.log(`❌ 전략 "${strategy.name}" 실패:`, error instanceof Error ? error.message : String(error));
+      recordAttempt(context.report, strategy.name, false, error);
+      // 암호화처럼 다른 전략으로도 해결할 수 없는 오류
+      if (isConversionError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  return best;
+}
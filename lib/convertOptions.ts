@@ -0,0 +1,168 @@
+import * as iconv from 'iconv-lite';
+import { FORMULA_MODES, FormulaMode } from './formulas';
+import { MAX_HEADER_ROWS } from './headerDetection';
+import { OUTPUT_FORMATS, OutputFormat } from './outputFormat';
+import { SUBTOTAL_MODES, SubtotalMode } from './reportCleanup';
+import { SUPPORTED_LOCALES, ValueLocale } from './valueParser';
+
+/**
+ * 사용자 지정 변환 옵션 (지정하지 않은 항목은 자동 감지)
+ * - encoding / delimiter / quote: 텍스트 파일 해석 방식
+ * - fixedWidth / columnBoundaries: 고정 폭 텍스트로 읽기, 열 경계 (표시 칸 기준, 전각 문자는 2칸)
+ * - headerRow: 건너뛴 행 이후 헤더 행 위치 (0부터, -1이면 헤더 없음, 지정하지 않으면 자동 감지, 스프레드시트는 모든 시트에 적용)
+ * - headerRows: 헤더 행 수 (여러 행 헤더는 상위 그룹_하위 이름으로 합침, 지정하지 않으면 자동 감지)
+ * - skipRows: 파일 앞에서 버릴 행 수 (제목, 안내 문구 등)
+ * - commentPrefix: 이 문자열로 시작하는 행은 주석으로 제외
+ * - reportCleanup: 인쇄 보고서 정리 (지정하지 않으면 반복 헤더나 페이지 번호가 있을 때만, false면 사용 안 함)
+ * - subtotalRows: 소계·합계 행 처리 방식 sheet / drop / keep (기본 sheet)
+ * - locale: 날짜, 숫자, 통화 해석 규칙 (기본 ko-KR)
+ * - preserveLayout: 병합, 열 너비, 행 높이, 틀 고정, 자동 필터, 숨김 상태 유지 (기본 true)
+ * - formulas: 수식 처리 방식 keep / values / both (기본 values)
+ * - password: 암호로 보호된 .xlsx/.xls의 암호 (로그, 리포트에 남기지 않음)
+ * - outputFormat: 결과 파일 형식 xlsx / xlsb / ods / csv / csv-bom / csv-cp949 / tsv / json / ndjson (기본 xlsx)
+ */
+export interface ConvertOptions {
+  forceTextRecovery?: boolean;
+  encoding?: string;
+  delimiter?: string;
+  quote?: string;
+  fixedWidth?: boolean;
+  columnBoundaries?: number[];
+  headerRow?: number;
+  headerRows?: number;
+  skipRows?: number;
+  commentPrefix?: string;
+  reportCleanup?: boolean;
+  subtotalRows?: SubtotalMode;
+  locale?: string;
+  preserveLayout?: boolean;
+  formulas?: FormulaMode;
+  outputFormat?: OutputFormat;
+  password?: string;
+}
+
+// 구분자 대신 고정 폭으로 읽도록 하는 값
+const FIXED_WIDTH_DELIMITER = 'fixed';
+
+// 폼에서 글자로 입력하기 어려운 구분자 별칭
+const DELIMITER_ALIASES: Record<string, string> = {
+  tab: '\t',
+  '\\t': '\t',
+  space: ' ',
+};
+
+/**
+ * 텍스트 해석 방식을 사용자가 지정했는지 (지정했다면 표준 파서의 자동 추정을 쓰지 않음)
+ */
+export function hasTextOverrides(options: ConvertOptions): boolean {
+  return options.encoding !== undefined ||
+    options.delimiter !== undefined ||
+    options.quote !== undefined ||
+    options.fixedWidth !== undefined ||
+    options.columnBoundaries !== undefined ||
+    options.headerRow !== undefined ||
+    options.headerRows !== undefined ||
+    options.skipRows !== undefined ||
+    options.commentPrefix !== undefined ||
+    options.reportCleanup !== undefined ||
+    options.subtotalRows !== undefined;
+}
+
+function readField(fields: any, name: string): string | undefined {
+  const value = Array.isArray(fields[name]) ? fields[name][0] : fields[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function readInteger(fields: any, name: string): number | undefined {
+  const value = readField(fields, name);
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * 폼 필드의 true/false 값 읽기 (formidable은 필드 값을 배열로 주므로 첫 값 기준, 비어 있으면 undefined)
+ */
+export function readBoolean(fields: any, name: string): boolean | undefined {
+  const value = readField(fields, name);
+  return value === undefined ? undefined : value === 'true';
+}
+
+function readIntegerList(fields: any, name: string): number[] | undefined {
+  const value = readField(fields, name);
+  return value === undefined ? undefined : value.split(/[\s,]+/).filter(item => item !== '').map(Number);
+}
+
+/**
+ * 폼 필드에서 변환 옵션 읽기 (빈 값은 자동 감지, 구분자 fixed는 고정 폭)
+ */
+export function parseConvertOptions(fields: any): ConvertOptions {
+  const delimiter = readField(fields, 'delimiter');
+  const fixedWidth = delimiter !== undefined && delimiter.toLowerCase() === FIXED_WIDTH_DELIMITER;
+  return {
+    forceTextRecovery: readField(fields, 'forceTextRecovery') === 'true',
+    encoding: readField(fields, 'encoding'),
+    delimiter: fixedWidth ? undefined :
+      delimiter !== undefined && DELIMITER_ALIASES[delimiter.toLowerCase()] ? DELIMITER_ALIASES[delimiter.toLowerCase()] : delimiter,
+    quote: readField(fields, 'quote'),
+    fixedWidth: fixedWidth || undefined,
+    columnBoundaries: readIntegerList(fields, 'columnBoundaries'),
+    headerRow: readInteger(fields, 'headerRow'),
+    headerRows: readInteger(fields, 'headerRows'),
+    skipRows: readInteger(fields, 'skipRows'),
+    commentPrefix: readField(fields, 'commentPrefix'),
+    reportCleanup: readBoolean(fields, 'reportCleanup'),
+    subtotalRows: readField(fields, 'subtotalRows') as SubtotalMode | undefined,
+    locale: readField(fields, 'locale'),
+    preserveLayout: readField(fields, 'preserveLayout') !== 'false',
+    formulas: readField(fields, 'formulas') as FormulaMode | undefined,
+    outputFormat: readField(fields, 'outputFormat') as OutputFormat | undefined,
+    password: readField(fields, 'password'),
+  };
+}
+
+/**
+ * 변환 옵션 검증 (문제가 없으면 null)
+ */
+export function validateConvertOptions(options: ConvertOptions): string | null {
+  if (options.encoding !== undefined && !iconv.encodingExists(options.encoding)) {
+    return `지원하지 않는 인코딩입니다: ${options.encoding}`;
+  }
+  if (options.delimiter !== undefined && options.delimiter.length !== 1) {
+    return '구분자는 한 글자여야 합니다.';
+  }
+  if (options.quote !== undefined && options.quote.length !== 1) {
+    return '따옴표 문자는 한 글자여야 합니다.';
+  }
+  if (options.delimiter !== undefined && options.delimiter === options.quote) {
+    return '구분자와 따옴표 문자는 달라야 합니다.';
+  }
+  if (options.columnBoundaries !== undefined && !options.columnBoundaries.every((boundary, index, boundaries) =>
+    Number.isInteger(boundary) && boundary > (index > 0 ? boundaries[index - 1] : 0))) {
+    return '열 경계는 1 이상의 정수를 작은 값부터 중복 없이 입력해야 합니다.';
+  }
+  if (options.delimiter !== undefined && (options.fixedWidth || options.columnBoundaries !== undefined)) {
+    return '구분자와 고정 폭 열 경계는 함께 지정할 수 없습니다.';
+  }
+  if (options.headerRow !== undefined && (!Number.isInteger(options.headerRow) || options.headerRow < -1)) {
+    return '헤더 행은 -1(헤더 없음) 이상의 정수여야 합니다.';
+  }
+  if (options.headerRows !== undefined &&
+    (!Number.isInteger(options.headerRows) || options.headerRows < 1 || options.headerRows > MAX_HEADER_ROWS)) {
+    return `헤더 행 수는 1~${MAX_HEADER_ROWS} 사이의 정수여야 합니다.`;
+  }
+  if (options.skipRows !== undefined && (!Number.isInteger(options.skipRows) || options.skipRows < 0)) {
+    return '건너뛸 행 수는 0 이상의 정수여야 합니다.';
+  }
+  if (options.subtotalRows !== undefined && SUBTOTAL_MODES.indexOf(options.subtotalRows) === -1) {
+    return `지원하지 않는 소계·합계 행 처리 방식입니다: ${options.subtotalRows} (지원: ${SUBTOTAL_MODES.join(', ')})`;
+  }
+  if (options.locale !== undefined && SUPPORTED_LOCALES.indexOf(options.locale as ValueLocale) === -1) {
+    return `지원하지 않는 로캘입니다: ${options.locale} (지원: ${SUPPORTED_LOCALES.join(', ')})`;
+  }
+  if (options.formulas !== undefined && FORMULA_MODES.indexOf(options.formulas) === -1) {
+    return `지원하지 않는 수식 처리 방식입니다: ${options.formulas} (지원: ${FORMULA_MODES.join(', ')})`;
+  }
+  if (options.outputFormat !== undefined && OUTPUT_FORMATS.indexOf(options.outputFormat) === -1) {
+    return `지원하지 않는 결과 형식입니다: ${options.outputFormat} (지원: ${OUTPUT_FORMATS.join(', ')})`;
+  }
+  return null;
+}
@@ -1,10 +1,47 @@
 import * as XLSX from 'xlsx';
 import * as iconv from 'iconv-lite';
-import { detect } from 'jschardet';
 import { parseISO, isValid, format } from 'date-fns';
+import { readBiffDataValidations, readBiffSheetPanes, salvageBiffWorkbook } from './biffSalvage';
+import { AnnotationReport, VALIDATIONS_KEY, copyCellAnnotations, createAnnotationReport, parseDataValidations } from './cellAnnotations';
+import { rebuildCfbContainer, repairWorkbookStream } from './cfbRepair';
+import { normalizeColumnName, toUniqueColumnNames } from './columnNames';
+import { detectIdentifierColumns } from './columnTypes';
+import { dateToSerial, parseLocaleValue, resolveLocale, ValueLocale } from './valueParser';
+import { ConversionError, ConversionErrorInfo, isConversionError } from './conversionError';
+import { ConversionReport, completeReport, createConversionReport, recordEncoding } from './conversionReport';
+import { ConvertOptions, hasTextOverrides, validateConvertOptions } from './convertOptions';
+import { CsvParser, createCsvParser, parseCsv } from './csvParser';
+import {
+  ConversionStrategy,
+  StrategyContext,
+  StrategyResult,
+  registerStrategy,
+  runStrategies,
+  scoreByFidelity,
+} from './conversionStrategy';
+import { EncodingDetection, detectEncoding, repairMojibake } from './encodingDetection';
+import { createFixedWidthParser, detectFixedWidthColumns, splitTextLines } from './fixedWidth';
+import { detectFileFormat } from './formatDetection';
+import { HeaderPosition, HeaderReport, detectHeaderPosition, flattenHeaderRows } from './headerDetection';
+import { DEFAULT_OUTPUT_FORMAT, WrittenOutput, isTableOutputFormat, writeWorkbookOutput } from './outputFormat';
+import { ConversionStatus, getQualityThreshold, resolveConversionStatus, scoreWorkbookQuality } from './qualityScore';
+import {
+  DEFAULT_FORMULA_MODE,
+  FormulaReport,
+  appendFormulaSheet,
+  collectSheetFormulas,
+  copyDefinedNames,
+  copySheetFormulas,
+  createFormulaReport,
+} from './formulas';
+import { DEFAULT_SUBTOTAL_MODE, SUBTOTAL_SHEET_NAME, cleanupPrintedReport, looksLikePrintedReport } from './reportCleanup';
+import { LayoutReport, PANE_KEY, copyHiddenSheets, copySheetLayout, createLayoutReport, dropMergesInRange, parseSheetPane } from './sheetLayout';
+import { parseHtmlWorkbook, parseSpreadsheetMl } from './markupWorkbook';
+import { DEFAULT_PASSWORD, EncryptionScheme, decryptWorkbook, detectEncryption } from './workbookEncryption';
+import { ZipArchive, findZipEntry, readZipArchive, readZipText, rebuildZip } from './zipReader';
 
 // 지원하는 파일 확장자
-export const SUPPORTED_EXTENSIONS = ['.xls', '.xlsx', '.csv', '.tsv', '.txt'];
+export const SUPPORTED_EXTENSIONS = ['.xls', '.xlsx', '.csv', '.tsv', '.txt', '.prn'];
 
 // 최대 파일 크기 (50MB로 증가 - 긴 헤더 필드 고려)
 export const MAX_FILE_SIZE = 50 * 1024 * 1024;
@@ -24,6 +61,46 @@ export function validateFileSize(size: number): boolean {
   return size <= MAX_FILE_SIZE;
 }
 
+/**
+ * 고정 폭, 인쇄 보고서 형태이거나 헤더 위에 제목이 있는 텍스트 파일인지 (Python 서비스처럼 이를 모르는 변환기를 건너뛰기 위해)
+ */
+export function isFormattedTextFile(buffer: Buffer, options: ConvertOptions = {}): boolean {
+  return detectFileFormat(buffer) === 'text' && isFormattedSample(buffer, detectEncoding(buffer, options.encoding).encoding);
+}
+
+/**
+ * 메모, 하이퍼링크, 데이터 유효성 검사가 있는 .xlsx/.xls인지 (이를 옮기지 않는 Python 서비스를 건너뛰기 위해)
+ * - .xlsx는 메모 파트와 시트 XML, .xls는 DV 레코드와 SheetJS가 읽은 셀 메모·링크로 확인 (읽지 못하면 false)
+ */
+export function hasCellAnnotations(buffer: Buffer): boolean {
+  try {
+    const format = detectFileFormat(buffer);
+    if (format === 'zip') {
+      const { archive, parts } = readWorkbookArchive(buffer);
+      if (archive.entries.some(entry => /(^|\/)(comments\d*|threadedComment\d*)\.xml$/i.test(entry.name))) {
+        return true;
+      }
+      return parts.sheets.some(part => {
+        const sheetXml = readZipText(buffer, archive, part);
+        return !!sheetXml && /<(\w+:)?(hyperlink|dataValidation)[\s>]/.test(sheetXml);
+      });
+    }
+    if (format === 'cfb') {
+      if (Object.keys(readBiffDataValidations(buffer)).length > 0) {
+        return true;
+      }
+      const workbook = XLSX.read(buffer, { type: 'buffer' });
+      return workbook.SheetNames.some(name => {
+        const sheet = workbook.Sheets[name];
+        return Object.keys(sheet).some(address => address[0] !== '!' && !!sheet[address] && (!!sheet[address].c || !!sheet[address].l));
+      });
+    }
+  } catch (error) {
+    console.log('⚠️ 셀 주석 확인 실패:', error instanceof Error ? error.message : String(error));
+  }
+  return false;
+}
+
 /**
  * 안전한 파일명 생성
  */
@@ -37,86 +114,43 @@ export function sanitizeFilename(filename: string): string {
   return sanitized || 'converted_file';
 }
 
+// 텍스트 파일을 나눠 디코딩/파싱하는 단위
+const TEXT_CHUNK_SIZE = 64 * 1024;
+
 /**
- * 인코딩 감지 및 텍스트 디코딩
+ * 버퍼를 청크 단위로 디코딩 (멀티바이트 문자가 청크 경계에서 잘리지 않도록 디코더 상태 유지)
+ * - onChunk가 false를 반환하면 중단
  */
-function detectAndDecode(buffer: Buffer): string {
-  try {
-    // 1. UTF-8 시도
-    const utf8Text = buffer.toString('utf8');
-    if (!utf8Text.includes('\uFFFD')) {
-      return utf8Text;
-    }
-  } catch (e) {
-    // UTF-8 실패
-  }
-
-  try {
-    // 2. 자동 감지
-    const detected = detect(buffer);
-    if (detected && detected.encoding && detected.confidence > 0.7) {
-      const encoding = detected.encoding.toLowerCase();
-      
-      // 한국어 인코딩 우선 처리
-      if (encoding.includes('euc-kr') || encoding.includes('cp949')) {
-        return iconv.decode(buffer, 'euc-kr');
-      }
-      
-      if (iconv.encodingExists(encoding)) {
-        return iconv.decode(buffer, encoding);
-      }
+function decodeInChunks(buffer: Buffer, encoding: string, onChunk: (text: string) => boolean | void): void {
+  const decoder = iconv.getDecoder(encoding);
+  for (let offset = 0; offset < buffer.length; offset += TEXT_CHUNK_SIZE) {
+    const text = decoder.write(buffer.subarray(offset, offset + TEXT_CHUNK_SIZE));
+    if (text && onChunk(text) === false) {
+      return;
     }
-  } catch (e) {
-    // 자동 감지 실패
   }
-
-  // 3. 한국어 인코딩들 순차 시도
-  const encodings = ['euc-kr', 'cp949', 'utf8', 'latin1'];
-  
-  for (const encoding of encodings) {
-    try {
-      const decoded = iconv.decode(buffer, encoding);
-      // 한글이 포함되어 있고 깨지지 않았다면 성공
-      if (decoded && !decoded.includes('\uFFFD')) {
-        return decoded;
-      }
-    } catch (e) {
-      continue;
-    }
+  const rest = decoder.end();
+  if (rest) {
+    onChunk(rest);
   }
-
-  // 4. 최후의 수단: latin1으로 디코딩
-  return iconv.decode(buffer, 'latin1');
 }
 
 /**
- * CSV 구분자 추정 (개선된 버전 - 복잡한 헤더 고려)
+ * CSV 구분자 추정 (따옴표 안의 구분자/줄바꿈은 제외하고 행별 열 수 비교)
  */
-function detectDelimiter(text: string): string {
-  const lines = text.split('\n').slice(0, 10).filter(line => line.trim()); // 더 많은 줄 검사
+function detectDelimiter(sample: string, quote?: string): string {
   const delimiters = ['\t', ',', ';', '|'];
   
-  console.log('구분자 감지 시작, 첫 번째 라인:', lines[0]?.substring(0, 200));
+  console.log('구분자 감지 시작, 첫 번째 라인:', sample.substring(0, 200).split(/\r\n|\r|\n/)[0]);
   
   let bestDelimiter = ',';
   let maxScore = 0;
   
   for (const delimiter of delimiters) {
     let score = 0;
-    let columnCounts: number[] = [];
-    
-    for (const line of lines) {
-      if (line.trim()) {
-        // 간단한 분할로 먼저 테스트 (성능상 이유)
-        const simpleColumns = line.split(delimiter);
-        const columnCount = simpleColumns.length;
-        
-        // 괄호가 포함된 복잡한 헤더의 경우 더 관대하게 처리
-        if (columnCount > 1) {
-          columnCounts.push(columnCount);
-        }
-      }
-    }
+    // 앞쪽 10행만 비교 (표본 끝에서 잘린 행 제외)
+    const rows = parseCsv(sample, { delimiter, quote }).slice(0, 10);
+    const columnCounts = rows.map(row => row.length).filter(count => count > 1);
     
     if (columnCounts.length > 0) {
       // 일관성 있는 컬럼 수를 가진 구분자에 높은 점수
@@ -142,244 +176,258 @@ function detectDelimiter(text: string): string {
 }
 
 /**
- * CSV 라인 파싱 (따옴표 및 특수문자 고려)
+ * 고정 폭 열 경계 결정 (고정 폭이 아니면 null)
+ * - 사용자가 지정한 경계 우선, 구분자를 지정했으면 고정 폭으로 보지 않음
+ * - 건너뛸 행과 주석 행을 뺀 첫 청크의 행으로 추정
+ * - 고정 폭을 지정했는데 경계를 찾지 못하면 한 열로 읽음
  */
-function parseCSVLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-  
-  // 라인 전처리: 불필요한 공백 제거 및 정규화
-  line = line.trim();
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (!inQuotes) {
-      if (char === '"' || char === "'") {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === delimiter) {
-        // 현재 셀 내용 정리 및 추가
-        const cellContent = current.trim();
-        result.push(cellContent);
-        current = '';
-      } else {
-        current += char;
-      }
-    } else {
-      if (char === quoteChar) {
-        // 다음 문자가 같은 따옴표면 이스케이프된 따옴표
-        if (i + 1 < line.length && line[i + 1] === quoteChar) {
-          current += char;
-          i++; // 다음 문자 건너뛰기
-        } else {
-          inQuotes = false;
-          quoteChar = '';
-        }
-      } else {
-        current += char;
-      }
-    }
+function resolveFixedWidthColumns(sample: string, options: ConvertOptions): number[] | null {
+  if (options.columnBoundaries) {
+    return options.columnBoundaries;
   }
-  
-  // 마지막 셀 추가
-  const lastCell = current.trim();
-  result.push(lastCell);
-  
-  // 빈 셀들을 null로 변환하지 않고 빈 문자열로 유지
-  return result.map(cell => cell || '');
+  if (options.delimiter !== undefined) {
+    return null;
+  }
+  const lines = splitTextLines(sample)
+    .slice(options.skipRows || 0)
+    .filter(line => !options.commentPrefix || line.trim().indexOf(options.commentPrefix) !== 0);
+  const boundaries = detectFixedWidthColumns(lines);
+  if (!boundaries && options.fixedWidth) {
+    console.log('⚠️ 고정 폭 열 경계를 찾지 못해 한 열로 읽음');
+    return [];
+  }
+  return boundaries;
+}
+
+/**
+ * 셀 값 정규화 (타입 변환) - 로캘 규칙으로 숫자, 통화, 날짜, 시간 해석
+ * - 표시 형식이 있는 값은 형식을 지정한 셀 객체로 반환 (aoa_to_sheet가 그대로 사용)
+ */
+function normalizeCell(value: string, locale: ValueLocale, date1904: boolean): any {
+  const parsed = parseLocaleValue(value, locale, date1904);
+  return parsed.format ? { t: 'n', v: parsed.value, z: parsed.format } : parsed.value;
+}
+
+/**
+ * 표 전체 셀 정규화 (식별자 열은 숫자로 바꾸지 않고 텍스트 유지)
+ * - dataStart 이전 행(제목, 헤더)은 그대로 둠
+ * - 식별자 열은 header(지정하지 않으면 첫 행)의 열 이름과 dataStart 이후 값으로 판단
+ * - 문자열 셀만 타입 추론하고, 셀 객체(타입이 확정된 값)는 그대로 둠
+ */
+function normalizeTable(rows: any[][], dataStart: number, locale: ValueLocale, date1904: boolean = false, header?: any[]): any[][] {
+  const values = rows.map(row => row.map(cell => isCellObject(cell) ? cell.v : cell));
+  const identifierColumns = detectIdentifierColumns(header ? [header].concat(values.slice(dataStart)) : values);
+  return rows.map((row, rowIndex) => rowIndex < dataStart ? row : row.map((cell, column) => {
+    if (typeof cell !== 'string') {
+      return cell;
+    }
+    return identifierColumns[column] ? cell.trim() : normalizeCell(cell, locale, date1904);
+  }));
+}
+
+/**
+ * 열마다 값이 하나라도 있는지 (공백뿐인 문자열은 빈 값)
+ */
+function columnsWithData(rows: any[][]): boolean[] {
+  const filled: boolean[] = [];
+  rows.forEach(row => {
+    (row || []).forEach((value, column) => {
+      if (value !== null && value !== undefined && String(value).trim() !== '') {
+        filled[column] = true;
+      }
+    });
+  });
+  return filled;
+}
+
+function isCellObject(cell: any): cell is XLSX.CellObject {
+  return cell !== null && typeof cell === 'object' && !(cell instanceof Date);
 }
 
 /**
- * 헤더 필드명을 Excel 호환성을 위해 정규화
+ * 파싱된 셀을 정규화 입력으로 변환
+ * - 문자열 셀은 문자열 (타입 추론 대상), 텍스트 서식(@) 문자열은 추론하지 않도록 셀 객체
+ * - 숫자/불린/오류 셀은 t, v, z(표시 형식)를 유지한 셀 객체
+ * - 날짜 셀(Date)은 워크북 날짜 체계의 일련번호
  */
-function normalizeHeaderField(value: string): string {
-  if (!value || value.trim() === '') {
-    return '';
+function readTypedCell(cell: XLSX.CellObject | undefined, date1904: boolean): any {
+  if (!cell || cell.t === 'z' || cell.v === undefined || cell.v === null) {
+    return null;
   }
-  
-  const trimmed = value.trim();
-  
-  // 1. 특수 문자 제거 (Excel 연결 시 문제가 될 수 있는 문자들)
-  let normalized = trimmed
-    .replace(/[\x00-\x1F\x7F-\x9F]/g, '') // 제어 문자 제거
-    .replace(/[^\w\s가-힣()[\]{}.,\-_]/g, '') // 안전한 문자만 유지
-    .trim();
-  
-  // 2. 연속된 공백을 하나로 통합
-  normalized = normalized.replace(/\s+/g, ' ');
-  
-  // 3. 빈 문자열이 되면 기본값 설정
-  if (!normalized) {
-    return '컬럼';
+  const format = cell.z !== undefined && cell.z !== 'General' ? { z: cell.z } : {};
+  switch (cell.t) {
+    case 's':
+      return cell.z === '@' ? { t: 's', v: cell.v, z: '@' } : cell.v;
+    case 'd':
+      return { t: 'n', v: dateToSerial(cell.v instanceof Date ? cell.v : new Date(cell.v as string), date1904), z: cell.z || 'yyyy-mm-dd' };
+    default:
+      return { t: cell.t, v: cell.v, ...format };
   }
-  
-  return normalized;
 }
 
 /**
- * 셀 값 정규화 (타입 변환) - 특수문자 처리 강화
+ * 시트 범위의 셀을 2차원 배열로 읽기 (빈 셀은 null)
  */
-function normalizeCell(value: string): any {
-  if (!value || value.trim() === '') {
-    return '';  // null 대신 빈 문자열 반환
-  }
-  
-  const trimmed = value.trim();
-  
-  // 특수문자가 많은 헤더 필드는 문자열로 유지
-  if (trimmed.includes('(') && trimmed.includes(')')) {
-    return trimmed;  // 괄호가 포함된 복잡한 텍스트는 그대로 유지
+function readTypedRows(worksheet: XLSX.WorkSheet, date1904: boolean): any[][] {
+  if (!worksheet['!ref']) {
+    return [];
   }
-  
-  // 1. 숫자 처리 (더 엄격한 검증)
-  const numberMatch = trimmed.match(/^-?[\d,]+\.?\d*$/);
-  if (numberMatch && !trimmed.includes('(')) {  // 괄호가 없는 경우만
-    const cleaned = trimmed.replace(/,/g, '');
-    const num = parseFloat(cleaned);
-    if (!isNaN(num) && isFinite(num)) {
-      return num;
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const rows: any[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: any[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(readTypedCell(worksheet[XLSX.utils.encode_cell({ r, c })], date1904));
     }
+    rows.push(row);
   }
-  
-  // 2. 퍼센트 처리
-  const percentMatch = trimmed.match(/^(-?[\d,]+\.?\d*)\s*%$/);
-  if (percentMatch) {
-    const cleaned = percentMatch[1].replace(/,/g, '');
-    const num = parseFloat(cleaned);
-    if (!isNaN(num) && isFinite(num)) {
-      return num / 100; // Excel 퍼센트 형식
+  return rows;
+}
+
+/**
+ * 모든 행의 컬럼 수를 가장 긴 행에 맞춤 (빈 셀로 패딩)
+ */
+function padRows(rows: string[][]): string[][] {
+  const maxColumns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  rows.forEach(row => {
+    while (row.length < maxColumns) {
+      row.push('');
     }
+  });
+  return rows;
+}
+
+/**
+ * 파싱한 행 → 첫 행이 헤더인 표
+ * - 헤더 위의 행과 빈 행은 제외, 헤더는 여러 행이면 한 행으로 합친 원래 값 (데이터 행은 열 전체를 본 뒤 타입 변환)
+ * - 헤더 없음(row -1)이면 기본 컬럼명 헤더 추가
+ */
+function buildTextTable(rows: string[][], header: HeaderPosition): string[][] {
+  const data: string[][] = [];
+  if (header.row >= 0 && header.row < rows.length) {
+    data.push(flattenHeaderRows(rows, header));
   }
-  
-  // 3. 날짜 처리 (간단한 패턴만)
-  const simpleDatePattern = /^\d{4}-\d{2}-\d{2}$/;
-  if (simpleDatePattern.test(trimmed)) {
-    try {
-      const date = parseISO(trimmed);
-      if (isValid(date)) {
-        return date;
-      }
-    } catch (e) {
-      // 날짜 파싱 실패, 문자열로 처리
+  // 헤더 아래는 빈 행이 아닌 경우에만 추가
+  rows.slice(header.row >= 0 ? header.row + header.rows : 0).forEach(cells => {
+    if (cells.some(cell => cell.trim() !== '')) {
+      data.push(cells);
     }
-  }
+  });
   
-  // 4. 불린 값 처리
-  const lowerValue = trimmed.toLowerCase();
-  if (lowerValue === 'true' || lowerValue === '참' || lowerValue === 'yes') {
-    return true;
-  }
-  if (lowerValue === 'false' || lowerValue === '거짓' || lowerValue === 'no') {
-    return false;
+  if (header.row === -1 && data.length > 0) {
+    const maxColumns = data.reduce((max, row) => Math.max(max, row.length), 0);
+    const defaultHeader: string[] = [];
+    for (let i = 0; i < maxColumns; i++) {
+      defaultHeader.push(`컬럼${i + 1}`);
+    }
+    data.unshift(defaultHeader);
   }
-  
-  // 5. 기본값: 문자열 그대로 반환
-  return trimmed;
+  return padRows(data);
 }
 
 /**
- * 텍스트 기반 복구 (CSV/TSV 파싱) - 개선된 버전
+ * 텍스트 기반 복구 (CSV/TSV, 고정 폭 파싱) - 청크 단위 디코딩/파싱
+ * - 사용자가 지정한 인코딩/구분자/따옴표/열 경계는 자동 감지보다 우선
+ * - 깨진 글자 패턴이 감지되면 셀 단위로 복구
  */
-function textBasedRecovery(buffer: Buffer): XLSX.WorkBook {
-  const text = detectAndDecode(buffer);
-  const delimiter = detectDelimiter(text);
-  
-  console.log('🔄 텍스트 복구 시작: 구분자="' + delimiter + '"');
-  console.log('📄 전체 텍스트 길이:', text.length, '첫 200자:', text.substring(0, 200));
-  console.log('📄 마지막 200자:', text.substring(Math.max(0, text.length - 200)));
-  
-  const lines = text.split('\n').filter(line => line.trim());
-  console.log(`유효한 라인 수: ${lines.length}`);
-  
-  // 처음 3줄 로그로 확인
-  lines.slice(0, 3).forEach((line, index) => {
-    console.log(`라인 ${index + 1} (${line.length}자):`, line.substring(0, 100) + (line.length > 100 ? '...' : ''));
-  });
-  
-  const data: any[][] = [];
-  
-  // 각 라인을 올바르게 파싱
-  let maxColumns = 0;
-  
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-    
-    try {
-      const cells = parseCSVLine(line, delimiter);
-      
-      // 헤더 행(첫 번째 행)은 정규화하지 않고 원본 유지
-      const processedCells = lineIndex === 0 
-        ? cells.map(cell => normalizeHeaderField(cell) || `컬럼${cells.indexOf(cell) + 1}`)  // 헤더는 정규화된 문자열로 처리
-        : cells.map(cell => normalizeCell(cell));  // 데이터 행만 정규화
-      
-      // 컬럼 수 추적
-      maxColumns = Math.max(maxColumns, processedCells.length);
-      
-      // 첫 번째 행(헤더)은 무조건 추가, 나머지는 빈 행이 아닌 경우에만 추가
-      if (lineIndex === 0 || processedCells.some(cell => cell !== null && cell !== '')) {
-        data.push(processedCells);
-        console.log(`라인 ${lineIndex + 1} 파싱 성공: ${processedCells.length}개 셀`, 
-          lineIndex === 0 ? `(헤더: ${processedCells.slice(0, 3).join(', ')}...)` : '');
+function textBasedRecovery(
+  buffer: Buffer,
+  report: ConversionReport,
+  options: ConvertOptions = {},
+  detection: EncodingDetection = detectEncoding(buffer, options.encoding)
+): XLSX.WorkBook {
+  const encoding = detection.encoding;
+  const mojibake = detection.mojibake;
+  recordEncoding(report, detection);
+  let repairedCells = 0;
+  
+  const skipRows = options.skipRows || 0;
+  const rows: string[][] = [];
+  let rowIndex = 0;
+  let parser: CsvParser | null = null;
+  
+  const addRows = (parsedRows: string[][]) => {
+    parsedRows.forEach(cells => {
+      // 앞쪽 건너뛸 행, 주석 행 제외
+      if (skipRows > 0 && rowIndex < skipRows) {
+        rowIndex++;
+        return;
       }
-    } catch (error) {
-      console.warn(`라인 ${lineIndex + 1} 파싱 실패:`, line.substring(0, 100) + '...');
-      
-      // 파싱 실패한 라인은 여러 방법으로 시도
-      let fallbackCells: any[] = [];
-      
-      // 방법 1: 단순 분할
-      try {
-        fallbackCells = line.split(delimiter).map(cell => normalizeCell(cell.trim()));
-      } catch (e1) {
-        console.warn('방법 1 실패, 방법 2 시도');
-        
-        // 방법 2: 쉼표로 분할 (delimiter가 다른 경우)
-        try {
-          fallbackCells = line.split(',').map(cell => normalizeCell(cell.trim()));
-        } catch (e2) {
-          console.warn('방법 2 실패, 방법 3 시도');
-          
-          // 방법 3: 탭으로 분할
-          try {
-            fallbackCells = line.split('\t').map(cell => normalizeCell(cell.trim()));
-          } catch (e3) {
-            console.warn('방법 3 실패, 방법 4 시도');
-            
-            // 방법 4: 공백으로 분할 (여러 공백은 하나로 처리)
-            try {
-              fallbackCells = line.split(/\s+/).filter(cell => cell.trim()).map(cell => normalizeCell(cell.trim()));
-            } catch (e4) {
-              console.warn('방법 4 실패, 전체를 하나의 셀로 처리');
-              // 방법 5: 전체를 하나의 셀로 처리
-              fallbackCells = [normalizeCell(line.trim())];
-            }
-          }
-        }
+      if (options.commentPrefix && (cells[0] || '').trim().indexOf(options.commentPrefix) === 0) {
+        return;
       }
-      
-      // Fallback 셀 처리 (헤더 고려)
-      const processedFallbackCells = lineIndex === 0 
-        ? fallbackCells.map(cell => String(cell).trim() || `컬럼${fallbackCells.indexOf(cell) + 1}`)  // 헤더는 문자열로 유지
-        : fallbackCells.map(cell => normalizeCell(String(cell)));  // 데이터 행만 정규화
-      
-      // 첫 번째 행(헤더)은 무조건 추가, 나머지는 빈 행이 아닌 경우에만 추가
-      if (lineIndex === 0 || processedFallbackCells.some(cell => cell !== null && cell !== '')) {
-        data.push(processedFallbackCells);
-        maxColumns = Math.max(maxColumns, processedFallbackCells.length);
-        console.log(`라인 ${lineIndex + 1} fallback 파싱 성공: ${processedFallbackCells.length}개 셀`);
+      rowIndex++;
+      if (mojibake) {
+        cells = cells.map(cell => {
+          const repaired = repairMojibake(cell, mojibake);
+          if (repaired !== cell) repairedCells++;
+          return repaired;
+        });
       }
+      rows.push(cells);
+    });
+  };
+  
+  decodeInChunks(buffer, encoding, text => {
+    if (!parser) {
+      // 첫 청크로 고정 폭 열 경계 또는 구분자 추정
+      const boundaries = resolveFixedWidthColumns(text, options);
+      if (boundaries) {
+        report.columnBoundaries = boundaries;
+        console.log('🔄 텍스트 복구 시작: 인코딩=' + encoding + ', 고정 폭 열 경계=' + boundaries.join(','));
+        parser = createFixedWidthParser(boundaries);
+      } else {
+        const delimiter = options.delimiter || detectDelimiter(text, options.quote);
+        report.delimiter = delimiter;
+        console.log('🔄 텍스트 복구 시작: 인코딩=' + encoding + ', 구분자="' + delimiter + '"');
+        parser = createCsvParser({ delimiter, quote: options.quote });
+      }
+      console.log('📄 첫 200자:', text.substring(0, 200));
     }
+    addRows(parser.push(text));
+  });
+  if (parser) {
+    addRows((parser as CsvParser).end());
+  }
+  if (mojibake) {
+    console.log(`🔧 깨진 글자 복구 (${mojibake.original} → ${mojibake.decodedAs}로 잘못 읽힘): ${repairedCells}개 셀`);
+    report.mojibake = { ...mojibake, repairedCells };
   }
   
-  // 모든 행의 컬럼 수를 맞춤 (빈 셀로 패딩)
-  data.forEach(row => {
-    while (row.length < maxColumns) {
-      row.push('');
+  // 인쇄 보고서면 반복 헤더, 페이지 번호, 바닥글을 지우고 소계·합계 행 분리
+  const cleanup = options.reportCleanup !== false ? cleanupPrintedReport(rows, {
+    subtotals: options.subtotalRows || DEFAULT_SUBTOTAL_MODE,
+    force: options.reportCleanup === true,
+    headerRow: options.headerRow,
+  }) : null;
+  if (cleanup) {
+    report.reportCleanup = cleanup.report;
+  }
+  
+  // 제목, 조회 기간 아래의 헤더 행과 여러 행 헤더 감지 (정리한 보고서는 첫 행이 헤더)
+  const locale = resolveLocale(options.locale);
+  const tableRows = cleanup ? cleanup.rows : rows;
+  const header = cleanup && cleanup.headerIncluded
+    ? { row: 0, rows: Math.min(options.headerRows || 1, tableRows.length) }
+    : detectHeaderPosition(tableRows, { headerRow: options.headerRow, headerRows: options.headerRows, locale });
+  const headerReport: HeaderReport = { sheet: 'Sheet1', ...header, detected: options.headerRow === undefined, flattened: header.row >= 0 };
+  report.headers = [headerReport];
+  console.log(`📑 헤더 행: ${header.row}${header.rows > 1 ? ` ~ ${header.row + header.rows - 1} (${header.rows}행 헤더)` : ''}`);
+  const data = buildTextTable(tableRows, header);
+  
+  // 헤더는 겹치지 않는 열 이름으로 (바뀐 이름은 리포트에 원래 값과 함께)
+  if (header.row >= 0 && data.length > 0) {
+    const columnNames = toUniqueColumnNames(data[0]);
+    data[0] = columnNames.names;
+    if (columnNames.renamed.length > 0) {
+      headerReport.renamed = columnNames.renamed;
+      console.log(`🏷️ 열 이름 변경 ${columnNames.renamed.length}개:`, columnNames.renamed.slice(0, 5));
     }
-  });
+  }
+  const maxColumns = data.length > 0 ? data[0].length : 0;
+  
+  // 열 단위 타입 변환 (주문번호, 우편번호 등 식별자 열은 텍스트 유지)
+  const typedData = normalizeTable(data, 1, locale);
   
   // 헤더 확인 로그
   if (data.length > 0) {
@@ -389,7 +437,7 @@ function textBasedRecovery(buffer: Buffer): XLSX.WorkBook {
     
     // 데이터 샘플 확인
     if (data.length > 1) {
-      console.log('두 번째 행 샘플:', data[1].slice(0, 5));
+      console.log('두 번째 행 샘플:', typedData[1].slice(0, 5));
     }
   } else {
     console.error('❌ 파싱된 데이터가 없습니다!');
@@ -407,7 +455,7 @@ function textBasedRecovery(buffer: Buffer): XLSX.WorkBook {
   
   // 데이터를 워크시트로 변환
   console.log('워크시트 생성 중... 데이터 크기:', data.length, 'x', data[0]?.length || 0);
-  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  const worksheet = XLSX.utils.aoa_to_sheet(typedData);
   
   // 워크시트 범위 확인
   console.log('워크시트 범위:', worksheet['!ref']);
@@ -416,25 +464,55 @@ function textBasedRecovery(buffer: Buffer): XLSX.WorkBook {
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
   console.log('워크북에 시트 추가 완료');
   
+  // 소계·합계 행은 같은 헤더의 별도 시트로
+  if (cleanup && cleanup.subtotals.length > 0) {
+    const subtotalData = padRows([data[0]].concat(cleanup.subtotals));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(normalizeTable(subtotalData, 1, locale)), SUBTOTAL_SHEET_NAME);
+  }
+  
   return workbook;
 }
 
+// 정규화한 워크북별 레이아웃 보존 결과 (채택된 결과만 리포트에 기록)
+const layoutReports = new WeakMap<XLSX.WorkBook, LayoutReport>();
+const formulaReports = new WeakMap<XLSX.WorkBook, FormulaReport>();
+const annotationReports = new WeakMap<XLSX.WorkBook, AnnotationReport>();
+const headerReports = new WeakMap<XLSX.WorkBook, HeaderReport[]>();
+
 /**
  * 워크북 데이터 정규화
+ * - 파싱된 셀의 타입과 표시 형식(날짜, 퍼센트, 통화 등)은 유지하고 문자열 셀만 타입 추론
+ * - 원본이 1904 날짜 체계면 그대로 유지
+ * - 레이아웃 보존 모드(기본)면 셀 위치와 병합, 열/행 정보, 자동 필터, 틀 고정, 숨긴 시트 유지
+ * - 수식 keep 모드면 참조가 어긋나지 않도록 셀 위치를 유지하고 수식 복사, both 모드면 수식 목록 시트 추가
+ * - 메모, 하이퍼링크, 데이터 유효성 검사, 이름 정의는 항상 복사
  */
-function normalizeWorkbook(workbook: XLSX.WorkBook): XLSX.WorkBook {
+function normalizeWorkbook(workbook: XLSX.WorkBook, options: ConvertOptions): XLSX.WorkBook {
   console.log('🔧 normalizeWorkbook 시작, 시트 수:', workbook.SheetNames.length);
+  const locale = resolveLocale(options.locale);
+  const layout = options.preserveLayout !== false ? createLayoutReport() : null;
+  const formulaMode = options.formulas || DEFAULT_FORMULA_MODE;
+  const formulas = formulaMode !== 'values' ? createFormulaReport(formulaMode) : null;
+  const formulaRows: any[][] = [];
+  const annotations = createAnnotationReport();
+  const headers: HeaderReport[] = [];
   const normalizedWorkbook = XLSX.utils.book_new();
+  const date1904 = !!(workbook.Workbook && workbook.Workbook.WBProps && workbook.Workbook.WBProps.date1904);
+  if (date1904) {
+    normalizedWorkbook.Workbook = { WBProps: { date1904: true } };
+  }
+  
+  // 원본 시트 이름 → 안전한 시트명 (수식의 시트 참조 변경용)
+  const safeSheetNames: Record<string, string> = {};
+  workbook.SheetNames.forEach(sheetName => {
+    safeSheetNames[sheetName] = sanitizeFilename(sheetName).substring(0, 31);
+  });
   
   workbook.SheetNames.forEach((sheetName, index) => {
     console.log(`🔧 시트 ${index + 1} 처리 중: "${sheetName}"`);
     const worksheet = workbook.Sheets[sheetName];
     
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-      header: 1, 
-      defval: null,
-      raw: false 
-    }) as any[][];
+    const jsonData = readTypedRows(worksheet, date1904);
     
     console.log(`🔧 시트 "${sheetName}" 데이터: ${jsonData.length}행`);
     if (jsonData.length > 0) {
@@ -442,27 +520,112 @@ function normalizeWorkbook(workbook: XLSX.WorkBook): XLSX.WorkBook {
       console.log(`🔧 헤더 내용 (처음 5개):`, jsonData[0].slice(0, 5));
     }
     
-    // 각 셀 정규화
-    const normalizedData = jsonData.map(row => 
-      row.map(cell => typeof cell === 'string' ? normalizeCell(cell) : cell)
-    );
+    // 헤더 행 감지 (병합 영역은 표 기준 좌표로)
+    const origin = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s : { r: 0, c: 0 };
+    const merges = (worksheet['!merges'] || []).map(merge => ({
+      s: { r: merge.s.r - origin.r, c: merge.s.c - origin.c },
+      e: { r: merge.e.r - origin.r, c: merge.e.c - origin.c },
+    }));
+    const values = jsonData.map(row => row.map(cell => isCellObject(cell) ? cell.v : cell));
+    const header = detectHeaderPosition(values, { headerRow: options.headerRow, headerRows: options.headerRows, locale, merges });
+    const dataStart = header.row >= 0 ? header.row + header.rows : 0;
+    // 헤더 행의 숫자, 날짜 값은 표시 형식을 적용한 글자로 (열 이름이 일련번호가 되지 않도록)
+    const headerValues = values.map((row, r) => r < header.row || r >= dataStart ? row : row.map((value, c) =>
+      value !== null && typeof value !== 'string'
+        ? XLSX.utils.format_cell(worksheet[XLSX.utils.encode_cell({ r: origin.r + r, c: origin.c + c })])
+        : value));
+    const names = header.rows > 1 ? flattenHeaderRows(headerValues, header, merges) : null;
+    
+    // 각 셀 정규화 (제목, 헤더 행은 그대로, 식별자 열은 텍스트 유지)
+    // 레이아웃 보존, 수식 유지 시 원래 셀 위치 유지 (여러 행 헤더는 마지막 헤더 행에 합치고 위의 헤더 행은 비움)
+    // 아니면 헤더 위의 행을 빼고 헤더를 겹치지 않는 열 이름 한 행으로 합친 표로
+    const keepPositions = !!(layout || formulaMode === 'keep') && !!worksheet['!ref'];
+    const flatten = !keepPositions && header.row >= 0;
+    const inPlaceNames = keepPositions ? names : null;
+    const headerReport: HeaderReport = {
+      sheet: safeSheetNames[sheetName],
+      ...header,
+      detected: options.headerRow === undefined,
+      flattened: flatten || inPlaceNames !== null,
+    };
+    if (jsonData.length > 0) {
+      headers.push(headerReport);
+      console.log(`📑 시트 "${sheetName}" 헤더 행: ${header.row}${header.rows > 1 ? ` ~ ${dataStart - 1} (${header.rows}행 헤더${inPlaceNames ? ', 마지막 헤더 행에 합침' : ''})` : ''}`);
+    }
+    // 셀 위치를 유지할 때는 헤더와 값이 모두 빈 열(표 밖의 열)에 컬럼N을 붙이지 않음
+    const columnNames = header.row >= 0
+      ? toUniqueColumnNames(names || headerValues[header.row], keepPositions ? columnsWithData(values.slice(header.row)) : undefined)
+      : null;
+    if (columnNames && columnNames.renamed.length > 0) {
+      headerReport.renamed = columnNames.renamed;
+      console.log(`🏷️ 시트 "${sheetName}" 열 이름 변경 ${columnNames.renamed.length}개:`, columnNames.renamed.slice(0, 5));
+    }
+    const normalizedData = flatten && columnNames
+      ? normalizeTable([columnNames.names].concat(jsonData.slice(dataStart)), 1, locale, date1904)
+      : normalizeTable(jsonData, dataStart, locale, date1904, names || (header.row >= 0 ? headerValues[header.row] : undefined));
+    if (keepPositions && columnNames) {
+      // 마지막 헤더 행에 합친 이름 (한 행 헤더는 바뀐 셀만), 위의 헤더 행은 비움
+      const renamedColumns = columnNames.renamed.map(item => item.column);
+      for (let r = header.row; r < dataStart; r++) {
+        normalizedData[r] = normalizedData[r].slice();
+        columnNames.names.forEach((name, c) => {
+          if (r === dataStart - 1 && (inPlaceNames || renamedColumns.indexOf(c) !== -1)) {
+            normalizedData[r][c] = name || null;
+          } else if (r < dataStart - 1) {
+            normalizedData[r][c] = null;
+          }
+        });
+      }
+    }
     
     // 정규화된 데이터로 새 워크시트 생성
-    const normalizedSheet = XLSX.utils.aoa_to_sheet(normalizedData);
+    const normalizedSheet = keepPositions
+      ? XLSX.utils.sheet_add_aoa({ '!ref': worksheet['!ref'] }, normalizedData, { origin })
+      : XLSX.utils.aoa_to_sheet(normalizedData);
     
     // 안전한 시트명 생성
-    const safeSheetName = sanitizeFilename(sheetName).substring(0, 31);
+    const safeSheetName = safeSheetNames[sheetName];
+    if (layout) {
+      copySheetLayout(worksheet, normalizedSheet, safeSheetName, layout);
+      if (inPlaceNames) {
+        const headerRange = {
+          s: { r: origin.r + header.row, c: origin.c },
+          e: { r: origin.r + dataStart - 1, c: origin.c + inPlaceNames.length - 1 },
+        };
+        dropMergesInRange(normalizedSheet, headerRange, safeSheetName, '여러 행 헤더를 한 행으로 합쳐 해제한 병합 영역', layout);
+      }
+    }
+    if (formulas && formulaMode === 'keep') {
+      copySheetFormulas(worksheet, normalizedSheet, safeSheetName, safeSheetNames, formulas);
+    } else if (formulas) {
+      formulaRows.push(...collectSheetFormulas(worksheet, safeSheetName, formulas));
+    }
+    const offset = keepPositions ? { r: 0, c: 0 } : flatten ? { r: origin.r + dataStart - 1, c: origin.c } : origin;
+    copyCellAnnotations(worksheet, normalizedSheet, safeSheetName, offset, safeSheetNames, annotations);
     XLSX.utils.book_append_sheet(normalizedWorkbook, normalizedSheet, safeSheetName);
     console.log(`🔧 시트 "${safeSheetName}" 정규화 완료`);
   });
   
+  if (layout) {
+    copyHiddenSheets(workbook, normalizedWorkbook, layout);
+    layoutReports.set(normalizedWorkbook, layout);
+  }
+  if (formulas) {
+    if (formulaMode === 'both') {
+      appendFormulaSheet(normalizedWorkbook, formulaRows);
+    }
+    formulaReports.set(normalizedWorkbook, formulas);
+  }
+  copyDefinedNames(workbook, normalizedWorkbook, safeSheetNames);
+  annotationReports.set(normalizedWorkbook, annotations);
+  headerReports.set(normalizedWorkbook, headers);
   return normalizedWorkbook;
 }
 
 /**
- * 바이너리 파일을 JSON 형태로 변환한 후 .xlsx로 저장
+ * 바이너리 파일에서 텍스트 라인을 추출해 표 형태 워크북 생성
  */
-async function convertBinaryToJsonToXlsx(buffer: Buffer, filename: string): Promise<Buffer> {
+function extractBinaryTextWorkbook(buffer: Buffer, filename: string): XLSX.WorkBook {
   console.log('🔧 바이너리 → JSON → .xlsx 변환 시작');
   
   try {
@@ -519,6 +682,10 @@ async function convertBinaryToJsonToXlsx(buffer: Buffer, filename: string): Prom
     // 3. 추출된 데이터를 실제 Excel 표 형태로 구조화
     console.log('🔧 Excel 표 구조 생성 시작');
     
+    if (extractedData.length === 0) {
+      throw new Error('의미있는 텍스트 라인 없음');
+    }
+    
     // 가장 많은 데이터가 있는 인코딩 선택
     const bestEncoding = extractedData.reduce((best, current) => 
       current.lines.length > best.lines.length ? current : best
@@ -547,7 +714,7 @@ async function convertBinaryToJsonToXlsx(buffer: Buffer, filename: string): Prom
       }
       
       // 헤더 추가 (정규화 적용)
-      const headers = bestSplit.map(header => normalizeHeaderField(header.trim()));
+      const headers = toUniqueColumnNames(bestSplit).names;
       if (headers.length > 1) {
         excelData.push(headers);
         console.log(`📋 헤더 생성: ${headers.length}개 컬럼`, headers.slice(0, 5));
@@ -595,192 +762,19 @@ async function convertBinaryToJsonToXlsx(buffer: Buffer, filename: string): Prom
     const worksheet = XLSX.utils.aoa_to_sheet(excelData);
     XLSX.utils.book_append_sheet(workbook, worksheet, 'ExtractedData');
     
-    const outputBuffer = XLSX.write(workbook, { 
-      type: 'buffer', 
-      bookType: 'xlsx',
-      compression: true 
-    });
-    
-    console.log(`✅ 바이너리 → JSON → .xlsx 변환 완료: ${outputBuffer.length} bytes`);
-    return outputBuffer;
+    console.log('✅ 바이너리 텍스트 추출 완료');
+    return workbook;
     
   } catch (error) {
     console.error('❌ JSON 변환 실패:', error instanceof Error ? error.message : String(error));
-    
-    // 최종 Fallback: 원본 파일 정보만 저장
-    const fallbackData = [
-      ['파일명', '크기', '상태', '비고'],
-      [filename, `${buffer.length} bytes`, '변환 실패', '바이너리 파일 - 수동 확인 필요']
-    ];
-    
-    const fallbackWorkbook = XLSX.utils.book_new();
-    const fallbackWorksheet = XLSX.utils.aoa_to_sheet(fallbackData);
-    XLSX.utils.book_append_sheet(fallbackWorkbook, fallbackWorksheet, 'FileInfo');
-    
-    return XLSX.write(fallbackWorkbook, { 
-      type: 'buffer', 
-      bookType: 'xlsx',
-      compression: true 
-    });
-  }
-}
-
-/**
- * 압축된 데이터 해제 시도 (여러 방법)
- */
-async function tryDecompressData(compressedData: string): Promise<string | null> {
-  console.log('🔧 압축 해제 시도 중...');
-  
-  try {
-    // 방법 1: 이미 압축 해제된 데이터인지 확인
-    if (compressedData.includes('<') && compressedData.includes('>')) {
-      console.log('✅ 이미 압축 해제된 XML 데이터 발견');
-      return compressedData;
-    }
-    
-    // 방법 2: Node.js zlib으로 압축 해제 시도
-    const zlib = require('zlib');
-    const compressedBuffer = Buffer.from(compressedData, 'latin1');
-    
-    // DEFLATE 압축 해제 시도
-    try {
-      const inflated = zlib.inflateRawSync(compressedBuffer);
-      const result = inflated.toString('utf8');
-      if (result.includes('<') && result.includes('>')) {
-        console.log('✅ DEFLATE 압축 해제 성공');
-        return result;
-      }
-    } catch (e) {
-      console.log('❌ DEFLATE 압축 해제 실패');
-    }
-    
-    // GZIP 압축 해제 시도
-    try {
-      const gunzipped = zlib.gunzipSync(compressedBuffer);
-      const result = gunzipped.toString('utf8');
-      if (result.includes('<') && result.includes('>')) {
-        console.log('✅ GZIP 압축 해제 성공');
-        return result;
-      }
-    } catch (e) {
-      console.log('❌ GZIP 압축 해제 실패');
-    }
-    
-    // 방법 3: 다른 인코딩으로 시도
-    const encodings = ['utf8', 'ascii', 'base64'];
-    for (const encoding of encodings) {
-      try {
-        const decoded = Buffer.from(compressedData, 'latin1').toString(encoding as BufferEncoding);
-        if (decoded.includes('<') && decoded.includes('>') && decoded.includes('xml')) {
-          console.log(`✅ ${encoding} 인코딩으로 XML 데이터 발견`);
-          return decoded;
-        }
-      } catch (e) {
-        // 무시
-      }
-    }
-    
-    console.log('❌ 모든 압축 해제 방법 실패');
-    return null;
-    
-  } catch (error) {
-    console.log('❌ 압축 해제 중 오류:', error instanceof Error ? error.message : String(error));
-    return null;
-  }
-}
-
-/**
- * 의미있는 텍스트들로 Excel 파일 생성
- */
-async function createExcelFromMeaningfulTexts(texts: string[], filename: string): Promise<Buffer> {
-  console.log('🔧 의미있는 텍스트로 Excel 생성 시작');
-  console.log('📋 사용할 텍스트들:', texts);
-  
-  try {
-    const workbook = XLSX.utils.book_new();
-    const excelData: string[][] = [];
-    
-    // 헤더 생성 (파일명 기반)
-    const cleanFilename = filename.replace(/\.[^.]+$/, '').replace(/[_\-\[\]().\s]+/g, ' ').trim();
-    excelData.push([`발견된 텍스트 (${cleanFilename})`]);
-    
-    // 텍스트 분류 및 정리
-    const koreanTexts = texts.filter(text => /[가-힣]/.test(text));
-    const englishTexts = texts.filter(text => /^[a-zA-Z]+$/.test(text));
-    const numberTexts = texts.filter(text => /^\d+$/.test(text));
-    const mixedTexts = texts.filter(text => 
-      !koreanTexts.includes(text) && 
-      !englishTexts.includes(text) && 
-      !numberTexts.includes(text)
-    );
-    
-    // 분류별로 데이터 추가
-    if (koreanTexts.length > 0) {
-      excelData.push(['한글 텍스트', '분류', '길이', '설명']);
-      koreanTexts.forEach(text => {
-        excelData.push([text, '한글', text.length.toString(), '한글 텍스트']);
-      });
-      excelData.push(['']); // 빈 줄
-    }
-    
-    if (englishTexts.length > 0) {
-      excelData.push(['영문 텍스트', '분류', '길이', '설명']);
-      englishTexts.forEach(text => {
-        excelData.push([text, '영문', text.length.toString(), '영문 텍스트']);
-      });
-      excelData.push(['']); // 빈 줄
-    }
-    
-    if (numberTexts.length > 0) {
-      excelData.push(['숫자 텍스트', '분류', '길이', '설명']);
-      numberTexts.forEach(text => {
-        excelData.push([text, '숫자', text.length.toString(), '숫자 텍스트']);
-      });
-      excelData.push(['']); // 빈 줄
-    }
-    
-    if (mixedTexts.length > 0) {
-      excelData.push(['혼합 텍스트', '분류', '길이', '설명']);
-      mixedTexts.forEach(text => {
-        excelData.push([text, '혼합', text.length.toString(), '혼합 텍스트']);
-      });
-    }
-    
-    // 데이터가 없으면 기본 데이터 추가
-    if (excelData.length <= 1) {
-      excelData.push(['데이터 없음', '오류', '0', '추출된 텍스트가 없습니다']);
-    }
-    
-    const worksheet = XLSX.utils.aoa_to_sheet(excelData);
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
-    
-    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
-    console.log('✅ 의미있는 텍스트 Excel 생성 완료:', buffer.length, 'bytes');
-    
-    return buffer;
-  } catch (error) {
-    console.log('❌ Excel 생성 실패:', error instanceof Error ? error.message : String(error));
-    
-    // 최소한의 오류 파일 생성
-    const workbook = XLSX.utils.book_new();
-    const errorData = [
-      ['오류 발생'],
-      ['파일명', filename],
-      ['오류 내용', error instanceof Error ? error.message : String(error)],
-      ['텍스트 수', texts.length.toString()],
-      ['텍스트 샘플', texts.slice(0, 5).join(', ')]
-    ];
-    const worksheet = XLSX.utils.aoa_to_sheet(errorData);
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Error');
-    
-    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    throw error;
   }
 }
 
 /**
  * SharedStrings에서 실제 데이터 추출
  */
-async function extractDataFromSharedStrings(buffer: Buffer, filename: string, sharedStringsContent: string): Promise<Buffer> {
+function extractDataFromSharedStrings(sharedStringsContent: string): XLSX.WorkBook {
   console.log('🔧 SharedStrings에서 데이터 추출 시작');
   console.log('📄 SharedStrings 내용 (처음 500자):', sharedStringsContent.substring(0, 500));
   
@@ -925,7 +919,7 @@ async function extractDataFromSharedStrings(buffer: Buffer, filename: string, sh
       
       // 첫 번째 텍스트를 헤더로 사용하거나 적절히 분할
       const headerCount = Math.min(extractedTexts.length, 10); // 최대 10개 컬럼
-      const headers = extractedTexts.slice(0, headerCount).map(text => normalizeHeaderField(text));
+      const headers = toUniqueColumnNames(extractedTexts.slice(0, headerCount)).names;
       excelData.push(headers);
       
       // 나머지 데이터를 행으로 구성
@@ -940,28 +934,21 @@ async function extractDataFromSharedStrings(buffer: Buffer, filename: string, sh
       const worksheet = XLSX.utils.aoa_to_sheet(excelData);
       XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
       
-      const outputBuffer = XLSX.write(workbook, { 
-        type: 'buffer', 
-        bookType: 'xlsx',
-        compression: true 
-      });
-      
-      console.log(`✅ SharedStrings 데이터 변환 완료: ${outputBuffer.length} bytes`);
-      return outputBuffer;
+      console.log('✅ SharedStrings 데이터 변환 완료');
+      return workbook;
     }
   } catch (error) {
     console.error('❌ SharedStrings 추출 실패:', error instanceof Error ? error.message : String(error));
+    throw error;
   }
   
-  // 실패 시 원본 파일에서 실제 한글/의미있는 텍스트 찾기
-  console.log('🔧 SharedStrings에서 의미있는 텍스트 없음, 원본 파일 전체 스캔 시도');
-  return await findMeaningfulTextInBuffer(buffer, filename);
+  throw new Error('SharedStrings에서 추출한 텍스트 없음');
 }
 
 /**
  * 원본 파일에서 실제 의미있는 텍스트 찾기 (한글, 실제 단어 중심)
  */
-async function findMeaningfulTextInBuffer(buffer: Buffer, filename: string): Promise<Buffer> {
+function findMeaningfulTextInBuffer(buffer: Buffer, filename: string): XLSX.WorkBook {
   console.log('🔧 원본 파일에서 실제 의미있는 텍스트 스캔 시작');
   
   try {
@@ -1094,7 +1081,7 @@ async function findMeaningfulTextInBuffer(buffer: Buffer, filename: string): Pro
         }
         
         excelData.push([
-          normalizeHeaderField(text),
+          normalizeColumnName(text),
           type,
           String(text.length),
           description
@@ -1106,643 +1093,867 @@ async function findMeaningfulTextInBuffer(buffer: Buffer, filename: string): Pro
       const worksheet = XLSX.utils.aoa_to_sheet(excelData);
       XLSX.utils.book_append_sheet(workbook, worksheet, 'MeaningfulData');
       
-      const outputBuffer = XLSX.write(workbook, { 
-        type: 'buffer', 
-        bookType: 'xlsx',
-        compression: true 
-      });
-      
-      console.log(`✅ 의미있는 텍스트 추출 완료: ${outputBuffer.length} bytes`);
-      return outputBuffer;
+      console.log('✅ 의미있는 텍스트 추출 완료');
+      return workbook;
     }
     
   } catch (error) {
     console.error('❌ 의미있는 텍스트 스캔 실패:', error instanceof Error ? error.message : String(error));
+    throw error;
   }
   
-  // 최종 실패 시 - 파일이 손상되었음을 알림
-  const fallbackData = [
-    ['상태', '설명'],
-    ['파일 손상', '의미있는 텍스트를 찾을 수 없습니다'],
-    ['파일명', filename],
-    ['파일 크기', `${buffer.length} bytes`],
-    ['권장사항', '원본 파일을 다시 확인해주세요']
-  ];
-  
-  const fallbackWorkbook = XLSX.utils.book_new();
-  const fallbackWorksheet = XLSX.utils.aoa_to_sheet(fallbackData);
-  XLSX.utils.book_append_sheet(fallbackWorkbook, fallbackWorksheet, 'FileStatus');
-  
-  return XLSX.write(fallbackWorkbook, { 
-    type: 'buffer', 
-    bookType: 'xlsx',
-    compression: true 
-  });
+  throw new Error('의미있는 텍스트를 찾을 수 없음');
 }
 
 /**
- * 원본 파일에서 직접 텍스트 추출 (최후의 수단)
+ * XML 엔티티 디코딩
  */
-async function extractTextDirectlyFromBuffer(buffer: Buffer, filename: string): Promise<Buffer> {
-  console.log('🔧 원본 파일에서 직접 텍스트 추출 시작');
-  
-  try {
-    const extractedTexts: string[] = [];
-    
-    // 여러 인코딩으로 텍스트 추출
-    const encodings = ['utf8', 'latin1', 'ascii'] as const;
-    
-    for (const encoding of encodings) {
-      try {
-        const textContent = buffer.toString(encoding);
-        console.log(`🔧 ${encoding} 인코딩으로 텍스트 추출 시도`);
-        
-        // 한글 텍스트 패턴 찾기 (더 엄격한 필터링)
-        const koreanMatches = textContent.match(/[가-힣]{2,}/g);
-        if (koreanMatches) {
-          const uniqueKorean = Array.from(new Set(koreanMatches))
-            .filter(text => {
-              return text.length >= 2 && 
-                     text.length <= 50 &&
-                     !/[\x00-\x1F\x7F-\xFF]/.test(text) && // 바이너리 문자 제외
-                     /^[가-힣]+$/.test(text); // 순수 한글만
-            })
-            .slice(0, 20);
-          
-          if (uniqueKorean.length > 0) {
-            extractedTexts.push(...uniqueKorean);
-            console.log(`📋 ${encoding}에서 한글 텍스트 ${uniqueKorean.length}개 발견:`, uniqueKorean.slice(0, 5));
-          }
-        }
-        
-        // 영문 텍스트 패턴 찾기 (더 엄격한 필터링)
-        const englishMatches = textContent.match(/[a-zA-Z]{3,}/g);
-        if (englishMatches) {
-          const uniqueEnglish = Array.from(new Set(englishMatches))
-            .filter(text => {
-              return text.length >= 3 && 
-                     text.length <= 50 &&
-                     !/[\x00-\x1F\x7F-\xFF]/.test(text) && // 바이너리 문자 제외
-                     /^[a-zA-Z]+$/.test(text) && // 순수 영문만
-                     !/^(PK|xml|Content|Types|rels|docProps|app|core|workbook|worksheet|sharedStrings|styles|DEFLATE|GZIP|ascii|utf|latin)$/i.test(text); // XML/시스템 키워드 제외
-            })
-            .slice(0, 20);
-          
-          if (uniqueEnglish.length > 0) {
-            extractedTexts.push(...uniqueEnglish);
-            console.log(`📋 ${encoding}에서 영문 텍스트 ${uniqueEnglish.length}개 발견:`, uniqueEnglish.slice(0, 5));
-          }
-        }
-        
-        // 숫자 패턴 찾기 (전화번호, 주문번호 등)
-        const numberMatches = textContent.match(/[0-9]{4,}/g);
-        if (numberMatches) {
-          const uniqueNumbers = Array.from(new Set(numberMatches))
-            .filter(text => text.length >= 4 && text.length <= 20)
-            .slice(0, 10);
-          extractedTexts.push(...uniqueNumbers);
-          console.log(`📋 ${encoding}에서 숫자 패턴 ${uniqueNumbers.length}개 발견:`, uniqueNumbers.slice(0, 3));
-        }
-        
-        if (extractedTexts.length >= 10) break; // 충분한 데이터가 있으면 중단
-        
-      } catch (error) {
-        console.log(`❌ ${encoding} 인코딩 실패`);
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * 문자열 요소(<si>, <is>)의 텍스트 추출 - 서식 run은 이어붙이고 후리가나(rPh)는 제외
+ */
+function readStringItem(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  const texts: string[] = [];
+  const textPattern = /<(?:\w+:)?t\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?t>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = textPattern.exec(withoutPhonetic)) !== null) {
+    texts.push(decodeXmlEntities(match[1] || ''));
+  }
+  return texts.join('');
+}
+
+/**
+ * sharedStrings.xml을 인덱스 순서의 문자열 테이블로 파싱
+ */
+function parseSharedStringsTable(sharedStringsContent: string): string[] {
+  const table: string[] = [];
+  const itemPattern = /<(?:\w+:)?si\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?si>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(sharedStringsContent)) !== null) {
+    table.push(readStringItem(match[1] || ''));
+  }
+  console.log(`📋 SharedStrings 테이블 ${table.length}개 항목 복구`);
+  return table;
+}
+
+/**
+ * XML 속성 값 읽기
+ */
+function readXmlAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp('\\b' + name + '="([^"]*)"'));
+  return match ? match[1] : null;
+}
+
+/**
+ * 셀 타입(t 속성)에 맞춰 값 해석
+ */
+function readWorksheetCellValue(type: string | null, body: string, sharedStrings: string[]): any {
+  if (type === 'inlineStr') {
+    const inline = body.match(/<(?:\w+:)?is\b[^>]*>([\s\S]*?)<\/(?:\w+:)?is>/);
+    return inline ? readStringItem(inline[1]) : null;
+  }
+  
+  const valueMatch = body.match(/<(?:\w+:)?v\b[^>]*>([\s\S]*?)<\/(?:\w+:)?v>/);
+  if (!valueMatch) return null;
+  const raw = decodeXmlEntities(valueMatch[1]);
+  
+  switch (type) {
+    case 's': {
+      const index = parseInt(raw, 10);
+      if (!isNaN(index) && index >= 0 && index < sharedStrings.length) {
+        return sharedStrings[index];
       }
+      // SharedStrings가 잘려 인덱스를 해석할 수 없으면 빈 칸으로 둠
+      return null;
     }
-    
-    console.log(`📋 총 ${extractedTexts.length}개 텍스트 추출 완료`);
-    
-    if (extractedTexts.length > 0) {
-      // 중복 제거 및 정리
-      const uniqueTexts = Array.from(new Set(extractedTexts));
-      
-      // Excel 형태로 구성
-      const excelData: string[][] = [];
-      
-      // 헤더 생성
-      const headers = ['추출된 데이터', '타입', '길이', '인코딩'];
-      excelData.push(headers);
-      
-      // 데이터 추가
-      uniqueTexts.forEach((text, index) => {
-        const type = /[가-힣]/.test(text) ? '한글' : 
-                    /[a-zA-Z]/.test(text) ? '영문' : 
-                    /[0-9]/.test(text) ? '숫자' : '기타';
-        excelData.push([
-          normalizeHeaderField(text), 
-          type, 
-          String(text.length),
-          '직접추출'
-        ]);
-      });
-      
-      // Excel 파일 생성
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.aoa_to_sheet(excelData);
-      XLSX.utils.book_append_sheet(workbook, worksheet, 'ExtractedData');
+    case 'b':
+      return raw === '1' || raw.toLowerCase() === 'true';
+    case 'e':
+    case 'str':
+      return raw;
+    case 'd': {
+      const date = parseISO(raw);
+      return isValid(date) ? date : raw;
+    }
+    default: {
+      const num = Number(raw);
+      return raw.trim() !== '' && isFinite(num) ? num : raw;
+    }
+  }
+}
+
+/**
+ * 워크시트 XML을 셀 주소(r="B7") 기준의 2차원 배열로 복원 (누락된 셀은 빈 칸)
+ */
+function parseWorksheetXml(worksheetContent: string, sharedStrings: string[]): any[][] {
+  const data: any[][] = [];
+  const rowPattern = /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g;
+  const cellPattern = /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+  let nextRowIndex = 0;
+  let rowMatch: RegExpExecArray | null;
+  
+  while ((rowMatch = rowPattern.exec(worksheetContent)) !== null) {
+    const rowNumber = readXmlAttribute(rowMatch[1], 'r');
+    const rowIndex = rowNumber ? parseInt(rowNumber, 10) - 1 : nextRowIndex;
+    nextRowIndex = rowIndex + 1;
+    
+    const rowBody = rowMatch[2] || '';
+    let nextColumnIndex = 0;
+    let cellMatch: RegExpExecArray | null;
+    cellPattern.lastIndex = 0;
+    
+    while ((cellMatch = cellPattern.exec(rowBody)) !== null) {
+      const reference = readXmlAttribute(cellMatch[1], 'r');
+      const columnIndex = reference ? XLSX.utils.decode_cell(reference).c : nextColumnIndex;
+      nextColumnIndex = columnIndex + 1;
       
-      const outputBuffer = XLSX.write(workbook, { 
-        type: 'buffer', 
-        bookType: 'xlsx',
-        compression: true 
-      });
+      const value = readWorksheetCellValue(readXmlAttribute(cellMatch[1], 't'), cellMatch[2] || '', sharedStrings);
+      if (value === null || value === '' || columnIndex < 0) continue;
       
-      console.log(`✅ 직접 텍스트 추출 완료: ${outputBuffer.length} bytes`);
-      return outputBuffer;
+      if (!data[rowIndex]) data[rowIndex] = [];
+      data[rowIndex][columnIndex] = value;
     }
-    
-  } catch (error) {
-    console.error('❌ 직접 텍스트 추출 실패:', error instanceof Error ? error.message : String(error));
   }
   
-  // 최종 실패 시 기본 오류 파일 생성
-  const fallbackData = [
-    ['파일명', '상태', '크기'],
-    [filename, '텍스트 추출 실패', `${buffer.length} bytes`]
-  ];
-  
-  const fallbackWorkbook = XLSX.utils.book_new();
-  const fallbackWorksheet = XLSX.utils.aoa_to_sheet(fallbackData);
-  XLSX.utils.book_append_sheet(fallbackWorkbook, fallbackWorksheet, 'Error');
+  // 빈 행과 행 안의 빈 칸을 채워 aoa_to_sheet가 위치를 유지하도록 함
+  for (let r = 0; r < data.length; r++) {
+    const row = data[r] || [];
+    for (let c = 0; c < row.length; c++) {
+      if (row[c] === undefined) row[c] = null;
+    }
+    data[r] = row;
+  }
   
-  return XLSX.write(fallbackWorkbook, { 
-    type: 'buffer', 
-    bookType: 'xlsx',
-    compression: true 
-  });
+  return data;
+}
+
+/**
+ * 복구 대상 시트 탭 (part가 null이면 시트 파트를 찾지 못한 탭)
+ */
+interface SheetTab {
+  name: string;
+  part: string | null;
 }
 
 /**
- * Worksheet에서 실제 데이터 추출
+ * 시트명을 Excel 규칙(31자, 금지 문자, 중복 불가)에 맞게 정리
  */
-async function extractDataFromWorksheet(buffer: Buffer, filename: string, worksheetContent: string): Promise<Buffer> {
-  console.log('🔧 Worksheet에서 데이터 추출 시작');
+function toUniqueSheetName(name: string, usedNames: string[]): string {
+  const base = (name.replace(/[\\/?*[\]:]/g, '_').trim() || 'Sheet').substring(0, 31);
+  let candidate = base;
+  let suffix = 2;
+  while (usedNames.some(used => used.toLowerCase() === candidate.toLowerCase())) {
+    const tail = `_${suffix++}`;
+    candidate = base.substring(0, 31 - tail.length) + tail;
+  }
+  usedNames.push(candidate);
+  return candidate;
+}
+
+/**
+ * Worksheet들에서 실제 데이터 추출 (셀 주소와 SharedStrings 인덱스 해석, 탭마다 시트 하나)
+ */
+function extractDataFromWorksheets(
+  tabs: { name: string; content: string | null }[],
+  sharedStrings: string[]
+): StrategyResult {
+  console.log(`🔧 Worksheet ${tabs.length}개에서 데이터 추출 시작`);
   
-  try {
-    // <c> 태그 (셀) 안의 <v> 태그 (값) 추출
-    const cellMatches = worksheetContent.match(/<c[^>]*>.*?<\/c>/g);
-    const extractedValues: string[] = [];
-    
-    if (cellMatches) {
-      cellMatches.forEach(cellMatch => {
-        const valueMatch = cellMatch.match(/<v[^>]*>([^<]*)<\/v>/);
-        if (valueMatch && valueMatch[1]) {
-          extractedValues.push(valueMatch[1].trim());
-        }
-      });
+  const workbook = XLSX.utils.book_new();
+  const usedNames: string[] = [];
+  const failedTabs: { name: string; reason: string }[] = [];
+  const headers: HeaderReport[] = [];
+  
+  tabs.forEach(tab => {
+    if (!tab.content) {
+      failedTabs.push({ name: tab.name, reason: '시트 파트를 찾거나 압축 해제할 수 없음' });
+      return;
     }
     
-    console.log(`📋 Worksheet에서 ${extractedValues.length}개 값 추출`);
-    console.log('📄 추출된 값 샘플:', extractedValues.slice(0, 10));
-    
-    if (extractedValues.length > 0) {
-      // 추출된 값을 Excel 형태로 구성
-      const excelData: string[][] = [];
+    try {
+      const excelData = parseWorksheetXml(tab.content, sharedStrings);
+      const cellCount = excelData.reduce((sum, row) => sum + row.filter(cell => cell !== null).length, 0);
       
-      // 적절한 컬럼 수 추정 (보통 5-15개)
-      const estimatedColumns = Math.min(Math.max(Math.floor(Math.sqrt(extractedValues.length)), 3), 15);
+      console.log(`📋 시트 "${tab.name}": ${excelData.length}행, ${cellCount}개 셀 복원`);
       
-      for (let i = 0; i < extractedValues.length; i += estimatedColumns) {
-        const row = extractedValues.slice(i, i + estimatedColumns);
-        while (row.length < estimatedColumns) row.push('');
-        
-        // 첫 번째 행은 헤더로 정규화
-        if (i === 0) {
-          const headers = row.map(cell => normalizeHeaderField(cell) || `컬럼${row.indexOf(cell) + 1}`);
-          excelData.push(headers);
-        } else {
-          excelData.push(row);
-        }
+      if (cellCount === 0) {
+        failedTabs.push({ name: tab.name, reason: '복원된 셀 없음' });
+        return;
       }
       
-      // Excel 파일 생성
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.aoa_to_sheet(excelData);
-      XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
-      
-      const outputBuffer = XLSX.write(workbook, { 
-        type: 'buffer', 
-        bookType: 'xlsx',
-        compression: true 
-      });
+      // 값이 있는 첫 행은 겹치지 않는 열 이름으로 (표의 첫 열부터 값이 있는 열만, 바뀐 이름은 리포트에 원래 값과 함께)
+      const headerRowIndex = excelData.findIndex(row => row.some(cell => cell !== null));
+      const firstColumn = excelData.reduce((min, row) => {
+        const column = row.findIndex(cell => cell !== null);
+        return column === -1 ? min : Math.min(min, column);
+      }, Infinity);
+      const width = excelData.reduce((max, row) => Math.max(max, row.length), 0);
+      const headerRow = excelData[headerRowIndex];
+      const hasData = columnsWithData(excelData.slice(headerRowIndex).map(row => row.slice(firstColumn)));
+      const columnNames = toUniqueColumnNames(Array.from({ length: width - firstColumn }, (_, index) => headerRow[firstColumn + index]), hasData);
+      excelData[headerRowIndex] = headerRow.slice(0, firstColumn).concat(columnNames.names.map(name => name || null));
       
-      console.log(`✅ Worksheet 데이터 변환 완료: ${outputBuffer.length} bytes`);
-      return outputBuffer;
+      const worksheet = XLSX.utils.aoa_to_sheet(excelData, { cellDates: true });
+      const sheetName = toUniqueSheetName(tab.name, usedNames);
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+      const headerReport: HeaderReport = { sheet: sheetName, row: headerRowIndex, rows: 1, detected: true, flattened: false };
+      if (columnNames.renamed.length > 0) {
+        headerReport.renamed = columnNames.renamed;
+        console.log(`🏷️ 시트 "${sheetName}" 열 이름 변경 ${columnNames.renamed.length}개:`, columnNames.renamed.slice(0, 5));
+      }
+      headers.push(headerReport);
+    } catch (error) {
+      console.error(`❌ 시트 "${tab.name}" 추출 실패:`, error instanceof Error ? error.message : String(error));
+      failedTabs.push({ name: tab.name, reason: error instanceof Error ? error.message : String(error) });
     }
-  } catch (error) {
-    console.error('❌ Worksheet 추출 실패:', error instanceof Error ? error.message : String(error));
+  });
+  
+  if (workbook.SheetNames.length === 0) {
+    // 실패 시 기본 처리로 넘김
+    throw new Error('Worksheet 추출 실패');
   }
   
-  // 실패 시 기본 처리로 넘김
-  throw new Error('Worksheet 추출 실패');
+  // 읽지 못한 탭은 복구 상태 시트에 표시
+  if (failedTabs.length > 0) {
+    console.log(`⚠️ 복구하지 못한 탭 ${failedTabs.length}개:`, failedTabs.map(tab => tab.name));
+    const statusData = [
+      ['시트명', '상태', '사유'],
+      ...tabs.map(tab => {
+        const failed = failedTabs.find(item => item.name === tab.name);
+        return [tab.name, failed ? '복구 실패' : '복구됨', failed ? failed.reason : ''];
+      })
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(statusData), toUniqueSheetName('복구상태', usedNames));
+  }
+  
+  console.log(`✅ Worksheet 데이터 변환 완료: ${workbook.SheetNames.length}개 시트`);
+  headerReports.set(workbook, headers);
+  return {
+    workbook,
+    detail: {
+      recoveredTabs: tabs.length - failedTabs.length,
+      failedTabs: failedTabs.map(tab => tab.name),
+    },
+  };
 }
 
 /**
- * Excel 파일 전용 처리 함수 (구 Excel, 한셀, 최신 Excel 모두 지원)
+ * 워크북 구성 파트 위치
  */
-async function handleExcelFile(buffer: Buffer, filename: string): Promise<Buffer> {
-  console.log('🔧 Excel 파일 전용 처리 시작');
-  
-  // 1. 먼저 강력한 XLSX.read 옵션들로 시도
-  console.log('🔧 강화된 XLSX.read 옵션들로 시도');
-  const readOptions = [
-    { cellText: false, cellDates: true, raw: false },
-    { cellText: true, cellDates: true, raw: false },
-    { cellText: false, cellDates: true, raw: true },
-    { cellText: true, cellDates: true, raw: true },
-    { cellText: false, cellDates: false, raw: false, codepage: 949 },
-    { cellText: true, cellDates: false, raw: false, codepage: 949 },
-    { cellText: false, cellDates: false, raw: true, codepage: 949 },
-    { cellText: false, cellDates: true, raw: false, codepage: 1200 },
-    { cellText: false, cellDates: true, raw: false, codepage: 65001 },
-    { cellText: false, cellDates: true, raw: false, bookVBA: true },
-    { cellText: false, cellDates: true, raw: false, bookSheets: true, bookProps: true }
-  ];
-  
-  for (let i = 0; i < readOptions.length; i++) {
-    try {
-      console.log(`🔧 XLSX.read 옵션 ${i + 1}/${readOptions.length} 시도:`, readOptions[i]);
-      const workbook = XLSX.read(buffer, readOptions[i]);
+interface WorkbookParts {
+  workbook: string | null;
+  sheets: string[];
+  sharedStrings: string | null;
+}
+
+/**
+ * [Content_Types].xml 기준으로 워크북/시트/SharedStrings 파트 찾기 (없으면 엔트리 이름으로 추정)
+ */
+function locateWorkbookParts(buffer: Buffer, archive: ZipArchive): WorkbookParts {
+  const parts: WorkbookParts = { workbook: null, sheets: [], sharedStrings: null };
+  const contentTypes = readZipText(buffer, archive, '[Content_Types].xml');
+  
+  if (contentTypes) {
+    const overrides = contentTypes.match(/<Override\b[^>]*>/g) || [];
+    overrides.forEach(override => {
+      const partName = override.match(/PartName="([^"]+)"/);
+      const contentType = override.match(/ContentType="([^"]+)"/);
+      if (!partName || !contentType) return;
       
-      if (workbook && workbook.SheetNames && workbook.SheetNames.length > 0) {
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: null }) as any[][];
-        
-        console.log(`📊 옵션 ${i + 1} 결과: ${jsonData.length}행, 첫 행: ${jsonData[0]?.length || 0}개 컬럼`);
-        
-        // 실제 데이터가 있는지 확인 (1행이라도 유효한 헤더가 있으면 성공)
-        if (jsonData.length > 0 && jsonData[0] && jsonData[0].length > 0) {
-          // 첫 번째 행이 모두 null/undefined가 아닌지 확인
-          const hasValidHeader = jsonData[0].some(cell => cell !== null && cell !== undefined && cell !== '');
-          
-          if (hasValidHeader) {
-            console.log('✅ 유효한 데이터 발견! 헤더:', jsonData[0].slice(0, 5));
-            console.log('📋 전체 헤더:', jsonData[0]);
-            console.log(`📊 총 ${jsonData.length}행, ${jsonData[0].length}개 컬럼`);
-            
-            // 1행만 있어도 유효한 Excel 파일로 처리
-            const normalizedWorkbook = normalizeWorkbook(workbook);
-            const outputBuffer = XLSX.write(normalizedWorkbook, { type: 'buffer', bookType: 'xlsx' });
-            console.log('✅ XLSX.read 성공으로 변환 완료');
-            return outputBuffer;
-          } else {
-            console.log('❌ 헤더가 모두 비어있음:', jsonData[0]);
-          }
-        } else {
-          console.log('❌ 데이터가 없거나 구조가 잘못됨');
-        }
+      const name = partName[1].replace(/^\//, '');
+      if (/\.main\+xml$/.test(contentType[1]) && /sheet|template/i.test(contentType[1])) {
+        parts.workbook = name;
+      } else if (/spreadsheetml\.worksheet\+xml$/.test(contentType[1])) {
+        parts.sheets.push(name);
+      } else if (/spreadsheetml\.sharedStrings\+xml$/.test(contentType[1])) {
+        parts.sharedStrings = name;
       }
-    } catch (error) {
-      console.log(`❌ 옵션 ${i + 1} 실패:`, error instanceof Error ? error.message : String(error));
-    }
+    });
+    console.log('📋 [Content_Types].xml 파트:', parts);
+  } else {
+    console.log('⚠️ [Content_Types].xml 없음, 엔트리 이름으로 파트 추정');
   }
   
-  console.log('❌ 모든 XLSX.read 옵션 실패, ZIP 구조 분석으로 전환');
+  // Content Types에 없는 파트는 표준 경로로 보완
+  const names = archive.entries.map(entry => entry.name.replace(/^\//, ''));
+  if (!parts.workbook) {
+    parts.workbook = names.find(name => /^xl\/workbook\.xml$/i.test(name)) || null;
+  }
+  if (!parts.sharedStrings) {
+    parts.sharedStrings = names.find(name => /^xl\/sharedStrings\.xml$/i.test(name)) || null;
+  }
+  names
+    .filter(name => /^xl\/worksheets\/[^/]+\.xml$/i.test(name))
+    .forEach(name => {
+      if (!parts.sheets.some(sheet => sheet.toLowerCase() === name.toLowerCase())) {
+        parts.sheets.push(name);
+      }
+    });
   
-  // 2. ZIP 구조 분석 (기존 로직)
-  console.log('🔍 파일 구조 분석 시작');
-  const header = buffer.slice(0, 100);
-  console.log('📄 파일 헤더 (처음 100바이트):', header.toString('hex').substring(0, 200));
-  console.log('📄 파일 헤더 (ASCII):', header.toString('ascii').replace(/[^\x20-\x7E]/g, '.'));
+  // sheet1, sheet2, ... sheet10 순서 유지
+  const sheetNumber = (name: string) => parseInt((name.match(/(\d+)\.xml$/i) || ['', '0'])[1], 10);
+  parts.sheets.sort((a, b) => sheetNumber(a) - sheetNumber(b));
   
-  // ZIP 파일 내부 구조 확인 및 압축 해제
-  if (buffer[0] === 0x50 && buffer[1] === 0x4B) {
-    console.log('🔍 ZIP 파일 구조 분석 및 압축 해제 시도');
-    try {
-      // JSZip 라이브러리 대신 간단한 ZIP 엔트리 찾기
-      const textContent = buffer.toString('latin1'); // 바이너리 데이터 보존
-      
-      // SharedStrings.xml 파일 찾기
-      const sharedStringsIndex = textContent.indexOf('xl/sharedStrings.xml');
-      if (sharedStringsIndex !== -1) {
-        console.log('📋 SharedStrings.xml 파일 위치 발견:', sharedStringsIndex);
-        
-        // ZIP 엔트리 헤더 분석하여 압축된 데이터 위치 찾기
-        const zipEntryStart = textContent.lastIndexOf('PK\x03\x04', sharedStringsIndex);
-        if (zipEntryStart !== -1) {
-          console.log('📋 SharedStrings ZIP 엔트리 시작 위치:', zipEntryStart);
-          
-          // 압축된 데이터 추출 시도 (간단한 방법)
-          const afterEntry = textContent.substring(zipEntryStart + 30); // ZIP 헤더 스킵
-          const nextPKIndex = afterEntry.indexOf('PK');
-          const compressedData = nextPKIndex !== -1 ? afterEntry.substring(0, nextPKIndex) : afterEntry.substring(0, 1000);
-          
-          console.log('📋 압축된 데이터 길이:', compressedData.length);
-          
-          // 압축 해제 시도 (여러 방법)
-          const decompressedData = await tryDecompressData(compressedData);
-          if (decompressedData) {
-            console.log('✅ 압축 해제 성공, XML 파싱 시도');
-            return await extractDataFromSharedStrings(buffer, filename, decompressedData);
-          }
-        }
-      }
-      
-      // Worksheet 파일 찾기
-      const worksheetIndex = textContent.indexOf('xl/worksheets/sheet1.xml');
-      if (worksheetIndex !== -1) {
-        console.log('📋 Worksheet.xml 파일 위치 발견:', worksheetIndex);
-        
-        const zipEntryStart = textContent.lastIndexOf('PK\x03\x04', worksheetIndex);
-        if (zipEntryStart !== -1) {
-          const afterEntry = textContent.substring(zipEntryStart + 30);
-          const nextPKIndex = afterEntry.indexOf('PK');
-          const compressedData = nextPKIndex !== -1 ? afterEntry.substring(0, nextPKIndex) : afterEntry.substring(0, 2000);
-          
-          const decompressedData = await tryDecompressData(compressedData);
-          if (decompressedData) {
-            console.log('✅ Worksheet 압축 해제 성공, XML 파싱 시도');
-            return await extractDataFromWorksheet(buffer, filename, decompressedData);
-          }
+  return parts;
+}
+
+/**
+ * ZIP 내부 상대 경로 해석 (../ 처리)
+ */
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.substring(1);
+  
+  const segments = (baseDir ? baseDir.split('/') : []).concat(target.split('/'));
+  const resolved: string[] = [];
+  segments.forEach(segment => {
+    if (segment === '..') resolved.pop();
+    else if (segment && segment !== '.') resolved.push(segment);
+  });
+  return resolved.join('/');
+}
+
+/**
+ * workbook.xml과 rels로 원래 탭 이름과 시트 파트 매핑
+ */
+function resolveSheetTabs(buffer: Buffer, archive: ZipArchive, parts: WorkbookParts): SheetTab[] {
+  const tabs: SheetTab[] = [];
+  const workbookContent = parts.workbook ? readZipText(buffer, archive, parts.workbook) : null;
+  
+  if (workbookContent && parts.workbook) {
+    const workbookDir = parts.workbook.substring(0, parts.workbook.lastIndexOf('/') + 1);
+    const relsPath = `${workbookDir}_rels/${parts.workbook.substring(workbookDir.length)}.rels`;
+    const relsContent = readZipText(buffer, archive, relsPath);
+    
+    // 관계 ID → 시트 파트 경로
+    const targets: { [id: string]: string } = {};
+    if (relsContent) {
+      (relsContent.match(/<(?:\w+:)?Relationship\b[^>]*>/g) || []).forEach(relationship => {
+        const id = readXmlAttribute(relationship, 'Id');
+        const target = readXmlAttribute(relationship, 'Target');
+        if (id && target) {
+          targets[id] = resolvePartPath(workbookDir.replace(/\/$/, ''), target);
         }
-      }
-      
-    } catch (error) {
-      console.log('❌ ZIP 구조 분석 실패:', error instanceof Error ? error.message : String(error));
+      });
+    } else {
+      console.log('⚠️ 워크북 rels 없음, 시트 순서로 파트 매핑:', relsPath);
     }
+    
+    const sheetElements = workbookContent.match(/<(?:\w+:)?sheet\b[^>]*>/g) || [];
+    sheetElements.forEach((element, index) => {
+      const name = decodeXmlEntities(readXmlAttribute(element, 'name') || `Sheet${index + 1}`);
+      const relationId = (element.match(/\b(?:\w+:)?id="([^"]*)"/) || [])[1];
+      const part = relsContent
+        ? (relationId && targets[relationId]) || null
+        : parts.sheets[index] || null;
+      tabs.push({ name, part: part && findZipEntry(archive, part) ? part : null });
+    });
+  } else {
+    console.log('⚠️ workbook.xml을 읽을 수 없음, 시트 파트 이름으로 탭 구성');
   }
   
-  // 다양한 Excel 파서 옵션으로 시도 (백업)
-  const fallbackReadOptions = [
-    // 구 Excel 파일용 옵션들
-    { type: 'buffer' as const, codepage: 949, cellText: false, cellDates: true }, // CP949/EUC-KR
-    { type: 'buffer' as const, codepage: 1200, cellText: false, cellDates: true }, // UTF-16
-    { type: 'buffer' as const, codepage: 65001, cellText: false, cellDates: true }, // UTF-8
-    { type: 'buffer' as const, cellText: false, cellDates: true, raw: true }, // 원본 데이터
-    { type: 'buffer' as const, cellText: true, cellDates: false, raw: false }, // 텍스트 변환
-    { type: 'buffer' as const, cellFormula: false, cellHTML: false }, // 기본 옵션
-  ];
+  // workbook.xml에 없는 시트 파트도 복구 대상에 포함
+  parts.sheets.forEach(part => {
+    if (!tabs.some(tab => tab.part !== null && tab.part.toLowerCase() === part.toLowerCase())) {
+      tabs.push({ name: part.replace(/^.*\//, '').replace(/\.xml$/i, ''), part });
+    }
+  });
   
-  for (let i = 0; i < fallbackReadOptions.length; i++) {
-    try {
-      console.log(`🔧 Excel 파서 옵션 ${i + 1} 시도:`, fallbackReadOptions[i]);
-      const workbook = XLSX.read(buffer, fallbackReadOptions[i]);
+  console.log('📋 복구 대상 탭:', tabs);
+  return tabs;
+}
+
+// 표준 파서 읽기 옵션 (구 Excel, 한셀, 최신 Excel, 코드페이지별)
+// - 날짜는 일련번호로 읽고(cellDates: false) 표시 형식(cellNF)을 함께 읽어 그대로 유지
+// - 열 너비/행 높이/숨김은 cellStyles일 때만 읽힘
+const EXCEL_READ_OPTIONS: XLSX.ParsingOptions[] = [
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: false },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: true, cellDates: false, raw: false },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: true },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: true, cellDates: false, raw: true },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: false, codepage: 949 },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: true, cellDates: false, raw: false, codepage: 949 },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: true, codepage: 949 },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: false, codepage: 1200 },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: false, codepage: 65001 },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: false, bookVBA: true },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellText: false, cellDates: false, raw: false, bookSheets: true, bookProps: true },
+  { type: 'buffer', cellNF: true, cellStyles: true, cellFormula: false, cellHTML: false },
+];
+
+// 텍스트 파일(CSV/TSV)용 읽기 옵션
+const TEXT_READ_OPTIONS: XLSX.ParsingOptions[] = [
+  { type: 'buffer', cellDates: true, cellNF: false, cellText: false, codepage: 65001, raw: true },
+];
+
+/**
+ * 첫 번째 시트의 첫 행에 값이 있는지 확인
+ */
+function hasValidHeader(workbook: XLSX.WorkBook): boolean {
+  if (!workbook || workbook.SheetNames.length === 0) {
+    return false;
+  }
+  const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: null, raw: false }) as any[][];
+  return rows.length > 0 && !!rows[0] && rows[0].some(cell => cell !== null && cell !== undefined && String(cell).trim() !== '');
+}
+
+/**
+ * 스프레드시트 컨테이너(또는 그렇게 보이는 확장자)인지 확인
+ */
+function isSpreadsheetFile(context: StrategyContext): boolean {
+  return context.detectedFormat === 'zip' ||
+    context.detectedFormat === 'cfb' ||
+    context.extension === 'xlsx' ||
+    context.extension === 'xls';
+}
+
+// 전략 간에 인코딩 감지 결과 공유 (변환 한 번에 한 번만 감지)
+const encodingDetections = new WeakMap<StrategyContext, EncodingDetection>();
+
+/**
+ * 변환 대상 텍스트의 인코딩 감지 (사용자가 지정한 인코딩 우선)
+ */
+function detectContextEncoding(context: StrategyContext): EncodingDetection {
+  let detection = encodingDetections.get(context);
+  if (!detection) {
+    detection = detectEncoding(context.buffer, context.options.encoding);
+    console.log(`🔤 인코딩 감지: ${detection.encoding} (신뢰도 ${detection.confidence})`, detection.mojibake ? '깨진 글자 패턴 발견' : '');
+    encodingDetections.set(context, detection);
+  }
+  return detection;
+}
+
+/**
+ * 표준 파서(UTF-8 고정)로 읽어도 되는 텍스트인지 (다른 인코딩이나 깨진 글자는 텍스트 복구로)
+ */
+function isPlainUtf8Text(context: StrategyContext): boolean {
+  const detection = detectContextEncoding(context);
+  return detection.encoding === 'utf8' && !detection.mojibake;
+}
+
+/**
+ * 고정 폭이나 인쇄 보고서, 헤더가 첫 행이 아닌 표로 보이는 텍스트인지
+ * - 표준 파서는 공백 열을 구분하지 못하고 반복 헤더, 페이지 번호, 헤더 위의 제목을 정리하지 않으므로 텍스트 복구로
+ */
+function isFormattedText(context: StrategyContext): boolean {
+  return isFormattedSample(context.buffer, detectContextEncoding(context).encoding);
+}
+
+function isFormattedSample(buffer: Buffer, encoding: string): boolean {
+  const sample = iconv.decode(buffer.subarray(0, TEXT_CHUNK_SIZE), encoding);
+  const lines = splitTextLines(sample);
+  if (detectFixedWidthColumns(lines) !== null || looksLikePrintedReport(lines)) {
+    return true;
+  }
+  const header = detectHeaderPosition(parseCsv(sample, { delimiter: detectDelimiter(sample) }));
+  return header.row > 0 || header.rows > 1;
+}
+
+/**
+ * ZIP 아카이브와 워크북 파트 위치 읽기
+ */
+function readWorkbookArchive(buffer: Buffer): { archive: ZipArchive; parts: WorkbookParts } {
+  const archive = readZipArchive(buffer);
+  return { archive, parts: locateWorkbookParts(buffer, archive) };
+}
+
+/**
+ * SheetJS가 읽지 않는 시트 정보를 시트에 붙임 (.xlsx는 시트 XML, .xls는 BIFF 레코드에서 읽음)
+ * - 틀 고정/창 나누기 (레이아웃 보존 모드만)
+ * - 데이터 유효성 검사
+ */
+function attachSheetExtras(context: StrategyContext, workbook: XLSX.WorkBook): void {
+  const withPanes = context.options.preserveLayout !== false;
+  const attach = (name: string, key: string, value: any) => {
+    if (workbook.Sheets[name]) {
+      workbook.Sheets[name][key] = value;
+    }
+  };
+  try {
+    if (context.detectedFormat === 'zip') {
+      const { archive, parts } = readWorkbookArchive(context.buffer);
+      resolveSheetTabs(context.buffer, archive, parts).forEach(tab => {
+        const sheetXml = tab.part ? readZipText(context.buffer, archive, tab.part) : null;
+        if (!sheetXml) return;
+        const pane = withPanes ? parseSheetPane(sheetXml) : null;
+        if (pane) {
+          attach(tab.name, PANE_KEY, pane);
+        }
+        const validations = parseDataValidations(sheetXml);
+        if (validations.length > 0) {
+          attach(tab.name, VALIDATIONS_KEY, validations);
+        }
+      });
+    } else if (context.detectedFormat === 'cfb') {
+      const panes = withPanes ? readBiffSheetPanes(context.buffer) : {};
+      Object.keys(panes).forEach(name => attach(name, PANE_KEY, panes[name]));
+      const validations = readBiffDataValidations(context.buffer);
+      Object.keys(validations).forEach(name => attach(name, VALIDATIONS_KEY, validations[name]));
+    }
+  } catch (error) {
+    console.log('⚠️ 틀 고정, 유효성 검사 정보 읽기 실패:', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * 내장 변환 전략 (높은 우선순위부터 실행)
+ */
+const BUILTIN_STRATEGIES: ConversionStrategy[] = [
+  {
+    // .xls로 저장된 HTML 표
+    name: 'html-table',
+    priority: 100,
+    fidelity: 'normalized',
+    detect: context => context.detectedFormat === 'html',
+    attempt: async context => ({ workbook: normalizeWorkbook(parseHtmlWorkbook(context.buffer), context.options) }),
+    score: result => scoreByFidelity(result.workbook, 'normalized'),
+  },
+  {
+    // SpreadsheetML 2003 (Excel 2003 XML)
+    name: 'spreadsheetml',
+    priority: 100,
+    fidelity: 'normalized',
+    detect: context => context.detectedFormat === 'spreadsheetml',
+    attempt: async context => ({ workbook: normalizeWorkbook(parseSpreadsheetMl(context.buffer), context.options) }),
+    score: result => scoreByFidelity(result.workbook, 'normalized'),
+  },
+  {
+    // 표준 파서 (옵션을 바꿔가며 첫 행이 비어있지 않은 결과 채택)
+    name: 'xlsx-read',
+    priority: 90,
+    fidelity: 'exact',
+    detect: context => isSpreadsheetFile(context) ||
+      (!context.forceTextRecovery &&
+        !hasTextOverrides(context.options) &&
+        (context.detectedFormat !== 'text' || (isPlainUtf8Text(context) && !isFormattedText(context)))),
+    attempt: async context => {
+      const readOptions = isSpreadsheetFile(context) ? EXCEL_READ_OPTIONS : TEXT_READ_OPTIONS;
+      let lastReason = '첫 행이 비어있음';
       
-      if (workbook.SheetNames.length === 0) {
-        console.log(`❌ 옵션 ${i + 1}: 시트가 없음`);
-        continue;
+      for (let i = 0; i < readOptions.length; i++) {
+        try {
+          console.log(`🔧 XLSX.read 옵션 ${i + 1}/${readOptions.length} 시도:`, readOptions[i]);
+          // XLSX.read가 옵션 객체에 파싱 상태(password, WTF, xlmeta 등)를 써넣으므로 요청마다 사본으로
+          const workbook = XLSX.read(context.buffer, { ...readOptions[i] });
+          if (hasValidHeader(workbook)) {
+            console.log(`✅ 옵션 ${i + 1}로 읽기 성공, 시트:`, workbook.SheetNames);
+            if (context.detectedFormat === 'text') {
+              recordEncoding(context.report, detectContextEncoding(context));
+            } else {
+              attachSheetExtras(context, workbook);
+            }
+            // 텍스트는 유지할 레이아웃이 없으므로 헤더 위의 행을 빼고 열 이름을 정리한 표로
+            const options = context.detectedFormat === 'text' ? { ...context.options, preserveLayout: false } : context.options;
+            return { workbook: normalizeWorkbook(workbook, options), detail: `읽기 옵션 ${i + 1}/${readOptions.length}` };
+          }
+          console.log(`❌ 옵션 ${i + 1}: 첫 행이 비어있음`);
+        } catch (error) {
+          lastReason = error instanceof Error ? error.message : String(error);
+          console.log(`❌ 옵션 ${i + 1} 실패:`, lastReason);
+          if (/password-protected|encrypted/i.test(lastReason)) {
+            throw new ConversionError('ENCRYPTED', '암호로 보호된 파일입니다.', { engine: 'xlsx', reason: lastReason });
+          }
+        }
       }
+      throw new Error(`읽기 옵션 ${readOptions.length}개 모두 실패 (${lastReason})`);
+    },
+    score: result => scoreByFidelity(result.workbook, 'exact'),
+  },
+  {
+    // 손상된 CFB(OLE) 컨테이너 복구 후 표준 파서 재시도 (구 .xls)
+    name: 'cfb-repair',
+    priority: 80,
+    fidelity: 'normalized',
+    detect: context => context.detectedFormat === 'cfb',
+    attempt: async context => {
+      const repaired = repairWorkbookStream(context.buffer);
+      if (!repaired) {
+        return null;
+      }
+      console.log('🔧 CFB 복구 적용:', repaired.repairs.length > 0 ? repaired.repairs : ['복구 필요 없음']);
+      context.report.repairs = repaired.repairs;
       
-      // 첫 번째 시트 데이터 확인
-      const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-      const testData = XLSX.utils.sheet_to_json(firstSheet, { 
-        header: 1, 
-        defval: null,
-        raw: false,
-        blankrows: false
-      }) as any[][];
-      
-      console.log(`📊 옵션 ${i + 1} 결과: ${testData.length}행`);
-      if (testData.length > 0 && testData[0]) {
-        console.log(`📋 첫 행 샘플:`, testData[0].slice(0, 5));
+      const workbook = XLSX.read(rebuildCfbContainer(repaired), { type: 'buffer', cellNF: true, cellStyles: true });
+      return hasValidHeader(workbook) ? { workbook: normalizeWorkbook(workbook, context.options), detail: { repairs: repaired.repairs } } : null;
+    },
+    score: result => scoreByFidelity(result.workbook, 'normalized'),
+  },
+  {
+    // 복구된 엔트리만으로 ZIP을 다시 묶어 표준 파서 재시도
+    name: 'zip-rebuild',
+    priority: 80,
+    fidelity: 'normalized',
+    detect: context => context.detectedFormat === 'zip',
+    attempt: async context => {
+      const archive = readZipArchive(context.buffer);
+      const rebuilt = rebuildZip(context.buffer, archive);
+      if (!rebuilt) {
+        return null;
+      }
+      const workbook = XLSX.read(rebuilt, { type: 'buffer', cellNF: true, cellStyles: true });
+      return hasValidHeader(workbook)
+        ? { workbook: normalizeWorkbook(workbook, context.options), detail: { centralDirectoryIntact: archive.centralDirectoryIntact } }
+        : null;
+    },
+    score: result => scoreByFidelity(result.workbook, 'normalized'),
+  },
+  {
+    // 모든 Worksheet 파트를 원래 탭 이름으로 셀 주소 기준 복원
+    name: 'worksheet-xml-salvage',
+    priority: 70,
+    fidelity: 'partial',
+    detect: context => context.detectedFormat === 'zip',
+    attempt: async context => {
+      const { archive, parts } = readWorkbookArchive(context.buffer);
+      const tabs = resolveSheetTabs(context.buffer, archive, parts);
+      if (tabs.length === 0) {
+        return null;
       }
       
-      // 유효한 데이터가 있는지 확인
-      if (testData.length > 0 && testData[0] && 
-          testData[0].some(cell => cell && String(cell).trim() !== '')) {
-        console.log(`✅ 옵션 ${i + 1}로 Excel 파일 읽기 성공!`);
-        
-        // 정규화 처리
-        console.log('🔧 Excel 데이터 정규화 시작');
-        const normalizedWorkbook = normalizeWorkbook(workbook);
-        
-        // .xlsx 파일로 출력
-        const outputBuffer = XLSX.write(normalizedWorkbook, { 
-          type: 'buffer', 
-          bookType: 'xlsx',
-          compression: true 
-        });
-        
-        console.log(`✅ Excel 파일 정규화 완료: ${outputBuffer.length} bytes`);
-        return outputBuffer;
+      // SharedStrings 테이블 복구 (셀의 t="s" 인덱스 해석용)
+      const sharedStringsContent = parts.sharedStrings ? readZipText(context.buffer, archive, parts.sharedStrings) : null;
+      const sharedStrings = sharedStringsContent ? parseSharedStringsTable(sharedStringsContent) : [];
+      const tabContents = tabs.map(tab => ({
+        name: tab.name,
+        content: tab.part ? readZipText(context.buffer, archive, tab.part) : null,
+      }));
+      return extractDataFromWorksheets(tabContents, sharedStrings);
+    },
+    score: result => scoreByFidelity(result.workbook, 'partial'),
+  },
+  {
+    // BIFF8 레코드 단위 복구 (Workbook 스트림의 SST, 셀 레코드 직접 해석)
+    name: 'biff-record-salvage',
+    priority: 60,
+    fidelity: 'partial',
+    detect: context => context.detectedFormat === 'cfb' || (context.detectedFormat === 'binary' && context.extension === 'xls'),
+    attempt: async context => {
+      const salvaged = salvageBiffWorkbook(context.buffer);
+      if (!salvaged) {
+        return null;
       }
-    } catch (error) {
-      console.log(`❌ 옵션 ${i + 1} 실패:`, error instanceof Error ? error.message : String(error));
-    }
+      console.log(`✅ BIFF8 레코드 복구 성공: ${salvaged.workbook.SheetNames.length}개 시트`);
+      return { workbook: normalizeWorkbook(salvaged.workbook, context.options), detail: { skippedRecords: salvaged.skippedRecords } };
+    },
+    score: result => scoreByFidelity(result.workbook, 'partial'),
+  },
+  {
+    // 텍스트 기반 복구 (CSV/TSV 파싱)
+    name: 'text-recovery',
+    priority: 50,
+    fidelity: 'normalized',
+    detect: context => !isSpreadsheetFile(context),
+    // textBasedRecovery가 열 단위로 타입 변환까지 마친 워크북을 반환
+    attempt: async context => ({ workbook: textBasedRecovery(context.buffer, context.report, context.options, detectContextEncoding(context)) }),
+    score: result => scoreByFidelity(result.workbook, 'normalized'),
+  },
+  {
+    // 시트를 읽지 못하면 SharedStrings 텍스트라도 추출
+    name: 'shared-strings-text',
+    priority: 30,
+    fidelity: 'salvage',
+    detect: context => context.detectedFormat === 'zip',
+    attempt: async context => {
+      const { archive, parts } = readWorkbookArchive(context.buffer);
+      const sharedStringsContent = parts.sharedStrings ? readZipText(context.buffer, archive, parts.sharedStrings) : null;
+      return sharedStringsContent ? { workbook: extractDataFromSharedStrings(sharedStringsContent) } : null;
+    },
+    score: result => scoreByFidelity(result.workbook, 'salvage'),
+  },
+  {
+    // 원본 파일에서 한글/업무 키워드 스캔
+    name: 'meaningful-text-scan',
+    priority: 20,
+    fidelity: 'salvage',
+    detect: context => context.detectedFormat === 'zip',
+    attempt: async context => ({ workbook: findMeaningfulTextInBuffer(context.buffer, context.filename) }),
+    score: result => scoreByFidelity(result.workbook, 'salvage'),
+  },
+  {
+    // 바이너리에서 텍스트 라인 추출
+    name: 'binary-text-scan',
+    priority: 10,
+    fidelity: 'salvage',
+    detect: isSpreadsheetFile,
+    attempt: async context => ({ workbook: extractBinaryTextWorkbook(context.buffer, context.filename) }),
+    score: result => scoreByFidelity(result.workbook, 'salvage'),
+  },
+];
+
+BUILTIN_STRATEGIES.forEach(registerStrategy);
+
+/**
+ * 환경 변수로 비활성화한 전략 이름 (쉼표 구분)
+ */
+function getDisabledStrategies(): string[] {
+  return (process.env.DISABLED_CONVERSION_STRATEGIES || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+}
+
+// 이 값보다 낮은 인코딩 감지 신뢰도는 판별 실패로 봄
+const MIN_ENCODING_CONFIDENCE = 0.3;
+
+/**
+ * 변환 결과가 없을 때 시도 기록으로 실패 원인 분류
+ */
+function classifyConversionFailure(context: StrategyContext): ConversionError {
+  const failures = context.report.attempts.filter(attempt => !attempt.success);
+  const details = {
+    detectedFormat: context.detectedFormat,
+    extension: context.extension,
+    attempts: failures.map(attempt => ({ strategy: attempt.strategy, reason: attempt.reason })),
+  };
+  const lastFailure = failures[failures.length - 1];
+  const lastReason = lastFailure && lastFailure.reason ? lastFailure.reason : '적용할 수 있는 변환 방법 없음';
+
+  if (failures.length === 0) {
+    return new ConversionError('UNSUPPORTED_FORMAT', '이 파일에 적용할 수 있는 변환 방법이 없습니다.', details);
   }
-  
-  // 모든 표준 파서 실패 시 바이너리 처리로 fallback
-  console.log('🔧 모든 Excel 파서 실패, 바이너리 처리로 전환');
-  return await handleBinaryExcelFile(buffer, filename);
+  // 읽기는 됐지만 값이 있는 셀이 없음
+  const emptyResult = failures.some(attempt => attempt.reason === '값이 있는 셀 없음') &&
+    failures.every(attempt => attempt.reason === '값이 있는 셀 없음' || attempt.reason === '비활성화됨');
+  if (emptyResult || context.buffer.toString('latin1').trim() === '') {
+    return new ConversionError('EMPTY_WORKBOOK', '파일에 읽을 수 있는 데이터가 없습니다.', details);
+  }
+  if (context.detectedFormat === 'zip' || context.detectedFormat === 'cfb') {
+    return new ConversionError('CORRUPT_CONTAINER', `파일 구조가 손상되어 복구할 수 없습니다: ${lastReason}`, details);
+  }
+  // 어떤 인코딩 후보로도 읽을 만한 텍스트가 나오지 않은 경우
+  if (context.report.encodingConfidence !== undefined && context.report.encodingConfidence < MIN_ENCODING_CONFIDENCE) {
+    return new ConversionError('ENCODING_UNDETERMINED', '텍스트 인코딩을 판별할 수 없습니다.', {
+      ...details,
+      encoding: context.report.encoding,
+      confidence: context.report.encodingConfidence,
+      candidates: context.report.encodingCandidates,
+    });
+  }
+  if (context.detectedFormat === 'binary') {
+    return new ConversionError('UNSUPPORTED_FORMAT', `지원하지 않는 파일 내용입니다: ${lastReason}`, details);
+  }
+  return new ConversionError('EMPTY_WORKBOOK', `파일에서 데이터를 찾지 못했습니다: ${lastReason}`, details);
 }
 
 /**
- * 바이너리 Excel 파일을 텍스트로 변환하여 새로운 Excel 파일로 저장
+ * 암호화된 파일 복호화 (암호를 지정하지 않았으면 Excel 기본 암호로 시도)
+ * - 암호는 로그, 리포트, 오류 상세에 남기지 않음
  */
-async function handleBinaryExcelFile(buffer: Buffer, filename: string): Promise<Buffer> {
-  console.log('🔧 바이너리 Excel 파일 처리 시작');
-  
+function decryptInput(buffer: Buffer, encryption: EncryptionScheme, password: string | undefined, report: ConversionReport): Buffer {
+  console.log(`🔒 암호화된 파일 감지: ${encryption}`);
+  report.encryption = encryption;
+  const details = { detectedFormat: 'cfb', encryption, passwordProvided: password !== undefined };
+
+  let decrypted: Buffer | null;
   try {
-    // 표준 Excel 파서로 직접 읽기 (다양한 옵션 시도)
-    console.log('🔧 표준 Excel 파서로 직접 읽기 시도');
-    
-    const readOptions = [
-      { type: 'buffer' as const, cellText: false, cellDates: true, raw: true },
-      { type: 'buffer' as const, cellText: true, cellDates: false, raw: false },
-      { type: 'buffer' as const, cellText: false, cellDates: false, raw: false },
-      { type: 'buffer' as const, cellFormula: false, cellHTML: false }
-    ];
-    
-    let workbook: XLSX.WorkBook | null = null;
-    let successfulOption = -1;
-    
-    for (let i = 0; i < readOptions.length; i++) {
-      try {
-        console.log(`🔧 옵션 ${i + 1} 시도:`, readOptions[i]);
-        const testWorkbook = XLSX.read(buffer, readOptions[i]);
-        
-        // 데이터가 있는지 확인
-        const firstSheet = testWorkbook.Sheets[testWorkbook.SheetNames[0]];
-        const testData = XLSX.utils.sheet_to_json(firstSheet, { 
-          header: 1, 
-          defval: null,
-          raw: false,
-          blankrows: false
-        }) as any[][];
-        
-        console.log(`📊 옵션 ${i + 1} 결과: ${testData.length}행, 첫 행:`, testData[0]?.slice(0, 3));
-        
-        if (testData.length > 0 && testData[0] && testData[0].some(cell => cell && String(cell).trim() !== '')) {
-          console.log(`✅ 옵션 ${i + 1}로 성공! 유효한 데이터 발견`);
-          workbook = testWorkbook;
-          successfulOption = i;
-          break;
-        }
-      } catch (error) {
-        console.log(`❌ 옵션 ${i + 1} 실패:`, error instanceof Error ? error.message : String(error));
-      }
-    }
-    
-    if (!workbook) {
-      console.log('🔧 모든 표준 파서 옵션 실패, JSON 변환 방식 시도');
-      return await convertBinaryToJsonToXlsx(buffer, filename);
-    }
-    
-    console.log(`✅ 표준 파서 성공 (옵션 ${successfulOption + 1})`);
-    
-    // 정상적인 Excel 데이터 처리 및 정규화
-    console.log('🔧 Excel 데이터 정규화 시작');
-    
-    // 정규화된 워크북 생성
-    const normalizedWorkbook = normalizeWorkbook(workbook);
-    
-    console.log('✅ Excel 데이터 정규화 완료');
-    
-    // 정규화된 워크북을 .xlsx 파일로 출력
-    const outputBuffer = XLSX.write(normalizedWorkbook, { 
-      type: 'buffer', 
-      bookType: 'xlsx',
-      compression: true 
-    });
-    
-    console.log(`✅ 정규화된 Excel 파일 생성 완료: ${outputBuffer.length} bytes`);
-    return outputBuffer;
-    
+    decrypted = decryptWorkbook(buffer, password !== undefined ? password : DEFAULT_PASSWORD);
   } catch (error) {
-    console.error('❌ 바이너리 파일 처리 실패:', error instanceof Error ? error.message : String(error));
-    
-    // 실패 시 원본 파일의 내용을 텍스트로 표시
-    console.log('🔄 원본 파일 내용을 텍스트로 변환 시도');
-    
-    const textContent = buffer.toString('utf8', 0, Math.min(buffer.length, 10000)); // 처음 10KB만
-    const lines = textContent.split('\n').slice(0, 100); // 처음 100줄만
-    
-    const fallbackData = [
-      ['파일명', '내용', '비고'],
-      [filename, '바이너리 파일 - 텍스트 변환', `원본 크기: ${buffer.length} bytes`],
-      ...lines.map((line, index) => [`라인 ${index + 1}`, line.substring(0, 500), ''])
-    ];
-    
-    const fallbackWorkbook = XLSX.utils.book_new();
-    const fallbackWorksheet = XLSX.utils.aoa_to_sheet(fallbackData);
-    XLSX.utils.book_append_sheet(fallbackWorkbook, fallbackWorksheet, 'Sheet1');
-    
-    return XLSX.write(fallbackWorkbook, { 
-      type: 'buffer', 
-      bookType: 'xlsx',
-      compression: true 
+    throw new ConversionError('ENCRYPTED', '지원하지 않는 방식으로 암호화된 파일입니다.', {
+      ...details,
+      reason: error instanceof Error ? error.message : String(error),
     });
   }
+  if (!decrypted) {
+    const message = password !== undefined ? '암호가 올바르지 않습니다.' : '암호로 보호된 파일입니다. 암호를 입력해주세요.';
+    throw new ConversionError('ENCRYPTED', message, details);
+  }
+  console.log(`🔓 복호화 완료: ${decrypted.length} bytes`);
+  return decrypted;
 }
 
 /**
- * 메인 변환 함수
+ * 메인 변환 함수 (결과 형식은 options.outputFormat, 기본 .xlsx)
  */
-export async function convertToXlsx(
+export async function convertFile(
   buffer: Buffer, 
   filename: string,
-  forceTextRecovery: boolean = false
-): Promise<Buffer> {
-  console.log('🔧 convertToXlsx 함수 시작, 파일명:', filename, '크기:', buffer.length, 'bytes');
-  console.log('🔧 forceTextRecovery:', forceTextRecovery);
-  console.log('🔧 모든 파일을 호환성 향상을 위해 정규화 처리합니다');
+  options: ConvertOptions = {},
+  report: ConversionReport = createConversionReport('unknown')
+): Promise<WrittenOutput> {
+  const forceTextRecovery = !!options.forceTextRecovery;
+  console.log('🔧 convertFile 함수 시작, 파일명:', filename, '크기:', buffer.length, 'bytes');
+  console.log('🔧 변환 옵션:', { ...options, password: options.password !== undefined ? '(입력됨)' : undefined });
 
-  // 파일 형식 감지 및 적절한 처리 방식 선택
-  const fileExtension = filename.toLowerCase().split('.').pop();
-  const isZipFile = buffer.length >= 4 && 
-    buffer[0] === 0x50 && buffer[1] === 0x4B && 
-    (buffer[2] === 0x03 || buffer[2] === 0x05 || buffer[2] === 0x07);
+  // 파일 형식 감지 (확장자보다 내용을 우선)
+  const extension = filename.toLowerCase().split('.').pop() || '';
+  let detectedFormat = detectFileFormat(buffer);
+  
+  // 암호화된 파일은 복호화한 내용으로 변환 (텍스트 추출로 넘어가 의미 없는 결과가 나오지 않도록)
+  const encryption = detectedFormat === 'cfb' ? detectEncryption(buffer) : null;
+  if (encryption) {
+    buffer = decryptInput(buffer, encryption, options.password, report);
+    detectedFormat = detectFileFormat(buffer);
+  }
+  report.detectedFormat = detectedFormat;
   
-  console.log(`🔧 파일 확장자: ${fileExtension}, ZIP 시그니처: ${isZipFile}`);
+  console.log(`🔧 파일 확장자: ${extension}, 감지된 형식: ${detectedFormat}`);
   
-  // 1. 먼저 표준 Excel 파서로 직접 시도 (모든 Excel 파일)
-  if (fileExtension === 'xlsx' || fileExtension === 'xls' || isZipFile) {
-    console.log('🔧 Excel 파일 감지됨, 표준 파서 우선 시도');
-    return await handleExcelFile(buffer, filename);
+  // CSV, TSV, JSON은 레이아웃과 수식을 담지 못하므로 셀 위치를 유지하지 않고 헤더 위의 행을 뺀 표로 (첫 행이 열 이름)
+  const outputFormat = options.outputFormat || DEFAULT_OUTPUT_FORMAT;
+  if (isTableOutputFormat(outputFormat)) {
+    options = { ...options, preserveLayout: false, formulas: options.formulas === 'keep' ? 'values' : options.formulas };
   }
   
-  try {
-    let workbook: XLSX.WorkBook;
-    
-    if (!forceTextRecovery) {
-      try {
-        console.log('🔧 표준 파서 시도 중...');
-        // 1단계: 표준 파서 시도
-        workbook = XLSX.read(buffer, {
-          type: 'buffer',
-          cellDates: true,
-          cellNF: false,
-          cellText: false,
-          // 다양한 인코딩 시도
-          codepage: 65001, // UTF-8
-        });
-        console.log('🔧 XLSX.read 완료');
-        
-        // 워크북이 비어있지 않은지 확인
-        if (workbook.SheetNames.length === 0) {
-          throw new Error('빈 워크북');
-        }
-        
-        // 첫 번째 시트의 실제 데이터 확인
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(firstSheet, { 
-          header: 1, 
-          defval: null,
-          raw: false 
-        }) as any[][];
-        
-        // 헤더가 모두 비어있거나 null이면 텍스트 복구로 전환
-        const hasValidHeader = jsonData.length > 0 && 
-          jsonData[0].some(cell => cell && String(cell).trim() !== '');
-        
-        if (!hasValidHeader) {
-          console.log('⚠️ 표준 파서로 읽은 헤더가 모두 비어있음, 텍스트 복구로 전환');
-          throw new Error('헤더가 비어있음 - 텍스트 복구 필요');
-        }
-        
-        console.log('✅ 표준 파서 성공! 시트 수:', workbook.SheetNames.length);
-        console.log('📋 시트 이름들:', workbook.SheetNames);
-        const range = firstSheet['!ref'];
-        console.log('📊 첫 번째 시트 범위:', range);
-        
-        // 첫 번째 행(헤더) 확인
-        if (range) {
-          const firstRowCells = [];
-          const endCol = range.split(':')[1]?.charAt(0) || 'A';
-          const endColCode = endCol.charCodeAt(0);
-          
-          for (let i = 65; i <= Math.min(endColCode, 75); i++) { // A~K까지만 확인
-            const cellAddr = String.fromCharCode(i) + '1';
-            const cell = firstSheet[cellAddr];
-            if (cell) {
-              firstRowCells.push(cell.v || cell.w || '');
-            }
-          }
-          console.log('🏷️ 표준 파서로 읽은 헤더 (처음 10개):', firstRowCells.slice(0, 10));
-        }
-        
-      } catch (standardError) {
-        console.log('⚠️ 표준 파서 실패, 텍스트 복구 시도:', standardError instanceof Error ? standardError.message : String(standardError));
-        // 2단계: 텍스트 기반 복구
-        workbook = textBasedRecovery(buffer);
-      }
-    } else {
-      // 강제 텍스트 복구
-      workbook = textBasedRecovery(buffer);
+  const context: StrategyContext = { buffer, filename, extension, detectedFormat, forceTextRecovery, options, report };
+  const outcome = await runStrategies(context, { disabled: getDisabledStrategies() });
+  
+  if (!outcome) {
+    throw classifyConversionFailure(context);
+  }
+  
+  console.log(`✅ 전략 "${outcome.strategy.name}" 채택 (점수 ${outcome.score.toFixed(2)})`);
+  completeReport(report, outcome.strategy.name, outcome.strategy.fidelity, outcome.result.workbook);
+  report.score = outcome.score;
+  report.quality = scoreWorkbookQuality(outcome.result.workbook);
+  
+  const layout = layoutReports.get(outcome.result.workbook);
+  if (layout) {
+    report.layout = layout;
+    if (layout.dropped.length > 0) {
+      console.log('⚠️ 유지하지 못한 레이아웃:', layout.dropped);
     }
-    
-    // 3단계: 데이터 정규화
-    console.log('🔧 데이터 정규화 시작...');
-    const normalizedWorkbook = normalizeWorkbook(workbook);
-    console.log('🔧 데이터 정규화 완료');
-    
-    // 4단계: .xlsx로 변환
-    console.log('🔧 .xlsx 버퍼 생성 시작...');
-    const xlsxBuffer = XLSX.write(normalizedWorkbook, {
-      type: 'buffer',
-      bookType: 'xlsx',
-      compression: true,
-      cellDates: true,
-    });
-    console.log('🔧 .xlsx 버퍼 생성 완료, 크기:', xlsxBuffer.length, 'bytes');
-    
-    return Buffer.from(xlsxBuffer);
-    
-  } catch (error) {
-    console.error('변환 실패:', error);
-    throw new Error(`파일 변환에 실패했습니다: ${error instanceof Error ? error.message : String(error)}`);
   }
+  
+  const formulas = formulaReports.get(outcome.result.workbook);
+  if (formulas) {
+    report.formulas = formulas;
+    if (formulas.untranslatable.length > 0) {
+      console.log('⚠️ 옮기지 못한 수식:', formulas.untranslatable);
+    }
+  }
+  
+  const headers = headerReports.get(outcome.result.workbook);
+  if (headers) {
+    report.headers = headers;
+  }
+  
+  const annotations = annotationReports.get(outcome.result.workbook);
+  if (annotations) {
+    report.annotations = annotations;
+    if (annotations.dropped.length > 0) {
+      console.log('⚠️ 옮기지 못한 메모/링크/유효성 검사:', annotations.dropped);
+    }
+  }
+  
+  const output = writeWorkbookOutput(outcome.result.workbook, outputFormat);
+  report.outputFormat = outputFormat;
+  if (output.unmappableCharacters) {
+    report.unmappableCharacters = output.unmappableCharacters;
+  }
+  console.log('🔧 결과 파일 생성 완료:', outputFormat, output.buffer.length, 'bytes');
+  return output;
 }
 
 /**
@@ -1750,12 +1961,18 @@ export async function convertToXlsx(
  */
 export interface ConversionResult {
   success: boolean;
+  status: ConversionStatus;
   buffer?: Buffer;
   filename: string;
+  /** 결과 파일 Content-Type */
+  contentType?: string;
   originalSize: number;
   convertedSize?: number;
   message?: string;
   warnings?: string[];
+  report?: ConversionReport;
+  /** 실패 원인 (코드가 분류된 경우) */
+  error?: ConversionErrorInfo;
 }
 
 /**
@@ -1764,53 +1981,87 @@ export interface ConversionResult {
 export async function processFile(
   buffer: Buffer,
   originalFilename: string,
-  forceTextRecovery: boolean = false
+  options: ConvertOptions = {},
+  qualityThreshold: number = getQualityThreshold()
 ): Promise<ConversionResult> {
   const warnings: string[] = [];
+  const report = createConversionReport('unknown');
   
   try {
     // 파일 검증
     if (!validateFileExtension(originalFilename)) {
-      throw new Error(`지원하지 않는 파일 형식입니다. 지원 형식: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+      throw new ConversionError(
+        'UNSUPPORTED_FORMAT',
+        `지원하지 않는 파일 형식입니다. 지원 형식: ${SUPPORTED_EXTENSIONS.join(', ')}`,
+        { filename: originalFilename, supportedExtensions: SUPPORTED_EXTENSIONS }
+      );
     }
     
     if (!validateFileSize(buffer.length)) {
-      throw new Error(`파일이 너무 큽니다. 최대 크기: ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+      throw new ConversionError(
+        'LIMIT_EXCEEDED',
+        `파일이 너무 큽니다. 최대 크기: ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+        { limit: 'fileSize', size: buffer.length, maxSize: MAX_FILE_SIZE }
+      );
+    }
+    
+    const optionsError = validateConvertOptions(options);
+    if (optionsError) {
+      throw new Error(optionsError);
     }
     
     // 변환 실행
-    const convertedBuffer = await convertToXlsx(buffer, originalFilename, forceTextRecovery);
+    const output = await convertFile(buffer, originalFilename, options, report);
+    const convertedBuffer = output.buffer;
+    if (output.unmappableCharacters) {
+      warnings.push(`CP949로 표현할 수 없는 글자 ${output.unmappableCharacters}개가 ?로 바뀌었습니다. UTF-8 형식을 권장합니다.`);
+    }
     
     // 결과 파일명 생성
     const baseName = originalFilename.replace(/\.[^.]+$/, '');
     const safeBaseName = sanitizeFilename(baseName);
-    const resultFilename = `${safeBaseName}_변환완료.xlsx`;
+    const resultFilename = `${safeBaseName}_변환완료.${output.extension}`;
     
-    // 크기 비교 경고 (더 정확한 기준)
+    // 크기 비교 경고 (더 정확한 기준, 텍스트/JSON 결과는 크기를 비교할 수 없으므로 제외)
     const sizeRatio = convertedBuffer.length / buffer.length;
-    if (sizeRatio > 3) {
+    const spreadsheetOutput = ['xlsx', 'xlsb', 'ods'].indexOf(output.extension) !== -1;
+    if (spreadsheetOutput && sizeRatio > 3) {
       warnings.push('변환된 파일이 원본보다 상당히 큽니다. 데이터 확인을 권장합니다.');
-    } else if (sizeRatio < 0.1 && buffer.length > 1000) {
+    } else if (spreadsheetOutput && sizeRatio < 0.1 && buffer.length > 1000) {
       warnings.push('변환된 파일이 원본보다 상당히 작습니다. 데이터 손실이 있을 수 있습니다.');
     }
     
     console.log(`파일 크기 비교: 원본 ${buffer.length}bytes → 변환 ${convertedBuffer.length}bytes (비율: ${sizeRatio.toFixed(2)})`);
     
+    // 품질 점수가 기준 미만이면 부분 복구로 구분 (정상 결과처럼 쓰이지 않도록)
+    const score = report.score || 0;
+    const status = resolveConversionStatus(score, qualityThreshold);
+    console.log(`📊 품질 점수 ${score.toFixed(2)} (기준 ${qualityThreshold}) → ${status}`);
+    
     return {
-      success: true,
+      success: status === 'success',
+      status,
+      message: status === 'partial'
+        ? `복구 품질 점수(${score.toFixed(2)})가 기준(${qualityThreshold})보다 낮아 부분 복구로 처리되었습니다.`
+        : undefined,
       buffer: convertedBuffer,
       filename: resultFilename,
+      contentType: output.contentType,
       originalSize: buffer.length,
       convertedSize: convertedBuffer.length,
       warnings: warnings.length > 0 ? warnings : undefined,
+      report,
     };
     
   } catch (error) {
     return {
       success: false,
+      status: 'failed',
       filename: originalFilename,
       originalSize: buffer.length,
       message: error instanceof Error ? error.message : String(error),
+      report,
+      error: isConversionError(error) ? error.toJSON() : undefined,
     };
   }
 }
@@ -0,0 +1,153 @@
+/**
+ * CSV 파서 옵션
+ * - quote: 따옴표 문자 (기본 ")
+ * - escape: 따옴표 안에서 다음 문자를 그대로 쓰게 하는 문자 (기본은 quote와 같아 "" 형태)
+ * - skipEmptyLines: 값이 하나도 없는 행 제외 (기본 true)
+ */
+export interface CsvParserOptions {
+  delimiter: string;
+  quote?: string;
+  escape?: string;
+  skipEmptyLines?: boolean;
+}
+
+/**
+ * 청크 단위 CSV 파서 (push마다 완성된 행 반환, end에서 남은 행 반환)
+ */
+export interface CsvParser {
+  push(chunk: string): string[][];
+  end(): string[][];
+}
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'escapeInQuoted';
+
+/**
+ * RFC 4180 CSV 파서 생성
+ * - 따옴표 안의 구분자, 줄바꿈(CRLF/CR/LF)은 값으로 처리
+ * - 따옴표로 시작하지 않은 값 안의 따옴표는 문자 그대로 유지 (O'Reilly, 5" 등)
+ * - 청크 경계에서 잘린 따옴표/CRLF는 다음 청크와 이어서 처리
+ */
+export function createCsvParser(options: CsvParserOptions): CsvParser {
+  const delimiter = options.delimiter;
+  const quote = options.quote || '"';
+  const escape = options.escape || quote;
+  const skipEmptyLines = options.skipEmptyLines !== false;
+
+  let state: ParserState = 'fieldStart';
+  let field = '';
+  let row: string[] = [];
+  let rowQuoted = false;
+  let skipLineFeed = false;
+  let rows: string[][] = [];
+
+  function endField(): void {
+    row.push(field);
+    field = '';
+    state = 'fieldStart';
+  }
+
+  function endRow(): void {
+    endField();
+    const empty = !rowQuoted && row.every(value => value.trim() === '');
+    if (!(skipEmptyLines && empty)) {
+      rows.push(row);
+    }
+    row = [];
+    rowQuoted = false;
+  }
+
+  function take(): string[][] {
+    const completed = rows;
+    rows = [];
+    return completed;
+  }
+
+  function push(chunk: string): string[][] {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // CR 다음의 LF는 같은 줄바꿈
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      switch (state) {
+        case 'quoted':
+          if (char === escape && escape !== quote) {
+            state = 'escapeInQuoted';
+          } else if (char === quote) {
+            state = 'quoteInQuoted';
+          } else {
+            field += char;
+          }
+          break;
+
+        case 'escapeInQuoted':
+          field += char;
+          state = 'quoted';
+          break;
+
+        case 'quoteInQuoted':
+          // "" 는 따옴표 하나, 그 외에는 따옴표가 닫힌 것
+          if (char === quote && escape === quote) {
+            field += char;
+            state = 'quoted';
+            break;
+          }
+          state = 'unquoted';
+          i--;
+          break;
+
+        case 'fieldStart':
+          if (char === quote) {
+            state = 'quoted';
+            rowQuoted = true;
+            break;
+          }
+          state = 'unquoted';
+          i--;
+          break;
+
+        case 'unquoted':
+          if (char === delimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            skipLineFeed = char === '\r';
+            endRow();
+          } else if (char === quote && field.trim() === '' && field.length > 0) {
+            // 구분자 뒤 공백 다음에 오는 따옴표 (a, "b")
+            field = '';
+            state = 'quoted';
+            rowQuoted = true;
+          } else {
+            field += char;
+          }
+          break;
+      }
+    }
+    return take();
+  }
+
+  function end(): string[][] {
+    // 닫히지 않은 따옴표는 읽은 데까지 값으로 사용
+    if (state !== 'fieldStart' || field.length > 0 || row.length > 0) {
+      endRow();
+    }
+    state = 'fieldStart';
+    skipLineFeed = false;
+    return take();
+  }
+
+  return { push, end };
+}
+
+/**
+ * 문자열 전체를 한 번에 파싱
+ */
+export function parseCsv(text: string, options: CsvParserOptions): string[][] {
+  const parser = createCsvParser(options);
+  return parser.push(text).concat(parser.end());
+}
@@ -0,0 +1,42 @@
+import { strict as assert } from 'assert';
+import * as iconv from 'iconv-lite';
+import { test } from 'node:test';
+import { detectMojibake, repairMojibake } from './encodingDetection';
+
+test('CP949로 읽어 다시 저장한 UTF-8 한글 복구', () => {
+  const pattern = detectMojibake('二쇱냼 湲덉븸');
+  assert.deepEqual(pattern, { decodedAs: 'cp949', original: 'utf8' });
+  assert.equal(repairMojibake('二쇱냼 湲덉븸', pattern!), '주소 금액');
+});
+
+test('정상 한글, 한자, 라틴 문자는 깨진 글자로 보지 않음', () => {
+  ['서울특별시 강남구', '株式會社 韓國', '똠방각하', 'Café résumé'].forEach(text => {
+    assert.equal(detectMojibake(text), null, text);
+  });
+});
+
+test('UTF-8로 올바르게 읽힌 포르투갈어, 프랑스어, 독일어는 깨진 글자로 보지 않음', () => {
+  [
+    'produto,situação\nINFORMAÇÃO,ok\nAÇÕES,±5%\n',
+    'Crème brûlée à la française, où êtes-vous?',
+    'Größe, Straße, Zürich, Müßiggang, Übermaß',
+  ].forEach(text => {
+    assert.equal(detectMojibake(text), null, text);
+    assert.equal(detectMojibake(text, true), null, text);
+  });
+});
+
+test('Windows-1252로 읽어 다시 저장한 UTF-8 라틴 문자 복구', () => {
+  const text = Buffer.from('José Zürich café', 'utf8').toString('latin1');
+  assert.equal(text, 'JosÃ© ZÃ¼rich cafÃ©');
+  const pattern = detectMojibake(text, true);
+  assert.deepEqual(pattern, { decodedAs: 'windows-1252', original: 'utf8' });
+  assert.equal(repairMojibake(text, pattern!), 'José Zürich café');
+});
+
+test('EUC-KR 원문 패턴은 긴 한글 구간이 대부분일 때만 인정', () => {
+  const text = iconv.decode(iconv.encode('주소 금액 합계', 'euc-kr'), 'windows-1252');
+  assert.deepEqual(detectMojibake(text), { decodedAs: 'windows-1252', original: 'euc-kr' });
+  assert.equal(repairMojibake(text, detectMojibake(text)!), '주소 금액 합계');
+  assert.equal(detectMojibake(text, true), null);
+});
@@ -0,0 +1,358 @@
+import * as iconv from 'iconv-lite';
+import { detectAll } from 'jschardet';
+import { detectBom } from './formatDetection';
+
+/**
+ * 후보 인코딩과 신뢰도 (0~1)
+ */
+export interface EncodingCandidate {
+  encoding: string;
+  confidence: number;
+}
+
+/**
+ * 깨진 글자(mojibake) 패턴: original 바이트를 decodedAs로 잘못 읽은 뒤 다시 저장한 텍스트
+ * 예) UTF-8 "매출"을 CP949로 읽어 저장 → "留ㅼ텧", Windows-1252로 읽어 저장 → "í•œê¸€"(한글)
+ */
+export interface MojibakePattern {
+  decodedAs: string;
+  original: string;
+}
+
+/**
+ * 인코딩 감지 결과
+ */
+export interface EncodingDetection {
+  encoding: string;
+  confidence: number;
+  /** BOM으로 확정했는지 */
+  bom: boolean;
+  /** 점수 순 후보 */
+  candidates: EncodingCandidate[];
+  /** 디코딩한 표본에서 발견한 깨진 글자 패턴 */
+  mojibake: MojibakePattern | null;
+}
+
+// 점수 계산에 쓰는 앞부분 크기
+const SAMPLE_SIZE = 64 * 1024;
+
+// 후보 인코딩과 사전 가중치 (한국어 파일이 대부분이므로 UTF-8, EUC-KR 우선)
+const CANDIDATE_PRIORS: Record<string, number> = {
+  utf8: 1,
+  'euc-kr': 0.95,
+  utf16le: 0.9,
+  utf16be: 0.9,
+  shift_jis: 0.8,
+  gb18030: 0.8,
+  big5: 0.8,
+  'windows-1252': 0.6,
+};
+
+// jschardet 인코딩 이름 → 후보 이름
+const CHARDET_NAMES: Record<string, string> = {
+  'utf-8': 'utf8',
+  ascii: 'utf8',
+  'euc-kr': 'euc-kr',
+  'utf-16le': 'utf16le',
+  'utf-16be': 'utf16be',
+  shift_jis: 'shift_jis',
+  'euc-jp': 'shift_jis',
+  gb2312: 'gb18030',
+  big5: 'big5',
+  'windows-1252': 'windows-1252',
+  'iso-8859-1': 'windows-1252',
+};
+
+// 확인할 깨진 글자 패턴 (잘못 읽은 인코딩 → 원래 인코딩)
+const MOJIBAKE_PATTERNS: MojibakePattern[] = [
+  { decodedAs: 'windows-1252', original: 'utf8' },
+  { decodedAs: 'cp949', original: 'utf8' },
+  { decodedAs: 'latin1', original: 'utf8' },
+  { decodedAs: 'windows-1252', original: 'euc-kr' },
+  { decodedAs: 'latin1', original: 'euc-kr' },
+];
+
+// 복구로 인정할 최소 글자 점수 향상
+const MOJIBAKE_MIN_GAIN = 0.2;
+
+// 한 바이트씩 읽는 인코딩 (UTF-8 원문이면 글자 점수는 그대로라도 길이가 줄어듦)
+const SINGLE_BYTE_ENCODINGS = ['windows-1252', 'latin1'];
+
+// EUC-KR 원문으로 볼 최소 구간 길이 (한글 두 글자 = 한 바이트 글자 네 개)
+const EUC_KR_MIN_RUN_LENGTH = 4;
+
+// EUC-KR 원문으로 볼 때 완성형 한글로 복구돼야 하는 비ASCII 구간 비율
+const EUC_KR_MIN_RUN_RATIO = 0.8;
+
+/**
+ * 글자 하나가 실제 문서에 나올 법한 정도 (0~1)
+ */
+function charScore(code: number): number {
+  if (code === 0xfffd) return 0;
+  if (code < 0x20) return code === 0x09 || code === 0x0a || code === 0x0d ? 1 : 0;
+  if (code < 0x7f) return 1;
+  if (code < 0xa0) return 0; // DEL, C1 제어 문자
+  if (code < 0x100) return 0.4; // Latin-1 (깨진 글자에 흔함)
+  if (code >= 0xac00 && code <= 0xd7a3) return 1; // 한글 음절
+  if (code >= 0x3040 && code <= 0x30ff) return 0.9; // 히라가나, 가타카나
+  if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff00 && code <= 0xffef)) return 0.8; // CJK 기호, 전각
+  if (code >= 0x4e00 && code <= 0x9fff) return 0.6; // 한자
+  if (code >= 0x3130 && code <= 0x318f) return 0.5; // 한글 호환 자모
+  if (code >= 0x2000 && code <= 0x206f) return 0.5; // 일반 구두점
+  if (code >= 0x0100 && code <= 0x024f) return 0.5; // 라틴 확장
+  if (code >= 0xe000 && code <= 0xf8ff) return 0; // 사용자 정의 영역
+  return 0.3;
+}
+
+// KS X 1001 완성형 한글 2,350자 (한글 음절 순서, 1이면 포함) — 처음 쓸 때 만듦
+let ksHangulTable: Uint8Array | null = null;
+
+/**
+ * 한글 음절이 KS X 1001 완성형(자주 쓰는 2,350자)에 있는지
+ */
+function isKsHangul(code: number): boolean {
+  if (!ksHangulTable) {
+    const table = new Uint8Array(0xd7a4 - 0xac00);
+    let syllables = '';
+    for (let syllable = 0xac00; syllable <= 0xd7a3; syllable++) {
+      syllables += String.fromCharCode(syllable);
+    }
+    // CP949에서 완성형 한글은 0xB0~0xC8로 시작 (그 외는 확장 영역)
+    const bytes = iconv.encode(syllables, 'cp949');
+    for (let i = 0; i < table.length; i++) {
+      table[i] = bytes[i * 2] >= 0xb0 ? 1 : 0;
+    }
+    ksHangulTable = table;
+  }
+  return ksHangulTable[code - 0xac00] === 1;
+}
+
+/**
+ * 깨진 글자 복구 판단용 글자 점수
+ * - UTF-8 한글을 CP949로 읽은 글자는 한글 음절과 한자로만 이뤄져 charScore가 높으므로,
+ *   완성형 밖의 드문 음절과 한자는 낮게 봄 (실제 문서의 한글은 대부분 완성형)
+ */
+function repairCharScore(code: number): number {
+  if (code >= 0xac00 && code <= 0xd7a3) return isKsHangul(code) ? 1 : 0.3;
+  if (code >= 0x4e00 && code <= 0x9fff) return 0.3;
+  return charScore(code);
+}
+
+/**
+ * 텍스트의 평균 글자 점수
+ */
+function textScore(text: string, score: (code: number) => number = charScore): number {
+  if (text.length === 0) {
+    return 0;
+  }
+  let total = 0;
+  for (let i = 0; i < text.length; i++) {
+    total += score(text.charCodeAt(i));
+  }
+  return total / text.length;
+}
+
+/**
+ * 표본 디코딩 (끝에서 잘린 멀티바이트 문자는 디코더가 보류하므로 깨진 글자로 세지 않음)
+ */
+function decodeSample(sample: Buffer, encoding: string): string {
+  return iconv.getDecoder(encoding).write(sample);
+}
+
+/**
+ * 버퍼 전체가 해당 인코딩으로 깨진 문자(�) 없이 디코딩되는지 (청크 단위로 확인)
+ */
+export function decodesCleanly(buffer: Buffer, encoding: string): boolean {
+  const decoder = iconv.getDecoder(encoding);
+  for (let offset = 0; offset < buffer.length; offset += SAMPLE_SIZE) {
+    if (decoder.write(buffer.subarray(offset, offset + SAMPLE_SIZE)).indexOf('\uFFFD') !== -1) {
+      return false;
+    }
+  }
+  return (decoder.end() || '').indexOf('\uFFFD') === -1;
+}
+
+/**
+ * BOM 없는 UTF-16 여부 추정 (ASCII 문자의 0 바이트가 짝수/홀수 위치 한쪽에 몰려 있음)
+ */
+function utf16ZeroRatio(sample: Buffer, encoding: 'utf16le' | 'utf16be'): number {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) {
+    return 0;
+  }
+  let zeros = 0;
+  for (let i = 0; i < pairs; i++) {
+    if (sample[i * 2 + (encoding === 'utf16le' ? 1 : 0)] === 0) zeros++;
+  }
+  return zeros / pairs;
+}
+
+/**
+ * EUC-KR(KS X 1001) 범위를 벗어나 CP949 확장 영역으로만 읽히는 2바이트 문자 비율
+ * (일본어/중국어 바이트도 CP949로는 대부분 읽히므로 확장 영역 비율로 구분)
+ */
+function cp949ExtensionRatio(sample: Buffer): number {
+  let pairs = 0;
+  let extended = 0;
+  for (let i = 0; i < sample.length - 1; i++) {
+    const lead = sample[i];
+    if (lead < 0x81 || lead === 0xff) {
+      continue;
+    }
+    const trail = sample[i + 1];
+    pairs++;
+    if (lead < 0xa1 || trail < 0xa1) extended++;
+    i++;
+  }
+  return pairs > 0 ? extended / pairs : 0;
+}
+
+/**
+ * 비ASCII 구간 하나를 원래 글자로 복구 (패턴에 맞지 않거나 글자 점수가 나아지지 않으면 null)
+ * - 잘못 읽은 인코딩으로 그대로 되돌아가고 원래 인코딩으로 깨짐 없이 읽혀야 하며, 완성형 한글 비율로 개선 여부 판단
+ */
+function repairRun(run: string, pattern: MojibakePattern): string | null {
+  // 이미 깨진 문자가 섞인 구간은 원래 바이트를 알 수 없음
+  if (run.indexOf('\uFFFD') !== -1) {
+    return null;
+  }
+  try {
+    const bytes = iconv.encode(run, pattern.decodedAs);
+    // 잘못 읽은 인코딩으로 되돌릴 수 없는 글자가 있으면 해당 패턴이 아님
+    if (iconv.decode(bytes, pattern.decodedAs) !== run) {
+      return null;
+    }
+    const repaired = iconv.decode(bytes, pattern.original);
+    if (repaired === run || repaired.indexOf('\uFFFD') !== -1) {
+      return null;
+    }
+    if (pattern.original === 'euc-kr') {
+      // 짧은 라틴 악센트 구간(ÇÃ → 플 등)도 우연히 한글이 되므로 긴 구간이 모두 완성형 한글일 때만 인정
+      if (run.length < EUC_KR_MIN_RUN_LENGTH) {
+        return null;
+      }
+      for (let i = 0; i < repaired.length; i++) {
+        const code = repaired.charCodeAt(i);
+        if (code < 0xac00 || code > 0xd7a3 || !isKsHangul(code)) {
+          return null;
+        }
+      }
+    }
+    if (pattern.original === 'utf8' && SINGLE_BYTE_ENCODINGS.indexOf(pattern.decodedAs) !== -1) {
+      // 올바른 UTF-8 바이트열이면 (Ã© → é) 악센트 글자끼리 점수가 같아도 복구
+      return repaired.length < run.length && textScore(repaired, repairCharScore) >= textScore(run, repairCharScore) ? repaired : null;
+    }
+    return textScore(repaired, repairCharScore) >= textScore(run, repairCharScore) + MOJIBAKE_MIN_GAIN ? repaired : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * 텍스트에서 깨진 글자 패턴 찾기 (가장 많은 구간을 복구하는 패턴)
+ * - strictUtf8: 이미 오류 없이 UTF-8로 읽힌 텍스트면 UTF-8로 되돌리는 패턴만 확인
+ * - EUC-KR 원문 패턴은 비ASCII 구간 대부분이 한글로 복구될 때만 인정
+ */
+export function detectMojibake(text: string, strictUtf8: boolean = false): MojibakePattern | null {
+  const runs = text.match(/[^\x00-\x7f]+/g);
+  if (!runs) {
+    return null;
+  }
+  const sampleRuns = runs.slice(0, 200);
+
+  let best: MojibakePattern | null = null;
+  let bestCount = 0;
+  MOJIBAKE_PATTERNS.forEach(pattern => {
+    if (strictUtf8 && pattern.original !== 'utf8') {
+      return;
+    }
+    const count = sampleRuns.filter(run => repairRun(run, pattern) !== null).length;
+    if (pattern.original === 'euc-kr' && count < sampleRuns.length * EUC_KR_MIN_RUN_RATIO) {
+      return;
+    }
+    if (count > bestCount) {
+      best = pattern;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * 깨진 글자 복구 (복구할 수 있는 비ASCII 구간만 바꾸고 나머지는 유지)
+ */
+export function repairMojibake(text: string, pattern: MojibakePattern): string {
+  return text.replace(/[^\x00-\x7f]+/g, run => repairRun(run, pattern) || run);
+}
+
+/**
+ * 인코딩 감지
+ * - BOM이 있으면 확정, 없으면 후보별로 디코딩해 글자 점수 × 사전 가중치 + jschardet 판정으로 순위 결정
+ * - forcedEncoding을 주면 감지를 건너뛰고 깨진 글자 패턴만 확인
+ */
+export function detectEncoding(buffer: Buffer, forcedEncoding?: string): EncodingDetection {
+  const bom = detectBom(buffer);
+  const sample = buffer.subarray(0, Math.min(buffer.length, SAMPLE_SIZE));
+
+  const finish = (candidates: EncodingCandidate[], fromBom: boolean): EncodingDetection => {
+    const chosen = candidates[0];
+    const text = decodeSample(sample, chosen.encoding);
+    return {
+      encoding: chosen.encoding,
+      confidence: chosen.confidence,
+      bom: fromBom,
+      candidates,
+      mojibake: detectMojibake(text, chosen.encoding === 'utf8' && text.indexOf('\uFFFD') === -1),
+    };
+  };
+
+  if (forcedEncoding) {
+    return finish([{ encoding: forcedEncoding, confidence: 1 }], false);
+  }
+  if (bom) {
+    return finish([{ encoding: bom.encoding, confidence: 1 }], true);
+  }
+
+  // jschardet의 통계 기반 판정
+  const chardet: Record<string, number> = {};
+  try {
+    detectAll(sample).forEach(result => {
+      const name = CHARDET_NAMES[result.encoding.toLowerCase()];
+      if (name && !(chardet[name] > result.confidence)) {
+        chardet[name] = result.confidence;
+      }
+    });
+  } catch (e) {
+    // 판정 실패는 무시
+  }
+
+  const candidates: EncodingCandidate[] = Object.keys(CANDIDATE_PRIORS).map(encoding => {
+    // 0 바이트 패턴이 없으면 UTF-16이 아님 (한글만 있는 BOM 없는 UTF-16은 감지 불가)
+    if ((encoding === 'utf16le' || encoding === 'utf16be') && utf16ZeroRatio(sample, encoding) < 0.2) {
+      return { encoding, confidence: 0 };
+    }
+    const decoded = decodeSample(sample, encoding);
+    let base = textScore(decoded);
+    if (encoding === 'utf8' && decoded.indexOf('\uFFFD') === -1 && sample.indexOf(0) === -1) {
+      // 올바른 UTF-8 멀티바이트 배열은 다른 인코딩에서 우연히 나오기 어려움 (글자가 이상하면 깨진 글자 복구 대상)
+      base = buffer.length > sample.length && !decodesCleanly(buffer, 'utf8') ? 0.5 : 1;
+    }
+    if (encoding === 'euc-kr') {
+      base *= 1 - cp949ExtensionRatio(sample) * 0.5;
+    }
+    const confidence = base * CANDIDATE_PRIORS[encoding] * 0.7 + (chardet[encoding] || 0) * 0.3 * base;
+    return { encoding, confidence: Math.min(1, Math.round(confidence * 1000) / 1000) };
+  });
+
+  // ASCII만 있으면(0 바이트 없이) 모든 후보가 같은 결과이므로 UTF-8로 확정
+  if (!/[^\x01-\x7f]/.test(sample.toString('latin1'))) {
+    candidates.forEach(candidate => {
+      if (candidate.encoding === 'utf8') candidate.confidence = 1;
+    });
+  }
+
+  candidates.sort((a, b) => b.confidence - a.confidence);
+  const plausible = candidates.filter(candidate => candidate.confidence > 0);
+  // 어떤 후보로도 읽을 수 없으면 바이트를 그대로 보존하는 latin1 (판별 실패)
+  return finish(plausible.length > 0 ? plausible : [{ encoding: 'latin1', confidence: 0 }], false);
+}
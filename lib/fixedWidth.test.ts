@@ -0,0 +1,28 @@
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { detectFixedWidthColumns, splitFixedWidthLine } from './fixedWidth';
+
+test('값 안의 공백이 같은 칸에 있어도 헤더 단어가 없는 열은 나누지 않음', () => {
+  const lines = [
+    '코드  이름    주소                    금액',
+    '------------------------------------------',
+    'A01   홍길동  서울 강남구            1,000',
+    'A02   김철수  부산 해운대구         12,000',
+    'A03   이영희  대구                     500',
+    'A04   박민수  인천 남동구            3,000',
+  ];
+  const boundaries = detectFixedWidthColumns(lines);
+  assert.deepEqual(boundaries, [6, 14, 36]);
+  assert.deepEqual(splitFixedWidthLine(lines[3], boundaries!), ['A02', '김철수', '부산 해운대구', '12,000']);
+});
+
+test('구분선 묶음이 있으면 묶음 위치를 경계로 사용', () => {
+  const lines = [
+    'CODE NAME       AMOUNT',
+    '---- ---------- ------',
+    'A01  Kim         1,000',
+    'A02  Lee Ji-eun    500',
+    'A03  Park       12,000',
+  ];
+  assert.deepEqual(detectFixedWidthColumns(lines), [5, 16]);
+});
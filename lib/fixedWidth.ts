@@ -0,0 +1,283 @@
+import { CsvParser } from './csvParser';
+import { isPageLineText } from './reportCleanup';
+
+/**
+ * 고정 폭 텍스트 (메인프레임, ERP 보고서 .txt/.prn)
+ * - 열 경계는 화면 표시 칸 기준 (한글, 한자 등 전각 문자는 2칸)
+ * - 경계 [10, 25]는 0~9칸, 10~24칸, 25칸~끝의 세 열
+ */
+
+// 열 경계를 찾기 위해 살펴볼 최대 행 수
+const SAMPLE_LINES = 500;
+
+// 구분선 (-----, ===== 등)
+const SEPARATOR_LINE = /^\s*[-=_+*]{3,}[-=_+*\s]*$/;
+
+/**
+ * 코드 포인트의 표시 폭 (전각 2칸, 한글 자모 조합용 중성·종성 0칸, 나머지 1칸)
+ */
+function codePointWidth(code: number): number {
+  if (code >= 0x1160 && code <= 0x11ff) {
+    return 0;
+  }
+  if (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0x303e) ||
+    (code >= 0x3041 && code <= 0x33ff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0xa000 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x20000 && code <= 0x3fffd)
+  ) {
+    return 2;
+  }
+  return 1;
+}
+
+/**
+ * 행을 표시 칸 위치가 붙은 글자로 나눔 (서로게이트 쌍은 한 글자)
+ */
+export function toDisplayCharacters(line: string): { text: string; column: number; width: number }[] {
+  const characters: { text: string; column: number; width: number }[] = [];
+  let column = 0;
+  for (let i = 0; i < line.length; i++) {
+    let code = line.charCodeAt(i);
+    let text = line[i];
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < line.length) {
+      const low = line.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low <= 0xdfff) {
+        code = (code - 0xd800) * 0x400 + (low - 0xdc00) + 0x10000;
+        text += line[++i];
+      }
+    }
+    const width = codePointWidth(code);
+    characters.push({ text, column, width });
+    column += width;
+  }
+  return characters;
+}
+
+/**
+ * 행의 표시 폭
+ */
+export function displayWidth(line: string): number {
+  const characters = toDisplayCharacters(line);
+  const last = characters[characters.length - 1];
+  return last ? last.column + last.width : 0;
+}
+
+/**
+ * 텍스트를 행으로 나눔 (CRLF/CR/LF, 페이지 나눔 문자 제거)
+ */
+export function splitTextLines(text: string): string[] {
+  return text.replace(/\f/g, '').split(/\r\n|\r|\n/);
+}
+
+function isDataLine(line: string): boolean {
+  return line.trim() !== '' && !SEPARATOR_LINE.test(line);
+}
+
+/**
+ * 열 경계 추정에 쓸 행 (인쇄 보고서의 페이지 번호 행과 페이지마다 반복되는 제목, 헤더 행 제외)
+ * - 숫자만 다른 행은 같은 행으로 봄 (출력일자, 페이지 번호), 숫자로만 된 데이터 행은 유지
+ */
+function selectLayoutLines(lines: string[]): string[] {
+  const counts: Record<string, number> = {};
+  const keys = lines.map(line => line.trim().replace(/\d/g, '0'));
+  keys.forEach(key => {
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return lines.filter((line, index) =>
+    !isPageLineText(line) && !(counts[keys[index]] > 1 && /[A-Za-z가-힣]/.test(keys[index])));
+}
+
+/**
+ * 행을 열 경계로 잘라 값 배열로 (글자는 시작 칸이 속한 열에 넣고, 값 앞뒤 공백 제거)
+ */
+export function splitFixedWidthLine(line: string, boundaries: number[]): string[] {
+  const cells: string[] = [''];
+  toDisplayCharacters(line).forEach(character => {
+    while (cells.length <= boundaries.length && character.column >= boundaries[cells.length - 1]) {
+      cells.push('');
+    }
+    cells[cells.length - 1] += character.text;
+  });
+  return cells.map(cell => cell.trim());
+}
+
+/**
+ * 행에서 공백 뒤에 값이 시작하는 칸 위치
+ */
+function tokenStarts(line: string): number[] {
+  const starts: number[] = [];
+  let previous = ' ';
+  toDisplayCharacters(line).forEach(character => {
+    if (character.text.trim() !== '' && previous.trim() === '') {
+      starts.push(character.column);
+    }
+    previous = character.text;
+  });
+  return starts;
+}
+
+/**
+ * 구분선의 대시 묶음 시작 위치 (묶음이 둘 이상일 때만, SQL*Plus 형식 보고서)
+ */
+function separatorBoundaries(lines: string[]): number[] | null {
+  for (let i = 0; i < lines.length; i++) {
+    if (!SEPARATOR_LINE.test(lines[i])) {
+      continue;
+    }
+    const starts = tokenStarts(lines[i]);
+    if (starts.length > 1) {
+      return starts.slice(1);
+    }
+  }
+  return null;
+}
+
+/**
+ * 구분선 바로 위의 헤더 행 (구분선이 없으면 null)
+ */
+function headerLineAboveSeparator(lines: string[]): string | null {
+  for (let i = 1; i < lines.length; i++) {
+    if (SEPARATOR_LINE.test(lines[i]) && isDataLine(lines[i - 1])) {
+      return lines[i - 1];
+    }
+  }
+  return null;
+}
+
+/**
+ * 공백 묶음 [start, end] 안에서 값을 가장 적게 자르는 경계 (같으면 오른쪽, 예외 행의 값이 묶음에 걸친 경우)
+ */
+function leastCrossedColumn(lines: string[], start: number, end: number): number {
+  const crossings: number[] = [];
+  lines.forEach(line => {
+    const occupied: boolean[] = [];
+    toDisplayCharacters(line).forEach(character => {
+      for (let c = character.column; c < character.column + character.width; c++) {
+        occupied[c] = character.text.trim() !== '';
+      }
+    });
+    for (let c = start; c <= end; c++) {
+      if (occupied[c - 1] && occupied[c]) {
+        crossings[c - start] = (crossings[c - start] || 0) + 1;
+      }
+    }
+  });
+  let best = end;
+  for (let c = end; c >= start; c--) {
+    if ((crossings[c - start] || 0) < (crossings[best - start] || 0)) {
+      best = c;
+    }
+  }
+  return best;
+}
+
+/**
+ * 모든 행이 같은 개수로 나뉘는 구분자가 있는지 (쉼표 뒤에 공백을 둔 CSV 등)
+ */
+function hasConsistentDelimiter(lines: string[], columns: number): boolean {
+  return [',', ';', '|'].some(delimiter => {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const consistent = counts.filter(count => count > 0 && count === counts[0]).length;
+    return consistent >= lines.length * 0.9 && counts[0] + 1 >= columns;
+  });
+}
+
+/**
+ * 고정 폭 열 경계 추정 (찾지 못하면 null)
+ * - 구분선이 있으면 대시 묶음 위치를 경계로 사용
+ * - 아니면 거의 모든 행에서 공백인 칸(5%, 최소 한두 행까지 예외 허용)의 묶음이 끝나는 위치를 경계로 사용
+ * - 구분선 위에 헤더 행이 있으면 헤더 단어가 시작하지 않는 열의 경계는 버림
+ * - 페이지 번호 행과 페이지마다 반복되는 제목, 헤더 행은 경계 추정에서 제외
+ * - 절반 이상의 행에서 값이 경계 뒤까지 이어져야 함
+ * - 탭이 있거나 구분자로 일정하게 나뉘는 텍스트는 구분자 파일로 보고 제외
+ */
+export function detectFixedWidthColumns(lines: string[]): number[] | null {
+  const sample = lines.slice(0, SAMPLE_LINES);
+  const dataLines = selectLayoutLines(sample.filter(isDataLine));
+  if (dataLines.length < 3 || dataLines.filter(line => line.indexOf('\t') !== -1).length > dataLines.length * 0.1) {
+    return null;
+  }
+
+  let boundaries = separatorBoundaries(sample);
+  if (!boundaries) {
+    const occupied: number[] = [];
+    dataLines.forEach(line => {
+      toDisplayCharacters(line).forEach(character => {
+        if (character.text.trim() === '') return;
+        for (let c = character.column; c < character.column + character.width; c++) {
+          occupied[c] = (occupied[c] || 0) + 1;
+        }
+      });
+    });
+    // 제목, 조회 조건 행이나 넘친 값은 예외로 봄 (행이 적으면 예외 없음)
+    const tolerance = dataLines.length >= 20 ? Math.max(2, Math.floor(dataLines.length * 0.05)) :
+      dataLines.length >= 5 ? 1 : 0;
+    const isGap = (column: number) => (occupied[column] || 0) <= tolerance;
+
+    boundaries = [];
+    let seenData = false;
+    let gapStart = -1;
+    for (let c = 0; c < occupied.length; c++) {
+      if (isGap(c)) {
+        if (seenData && gapStart === -1) gapStart = c;
+        continue;
+      }
+      if (gapStart !== -1) {
+        boundaries.push(leastCrossedColumn(dataLines, gapStart, c));
+      }
+      seenData = true;
+      gapStart = -1;
+    }
+
+    // 값 안의 공백(서울 강남구)이 모든 행에서 같은 칸이면 경계로 보이므로, 헤더 단어가 시작하는 열만 남김
+    const header = headerLineAboveSeparator(sample);
+    if (header) {
+      const starts = tokenStarts(header);
+      const inferred = boundaries;
+      boundaries = inferred.filter((boundary, index) => {
+        const next = index + 1 < inferred.length ? inferred[index + 1] : Infinity;
+        return starts.some(start => start >= boundary && start < next);
+      });
+    }
+  }
+
+  // 짧은 행의 끝 뒤는 공백으로 보이므로, 절반 이상의 행에 값이 이어지는 경계만 사용
+  const lineWidths = dataLines.map(line => displayWidth(line.replace(/\s+$/, '')));
+  boundaries = boundaries.filter(boundary => lineWidths.filter(width => width > boundary).length >= dataLines.length / 2);
+
+  if (boundaries.length === 0 || hasConsistentDelimiter(dataLines, boundaries.length + 1)) {
+    return null;
+  }
+  return boundaries;
+}
+
+/**
+ * 청크 단위 고정 폭 파서 (CSV 파서와 같은 형태, 빈 행과 구분선은 제외)
+ */
+export function createFixedWidthParser(boundaries: number[]): CsvParser {
+  let pending = '';
+  const parseLines = (lines: string[]) => lines.filter(isDataLine).map(line => splitFixedWidthLine(line, boundaries));
+
+  return {
+    push(chunk: string): string[][] {
+      // 마지막 행은 다음 청크와 이어질 수 있으므로 남겨둠 (CR 뒤의 LF가 다음 청크에 있어도 빈 행으로 제외됨)
+      const lines = splitTextLines(pending + chunk);
+      pending = lines.pop() || '';
+      return parseLines(lines);
+    },
+    end(): string[][] {
+      const rest = pending;
+      pending = '';
+      return parseLines([rest]);
+    },
+  };
+}
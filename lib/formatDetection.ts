@@ -0,0 +1,72 @@
+/**
+ * 내용 기반으로 감지한 파일 형식
+ */
+export type DetectedFormat = 'zip' | 'cfb' | 'html' | 'spreadsheetml' | 'text' | 'binary';
+
+/**
+ * BOM 길이와 인코딩 확인
+ */
+export function detectBom(buffer: Buffer): { encoding: 'utf8' | 'utf16le' | 'utf16be'; length: number } | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: 'utf8', length: 3 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { encoding: 'utf16le', length: 2 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { encoding: 'utf16be', length: 2 };
+  }
+  return null;
+}
+
+/**
+ * 파일 앞부분을 태그 검사용 소문자 텍스트로 읽기 (UTF-16이면 바이트 순서에 맞춰 변환)
+ */
+function readHead(buffer: Buffer, size: number): string {
+  const bom = detectBom(buffer);
+  const head = buffer.subarray(bom ? bom.length : 0, Math.min(buffer.length, size));
+
+  if (bom && bom.encoding === 'utf16le') {
+    return head.toString('utf16le').toLowerCase();
+  }
+  if (bom && bom.encoding === 'utf16be') {
+    const swapped = Buffer.from(head.subarray(0, head.length - (head.length % 2)));
+    swapped.swap16();
+    return swapped.toString('utf16le').toLowerCase();
+  }
+  return head.toString('latin1').toLowerCase();
+}
+
+/**
+ * 확장자와 무관하게 파일 내용으로 형식 감지 (.xls로 저장된 HTML/SpreadsheetML 판별)
+ */
+export function detectFileFormat(buffer: Buffer): DetectedFormat {
+  if (buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b && (buffer[2] === 0x03 || buffer[2] === 0x05 || buffer[2] === 0x07)) {
+    return 'zip';
+  }
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0xd0cf11e0 && buffer.readUInt32BE(4) === 0xa1b11ae1) {
+    return 'cfb';
+  }
+
+  const head = readHead(buffer, 4096).replace(/^[\s\x00]+/, '');
+
+  // SpreadsheetML 2003 (Excel 2003 XML)
+  if (/<\?mso-application\s+progid="excel\.sheet"/.test(head) ||
+      (/<(?:\w+:)?workbook\b/.test(head) && head.includes('urn:schemas-microsoft-com:office:spreadsheet'))) {
+    return 'spreadsheetml';
+  }
+
+  // HTML 표 (ERP, 은행, 쇼핑몰 관리자 도구의 "엑셀 다운로드")
+  if (/^<!doctype\s+html/.test(head) || /<html\b/.test(head) || /<table\b/.test(head)) {
+    return 'html';
+  }
+
+  // 제어 문자 비율로 텍스트/바이너리 구분
+  const sample = buffer.subarray(0, Math.min(buffer.length, 4096));
+  let controlBytes = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20)) controlBytes++;
+  }
+  return sample.length > 0 && controlBytes / sample.length > 0.1 && !detectBom(buffer) ? 'binary' : 'text';
+}
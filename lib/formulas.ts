@@ -0,0 +1,188 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * 수식 처리 방식
+ * - keep: 수식과 마지막 계산 값을 함께 저장
+ * - values: 계산 값만 저장 (기존 동작)
+ * - both: 계산 값만 저장하고 수식 목록 시트 추가
+ */
+export type FormulaMode = 'keep' | 'values' | 'both';
+
+export const FORMULA_MODES: FormulaMode[] = ['keep', 'values', 'both'];
+
+export const DEFAULT_FORMULA_MODE: FormulaMode = 'values';
+
+/**
+ * 옮기지 못한 수식
+ */
+export interface FormulaIssue {
+  sheet: string;
+  address: string;
+  formula: string;
+  reason: string;
+}
+
+/**
+ * 수식 처리 결과
+ */
+export interface FormulaReport {
+  mode: FormulaMode;
+  count: number;
+  untranslatable: FormulaIssue[];
+}
+
+// 수식 목록 시트 이름 (원본 시트 이름과 겹치면 번호를 붙임)
+const FORMULA_SHEET_NAME = '수식';
+
+// SheetJS가 해석하지 못한 참조에 넣는 표시 (외부 참조, 알 수 없는 이름 등)
+const UNRESOLVED_MARKER = /SH33TJS[A-Z0-9]*/;
+
+// 다른 통합 문서 참조 ([1]Sheet1!A1, '[원본.xls]Sheet1'!A1), 표 구조적 참조(표1[열])는 제외
+const EXTERNAL_REFERENCE = /(^|[^\w\]])\[[^\[\]]+\][\w.가-힣]*!|'[^']*\[[^\]]+\][^']*'!/;
+
+// 셀에서 쓸 수 없는 매크로 시트 전용 함수와 Excel에서 제거된 함수
+const UNSUPPORTED_FUNCTION = /(^|[^\w.])(GET\.[A-Z.]+|EVALUATE|FILES|DOCUMENTS|WINDOWS|LINKS|DIRECTORY|REGISTER(\.ID)?|CALL|EXEC|SQL\.REQUEST)\s*\(/i;
+
+export function createFormulaReport(mode: FormulaMode): FormulaReport {
+  return { mode, count: 0, untranslatable: [] };
+}
+
+/**
+ * .xlsx로 옮길 수 없는 수식이면 사유 반환
+ */
+export function findUntranslatableReason(formula: string): string | null {
+  if (UNRESOLVED_MARKER.test(formula) || /\bundefined\(/.test(formula)) {
+    return '해석할 수 없는 참조나 함수';
+  }
+  if (EXTERNAL_REFERENCE.test(formula)) {
+    return '다른 통합 문서 참조';
+  }
+  const unsupported = formula.match(UNSUPPORTED_FUNCTION);
+  if (unsupported) {
+    return `지원되지 않는 함수 ${unsupported[2].toUpperCase()}`;
+  }
+  return null;
+}
+
+function quoteSheetName(name: string): string {
+  return /^[\w가-힣.]+$/.test(name) && !/^\d/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 이름이 바뀐 시트를 가리키는 참조를 새 이름으로 변경 (문자열 상수 안은 그대로)
+ */
+export function renameSheetReferences(formula: string, renames: Record<string, string>): string {
+  const names = Object.keys(renames).filter(name => renames[name] !== name);
+  if (names.length === 0) {
+    return formula;
+  }
+  return formula.split(/("(?:[^"]|"")*")/).map((part, index) => {
+    if (index % 2 === 1) {
+      return part;
+    }
+    return names.reduce((text, name) => {
+      const quoted = `'${name.replace(/'/g, "''")}'!`;
+      const replaced = text.split(quoted).join(`${quoteSheetName(renames[name])}!`);
+      return replaced.replace(new RegExp(`(^|[^\\w.'])${escapeRegExp(name)}!`, 'g'), `$1${quoteSheetName(renames[name])}!`);
+    }, part);
+  }).join('');
+}
+
+/**
+ * 원본 시트의 수식을 같은 위치의 새 셀로 복사 (keep 모드)
+ * - 계산 값은 새 셀 값을 그대로 쓰되, 문자열 결과는 타입 추론 전 값으로 되돌림
+ * - 옮길 수 없는 수식은 값만 남기고 리포트에 기록
+ */
+export function copySheetFormulas(
+  source: XLSX.WorkSheet,
+  target: XLSX.WorkSheet,
+  sheetName: string,
+  renames: Record<string, string>,
+  report: FormulaReport
+): void {
+  Object.keys(source).forEach(address => {
+    const cell: XLSX.CellObject = source[address];
+    if (address[0] === '!' || !cell || (!cell.f && !cell.F)) {
+      return;
+    }
+    if (cell.f) {
+      report.count++;
+      const reason = findUntranslatableReason(cell.f);
+      if (reason) {
+        report.untranslatable.push({ sheet: sheetName, address, formula: cell.f, reason });
+        return;
+      }
+    }
+
+    const targetCell: XLSX.CellObject = target[address] || { t: 'n' };
+    if (cell.t === 's' && cell.v !== undefined) {
+      targetCell.t = 's';
+      targetCell.v = cell.v;
+    }
+    if (cell.f) {
+      targetCell.f = renameSheetReferences(cell.f, renames);
+    }
+    if (cell.F) {
+      targetCell.F = cell.F;
+    }
+    target[address] = targetCell;
+  });
+}
+
+/**
+ * 원본 수식 목록 수집 (both 모드), 옮길 수 없는 수식은 리포트에 기록
+ */
+export function collectSheetFormulas(source: XLSX.WorkSheet, sheetName: string, report: FormulaReport): any[][] {
+  const rows: any[][] = [];
+  Object.keys(source).forEach(address => {
+    const cell: XLSX.CellObject = source[address];
+    if (address[0] === '!' || !cell || !cell.f) {
+      return;
+    }
+    report.count++;
+    const reason = findUntranslatableReason(cell.f);
+    if (reason) {
+      report.untranslatable.push({ sheet: sheetName, address, formula: cell.f, reason });
+    }
+    rows.push([sheetName, address, `=${cell.f}`, cell.v !== undefined ? cell.v : null, reason]);
+  });
+  return rows;
+}
+
+/**
+ * 수식 목록 시트 추가 (수식은 계산되지 않도록 텍스트로 기록)
+ */
+export function appendFormulaSheet(workbook: XLSX.WorkBook, rows: any[][]): void {
+  if (rows.length === 0) {
+    return;
+  }
+  let name = FORMULA_SHEET_NAME;
+  for (let suffix = 2; workbook.SheetNames.indexOf(name) !== -1; suffix++) {
+    name = `${FORMULA_SHEET_NAME}_${suffix}`;
+  }
+  const sheet = XLSX.utils.aoa_to_sheet([['시트', '셀', '수식', '계산 값', '비고'], ...rows]);
+  sheet['!cols'] = [{ wch: 16 }, { wch: 8 }, { wch: 48 }, { wch: 16 }, { wch: 24 }];
+  XLSX.utils.book_append_sheet(workbook, sheet, name);
+  console.log(`🧮 수식 목록 시트 "${name}" 추가: ${rows.length}개`);
+}
+
+/**
+ * 이름 정의 복사 (수식이 참조하는 이름이 사라지지 않도록)
+ */
+export function copyDefinedNames(source: XLSX.WorkBook, target: XLSX.WorkBook, renames: Record<string, string>): void {
+  const names = source.Workbook && source.Workbook.Names;
+  if (!names || names.length === 0) {
+    return;
+  }
+  const kept = names
+    .filter(name => !!name.Ref && findUntranslatableReason(name.Ref) === null)
+    .map(name => ({ ...name, Ref: renameSheetReferences(name.Ref, renames) }));
+  if (kept.length > 0) {
+    target.Workbook = target.Workbook || {};
+    target.Workbook.Names = kept;
+  }
+}
@@ -0,0 +1,278 @@
+import * as XLSX from 'xlsx';
+import { RenamedColumn } from './columnNames';
+import { DEFAULT_LOCALE, ValueLocale, parseLocaleValue } from './valueParser';
+
+/**
+ * 헤더 행 감지 (제목, 조회 기간, 빈 행 아래의 헤더, 상위 그룹이 있는 여러 행 헤더)
+ * - 헤더 행은 값이 대부분 텍스트이고 서로 다르며, 아래 데이터와 타입이 대비됨 (숫자, 날짜 열 위의 텍스트)
+ * - 여러 행 헤더는 상위 그룹과 하위 이름을 _로 이어 한 행으로 (배송정보 > 주소 → 배송정보_주소)
+ */
+
+// 헤더를 찾을 앞쪽 행 수
+const HEADER_SEARCH_ROWS = 30;
+
+// 타입 대비를 볼 후보 아래 행 수
+const CONTRAST_SAMPLE_ROWS = 20;
+
+// 뒤쪽 후보가 앞 후보를 대신하려면 넘어야 하는 점수 배율 (텍스트만 있는 표에서 데이터 행이 헤더를 대신하지 않도록)
+const LATER_CANDIDATE_MARGIN = 1.5;
+
+// 여러 행 헤더의 최대 행 수
+export const MAX_HEADER_ROWS = 3;
+
+/**
+ * 헤더 위치 (row: 첫 헤더 행, rows: 헤더 행 수, 헤더 없음은 row -1, rows 0)
+ */
+export interface HeaderPosition {
+  row: number;
+  rows: number;
+}
+
+/**
+ * 시트별 헤더 결정 결과
+ * - detected: 자동 감지 (false면 사용자 지정)
+ * - flattened: 결과에서 헤더 위의 행을 빼고 헤더를 열 이름 한 행으로 합쳤는지 (false면 레이아웃 유지로 원래 위치, 병합 그대로)
+ * - renamed: 원래 헤더 값에서 바뀐 열 이름
+ */
+export interface HeaderReport extends HeaderPosition {
+  sheet: string;
+  detected: boolean;
+  flattened: boolean;
+  renamed?: RenamedColumn[];
+}
+
+/**
+ * 헤더 감지 옵션
+ * - headerRow / headerRows: 사용자가 지정한 헤더 위치와 행 수 (지정하지 않은 항목만 감지)
+ * - merges: 표 기준 좌표의 병합 영역 (있으면 상위 그룹을 병합으로 판단)
+ */
+export interface HeaderDetectionOptions {
+  headerRow?: number;
+  headerRows?: number;
+  locale?: ValueLocale;
+  merges?: XLSX.Range[];
+}
+
+type CellKind = 'empty' | 'text' | 'value';
+
+function cellText(value: any): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function cellKind(value: any, locale: ValueLocale): CellKind {
+  if (typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+    return 'value';
+  }
+  const text = cellText(value);
+  if (text === '') {
+    return 'empty';
+  }
+  return typeof parseLocaleValue(text, locale).value === 'string' ? 'text' : 'value';
+}
+
+function filledColumns(kinds: CellKind[]): number[] {
+  const columns: number[] = [];
+  kinds.forEach((kind, column) => {
+    if (kind !== 'empty') columns.push(column);
+  });
+  return columns;
+}
+
+/**
+ * 후보 행 값 중 아래 행들의 열 타입과 다른 값의 비율 (아래 값이 둘 미만인 열은 제외, 비교할 열이 없으면 null)
+ */
+function typeContrast(kinds: CellKind[][], index: number): number | null {
+  const filled = filledColumns(kinds[index]);
+  let contrasted = 0;
+  let compared = 0;
+  filled.forEach(column => {
+    let values = 0;
+    let texts = 0;
+    for (let r = index + 1; r < kinds.length && r <= index + CONTRAST_SAMPLE_ROWS; r++) {
+      const kind = kinds[r][column];
+      if (kind === 'value') values++;
+      else if (kind === 'text') texts++;
+    }
+    if (values + texts < 2) return;
+    compared++;
+    if ((values > texts ? 'value' : 'text') !== kinds[index][column]) contrasted++;
+  });
+  return compared > 0 ? contrasted / filled.length : null;
+}
+
+/**
+ * 헤더 후보 점수 (0이면 헤더로 볼 수 없음)
+ * - 표 너비의 대부분을 채우고, 텍스트 비율과 값의 고유성이 높을수록 (중복 헤더는 흔하므로 고유성은 절반만 반영)
+ * - 아래 행들의 열 타입(숫자, 날짜)과 다를수록 높음
+ */
+function headerScore(rows: any[][], kinds: CellKind[][], index: number, width: number): number {
+  const filled = filledColumns(kinds[index]);
+  if (filled.length < Math.min(2, width)) {
+    return 0;
+  }
+  const texts = filled.filter(column => kinds[index][column] === 'text').length;
+  const contrast = typeContrast(kinds, index);
+  if (texts < filled.length / 2 || contrast === null) {
+    return 0;
+  }
+  const distinct: string[] = [];
+  filled.forEach(column => {
+    const text = cellText(rows[index][column]);
+    if (distinct.indexOf(text) === -1) distinct.push(text);
+  });
+  const coverage = Math.min(1, filled.length / (width * 0.8));
+  return coverage * (texts / filled.length) * (0.5 + 0.5 * distinct.length / filled.length) * (1 + contrast);
+}
+
+/**
+ * 아래 행(child)이 위 행(parent)의 하위 헤더인지 (parent가 상위 그룹 행인지)
+ * - 두 행 모두 텍스트만 있어야 함
+ * - 병합 정보가 있으면 parent의 가로 병합(표 전체 너비 제외) 또는 두 행에 걸친 세로 병합
+ * - 없으면 parent의 값마다 아래가 비어 있거나 (세로로 이어진 이름) 오른쪽 빈 칸까지 그룹으로 이어져야 하고
+ *   (하위 열 하나짜리 그룹은 parent가 child와 같은 열에서 시작할 때 여러 열 그룹 수까지, 고정 폭으로 잘린 제목 제외),
+ *   세로로 이어진 이름이 있거나 child가 아래 값 열과 타입이 대비됨
+ * - 값이 하나뿐인 parent는 제목으로 봄
+ */
+function isHeaderGroup(kinds: CellKind[][], parent: number, child: number, width: number, merges: XLSX.Range[]): boolean {
+  const parentFilled = filledColumns(kinds[parent]);
+  const childFilled = filledColumns(kinds[child]);
+  if (parentFilled.length === 0 || childFilled.length === 0 ||
+      parentFilled.some(column => kinds[parent][column] !== 'text') ||
+      childFilled.some(column => kinds[child][column] !== 'text')) {
+    return false;
+  }
+
+  if (merges.length > 0) {
+    // 표가 A열이 아닌 곳에서 시작해도 첫 값 열부터 끝까지 덮는 병합은 제목
+    const firstColumn = Math.min(parentFilled[0], childFilled[0]);
+    return merges.some(merge =>
+      (merge.s.r === parent && merge.e.r === parent && merge.e.c > merge.s.c && !(merge.s.c <= firstColumn && merge.e.c >= width - 1)) ||
+      (merge.s.r <= parent && merge.e.r >= child));
+  }
+
+  if (parentFilled.length < 2) {
+    return false;
+  }
+  const isFilled = (row: number, column: number) => column < width && (kinds[row][column] || 'empty') !== 'empty';
+  let groups = 0;
+  let singles = 0;
+  let vertical = false;
+  for (let i = 0; i < parentFilled.length; i++) {
+    const column = parentFilled[i];
+    if (!isFilled(child, column)) {
+      vertical = true;
+    } else if (!isFilled(parent, column + 1) && isFilled(child, column + 1)) {
+      groups++;
+    } else {
+      singles++;
+    }
+  }
+  // 하위 열이 하나뿐인 그룹은 parent가 child와 같은 열에서 시작하고 여러 열 그룹보다 많지 않을 때만
+  // (가운데 정렬된 제목이 고정 폭 열 경계에서 잘리면 앞쪽이 비고 조각마다 하위 열 하나짜리 그룹처럼 보임)
+  const aligned = parentFilled[0] <= childFilled[0];
+  return groups > 0 && (singles === 0 || (aligned && singles <= groups)) &&
+    (vertical || (typeContrast(kinds, child) || 0) > 0);
+}
+
+/**
+ * 헤더 위치 결정
+ * - headerRow가 -1이면 헤더 없음
+ * - 지정하지 않은 위치는 앞쪽 행 중 점수가 뚜렷하게 가장 높은 행 (비슷하면 앞 행, 후보가 없으면 첫 행)
+ * - 지정하지 않은 행 수는 위아래로 이어지는 상위 그룹, 하위 헤더 행까지 (최대 MAX_HEADER_ROWS)
+ */
+export function detectHeaderPosition(rows: any[][], options: HeaderDetectionOptions = {}): HeaderPosition {
+  if (options.headerRow === -1 || rows.length === 0) {
+    return { row: -1, rows: 0 };
+  }
+  const locale = options.locale || DEFAULT_LOCALE;
+  const merges = options.merges || [];
+  const sample = rows.slice(0, HEADER_SEARCH_ROWS + CONTRAST_SAMPLE_ROWS);
+  const kinds = sample.map(row => (row || []).map(value => cellKind(value, locale)));
+  // 표 너비는 값이 둘 이상인 행 너비의 중앙값 (잘못 나뉜 행 하나가 너비를 늘리지 않도록)
+  const widths: number[] = [];
+  kinds.forEach(row => {
+    const filled = filledColumns(row);
+    if (filled.length > 1) widths.push(filled[filled.length - 1] + 1);
+  });
+  widths.sort((a, b) => a - b);
+  const width = widths.length > 0 ? widths[Math.floor(widths.length / 2)] : 1;
+
+  let row = options.headerRow !== undefined ? Math.min(options.headerRow, rows.length - 1) : 0;
+  if (options.headerRow === undefined) {
+    let best = 0;
+    for (let index = 0; index < Math.min(kinds.length, HEADER_SEARCH_ROWS); index++) {
+      const score = headerScore(sample, kinds, index, width);
+      if (best === 0 ? score > 0 : score > best * LATER_CANDIDATE_MARGIN) {
+        best = score;
+        row = index;
+      }
+    }
+  }
+
+  // 감지한 행이 하위 헤더면 위쪽 상위 그룹 행까지, 상위 그룹 행이면 아래쪽 하위 헤더 행까지
+  const maxRows = options.headerRows !== undefined ? options.headerRows : MAX_HEADER_ROWS;
+  let count = 1;
+  while (options.headerRow === undefined && count < maxRows && row > 0 &&
+         isHeaderGroup(kinds, row - 1, row, width, merges)) {
+    row--;
+    count++;
+  }
+  while (options.headerRows === undefined && count < maxRows && row + count < kinds.length - 1 &&
+         isHeaderGroup(kinds, row + count - 1, row + count, width, merges)) {
+    count++;
+  }
+  if (options.headerRows !== undefined) {
+    count = options.headerRows;
+  }
+  return { row, rows: Math.max(1, Math.min(count, rows.length - row)) };
+}
+
+/**
+ * 여러 행 헤더 → 열 이름 한 행 (상위 그룹과 하위 이름을 _로 연결, 같은 이름이 이어지면 한 번만)
+ * - 병합 정보가 있으면 병합 영역에 왼쪽 위 값을 채움
+ * - 없으면 상위 행의 빈 칸에 왼쪽 그룹 이름을 이어 채움 (아래 행에 이름이 있는 동안)
+ */
+export function flattenHeaderRows(rows: any[][], position: HeaderPosition, merges: XLSX.Range[] = []): string[] {
+  const block: string[][] = [];
+  for (let r = position.row; r < position.row + position.rows; r++) {
+    block.push((rows[r] || []).map(cellText));
+  }
+  const width = block.reduce((max, row) => Math.max(max, row.length), 0);
+  block.forEach(row => {
+    while (row.length < width) row.push('');
+  });
+
+  if (merges.length > 0) {
+    merges.forEach(merge => {
+      const value = rows[merge.s.r] ? cellText(rows[merge.s.r][merge.s.c]) : '';
+      for (let r = Math.max(merge.s.r, position.row); r <= Math.min(merge.e.r, position.row + position.rows - 1); r++) {
+        for (let c = merge.s.c; c <= merge.e.c && c < width; c++) {
+          block[r - position.row][c] = value;
+        }
+      }
+    });
+  } else {
+    for (let r = 0; r < block.length - 1; r++) {
+      let group = '';
+      for (let c = 0; c < width; c++) {
+        if (block[r][c] !== '') {
+          group = block[r + 1][c] !== '' ? block[r][c] : '';
+        } else if (block[r + 1][c] !== '' && group !== '') {
+          block[r][c] = group;
+        } else {
+          group = '';
+        }
+      }
+    }
+  }
+
+  const names: string[] = [];
+  for (let c = 0; c < width; c++) {
+    const parts: string[] = [];
+    block.forEach(row => {
+      if (row[c] !== '' && parts[parts.length - 1] !== row[c]) parts.push(row[c]);
+    });
+    names.push(parts.join('_'));
+  }
+  return names;
+}
@@ -0,0 +1,370 @@
+import * as XLSX from 'xlsx';
+import * as iconv from 'iconv-lite';
+import { parseISO, isValid } from 'date-fns';
+import { detectBom } from './formatDetection';
+
+/**
+ * HTML 엔티티 중 실무 파일에 자주 나오는 이름들
+ */
+const NAMED_ENTITIES: { [name: string]: string } = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  middot: '·',
+  times: '×',
+  copy: '©',
+};
+
+/**
+ * 엔티티 디코딩
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return isNaN(code) ? match : String.fromCharCode(code);
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+}
+
+/**
+ * 마크업 문서 디코딩 (BOM → <meta charset> / XML 선언 → UTF-8 → EUC-KR 순)
+ */
+export function decodeMarkup(buffer: Buffer): { text: string; encoding: string } {
+  const bom = detectBom(buffer);
+  if (bom) {
+    const body = buffer.subarray(bom.length);
+    return { text: iconv.decode(body, bom.encoding === 'utf8' ? 'utf8' : bom.encoding), encoding: bom.encoding };
+  }
+
+  const head = buffer.subarray(0, Math.min(buffer.length, 4096)).toString('latin1');
+  const declared =
+    head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w\-]+)/i) ||
+    head.match(/<\?xml[^>]+encoding\s*=\s*["']([\w\-]+)["']/i);
+
+  if (declared) {
+    const charset = declared[1].toLowerCase();
+    // ks_c_5601-1987 등 EUC-KR 별칭은 CP949로 읽어야 확장 한글까지 복원됨
+    const encoding = /ks_c_5601|euc-?kr|x-windows-949|ms949|cp949/.test(charset) ? 'cp949' : charset;
+    if (iconv.encodingExists(encoding)) {
+      console.log(`📋 문서에 선언된 인코딩 사용: ${declared[1]} → ${encoding}`);
+      return { text: iconv.decode(buffer, encoding), encoding };
+    }
+  }
+
+  const utf8Text = buffer.toString('utf8');
+  if (!utf8Text.includes('\uFFFD')) {
+    return { text: utf8Text, encoding: 'utf8' };
+  }
+  return { text: iconv.decode(buffer, 'cp949'), encoding: 'cp949' };
+}
+
+/**
+ * 태그 속성에서 숫자 읽기 (rowspan, colspan)
+ */
+function readSpan(attributes: string, name: string): number {
+  const match = attributes.match(new RegExp('\\b' + name + '\\s*=\\s*["\']?(\\d+)', 'i'));
+  const value = match ? parseInt(match[1], 10) : 1;
+  return value > 0 && value < 1000 ? value : 1;
+}
+
+/**
+ * HTML 표 하나를 셀 배치(rowspan/colspan 반영)와 병합 정보로 변환
+ */
+interface ParsedTable {
+  caption: string;
+  rows: (string | null)[][];
+  merges: XLSX.Range[];
+}
+
+/**
+ * HTML 문서의 최상위 <table>들을 파싱
+ */
+function parseHtmlTables(html: string): ParsedTable[] {
+  const tables: ParsedTable[] = [];
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  const tokenPattern = /<(\/?)(table|caption|tr|td|th|br|p|div)\b([^>]*)>|<[^>]*>|[^<]+/gi;
+  let depth = 0;
+  let table: ParsedTable | null = null;
+  let occupied: boolean[][] = [];
+  let rowIndex = -1;
+  let cell: { text: string; row: number; col: number } | null = null;
+  let inCaption = false;
+  let match: RegExpExecArray | null;
+
+  const finishCell = () => {
+    if (!cell || !table) return;
+    const text = cell.text.replace(/[ \t\r\f\v]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    table.rows[cell.row][cell.col] = text === '' ? null : text;
+    cell = null;
+  };
+
+  while ((match = tokenPattern.exec(source)) !== null) {
+    const [token, closing, tagName, attributes] = match;
+    const tag = tagName ? tagName.toLowerCase() : '';
+
+    if (tag === 'table') {
+      if (!closing) {
+        depth++;
+        if (depth === 1) {
+          table = { caption: '', rows: [], merges: [] };
+          occupied = [];
+          rowIndex = -1;
+        }
+      } else if (depth > 0) {
+        depth--;
+        if (depth === 0 && table) {
+          finishCell();
+          if (table.rows.some(row => row.some(value => value !== null))) tables.push(table);
+          table = null;
+        }
+      }
+      continue;
+    }
+
+    if (!table) continue;
+
+    // 중첩된 표의 내용은 바깥 셀의 텍스트로 취급
+    if (depth > 1) {
+      if (cell && !token.startsWith('<')) cell.text += decodeEntities(token);
+      else if (cell && (tag === 'tr' || tag === 'br')) cell.text += '\n';
+      continue;
+    }
+
+    if (tag === 'caption') {
+      inCaption = !closing;
+    } else if (tag === 'tr') {
+      finishCell();
+      if (!closing) {
+        rowIndex++;
+        if (!table.rows[rowIndex]) table.rows[rowIndex] = [];
+        if (!occupied[rowIndex]) occupied[rowIndex] = [];
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      finishCell();
+      if (closing) continue;
+      if (rowIndex === -1) {
+        rowIndex = 0;
+        table.rows[0] = [];
+        occupied[0] = [];
+      }
+
+      // rowspan으로 이미 점유된 칸은 건너뜀
+      let col = 0;
+      while (occupied[rowIndex][col]) col++;
+
+      const rowSpan = readSpan(attributes, 'rowspan');
+      const colSpan = readSpan(attributes, 'colspan');
+      for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+        if (!occupied[r]) occupied[r] = [];
+        if (!table.rows[r]) table.rows[r] = [];
+        for (let c = col; c < col + colSpan; c++) {
+          occupied[r][c] = true;
+          if (table.rows[r][c] === undefined) table.rows[r][c] = null;
+        }
+      }
+      if (rowSpan > 1 || colSpan > 1) {
+        table.merges.push({ s: { r: rowIndex, c: col }, e: { r: rowIndex + rowSpan - 1, c: col + colSpan - 1 } });
+      }
+      cell = { text: '', row: rowIndex, col };
+    } else if (tag === 'br' || ((tag === 'p' || tag === 'div') && closing)) {
+      if (cell) cell.text += '\n';
+    } else if (!token.startsWith('<')) {
+      const text = decodeEntities(token);
+      if (cell) cell.text += text;
+      else if (inCaption) table.caption += text.trim();
+    }
+  }
+
+  // 닫히지 않은 표도 살림
+  if (table) {
+    finishCell();
+    if (table.rows.some(row => row.some(value => value !== null))) tables.push(table);
+  }
+
+  // 빈 칸을 null로 채워 행 길이를 맞춤
+  tables.forEach(parsed => {
+    const width = parsed.rows.reduce((max, row) => Math.max(max, row ? row.length : 0), 0);
+    parsed.rows = parsed.rows.map(row => {
+      const filled = row || [];
+      for (let c = 0; c < width; c++) {
+        if (filled[c] === undefined) filled[c] = null;
+      }
+      return filled;
+    });
+  });
+
+  return tables;
+}
+
+/**
+ * 시트명 중복 방지
+ */
+function uniqueSheetName(workbook: XLSX.WorkBook, name: string): string {
+  let candidate = (name.replace(/[\\/?*[\]:]/g, '_').trim() || 'Sheet').substring(0, 31);
+  let suffix = 2;
+  while (workbook.SheetNames.indexOf(candidate) !== -1) {
+    const tail = `_${suffix++}`;
+    candidate = candidate.substring(0, 31 - tail.length) + tail;
+  }
+  return candidate;
+}
+
+/**
+ * .xls로 저장된 HTML 표 문서를 워크북으로 변환 (표마다 시트 하나)
+ */
+export function parseHtmlWorkbook(buffer: Buffer): XLSX.WorkBook {
+  const { text, encoding } = decodeMarkup(buffer);
+  console.log(`🔧 HTML 표 파싱 시작 (인코딩: ${encoding})`);
+
+  const tables = parseHtmlTables(text);
+  if (tables.length === 0) {
+    throw new Error('HTML 문서에서 표를 찾을 수 없습니다.');
+  }
+
+  const workbook = XLSX.utils.book_new();
+  tables.forEach((table, index) => {
+    const worksheet = XLSX.utils.aoa_to_sheet(table.rows);
+    if (table.merges.length > 0) worksheet['!merges'] = table.merges;
+    const name = table.caption || (tables.length === 1 ? 'Sheet1' : `Table${index + 1}`);
+    XLSX.utils.book_append_sheet(workbook, worksheet, uniqueSheetName(workbook, name));
+    console.log(`📋 표 ${index + 1}: ${table.rows.length}행, 병합 ${table.merges.length}개`);
+  });
+
+  return workbook;
+}
+
+/**
+ * SpreadsheetML 속성 읽기 (ss: 접두사 유무 모두 허용)
+ */
+function readSsAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp('(?:^|\\s)(?:\\w+:)?' + name + '\\s*=\\s*"([^"]*)"'));
+  return match ? decodeEntities(match[1]) : null;
+}
+
+/**
+ * SpreadsheetML 이름 있는 서식을 Excel 서식 코드로 변환
+ */
+function toNumberFormat(format: string): string {
+  switch (format) {
+    case 'General Date': return 'yyyy-mm-dd hh:mm:ss';
+    case 'Short Date': return 'yyyy-mm-dd';
+    case 'Medium Date': return 'dd-mmm-yy';
+    case 'Long Date': return 'yyyy"년" m"월" d"일"';
+    case 'Short Time': return 'hh:mm';
+    case 'Medium Time': return 'hh:mm AM/PM';
+    case 'Long Time': return 'hh:mm:ss';
+    case 'Percent': return '0.00%';
+    case 'Fixed': return '0.00';
+    case 'Standard': return '#,##0.00';
+    case 'Currency': return '#,##0';
+    default: return format;
+  }
+}
+
+/**
+ * SpreadsheetML 2003(Excel 2003 XML)을 워크북으로 변환 (시트, 타입, 병합 유지)
+ */
+export function parseSpreadsheetMl(buffer: Buffer): XLSX.WorkBook {
+  const { text, encoding } = decodeMarkup(buffer);
+  console.log(`🔧 SpreadsheetML 파싱 시작 (인코딩: ${encoding})`);
+
+  // 스타일 ID → 숫자 서식
+  const styleFormats: { [id: string]: string } = {};
+  const stylePattern = /<(?:\w+:)?Style\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?Style>/g;
+  let styleMatch: RegExpExecArray | null;
+  while ((styleMatch = stylePattern.exec(text)) !== null) {
+    const id = readSsAttribute(styleMatch[1], 'ID');
+    const numberFormat = styleMatch[2].match(/<(?:\w+:)?NumberFormat\b([^>]*)\/?>/);
+    const format = numberFormat ? readSsAttribute(numberFormat[1], 'Format') : null;
+    if (id && format) styleFormats[id] = toNumberFormat(format);
+  }
+
+  const workbook = XLSX.utils.book_new();
+  const worksheetPattern = /<(?:\w+:)?Worksheet\b([^>]*)>([\s\S]*?)(?:<\/(?:\w+:)?Worksheet>|$)/g;
+  const rowPattern = /<(?:\w+:)?Row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?Row>)/g;
+  const cellPattern = /<(?:\w+:)?Cell\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?Cell>)/g;
+  let worksheetMatch: RegExpExecArray | null;
+
+  while ((worksheetMatch = worksheetPattern.exec(text)) !== null) {
+    const sheetName = readSsAttribute(worksheetMatch[1], 'Name') || `Sheet${workbook.SheetNames.length + 1}`;
+    const worksheet: XLSX.WorkSheet = {};
+    const merges: XLSX.Range[] = [];
+    let maxRow = -1;
+    let maxCol = -1;
+    let rowIndex = -1;
+    let rowMatch: RegExpExecArray | null;
+
+    rowPattern.lastIndex = 0;
+    while ((rowMatch = rowPattern.exec(worksheetMatch[2])) !== null) {
+      const explicitRow = readSsAttribute(rowMatch[1], 'Index');
+      rowIndex = explicitRow ? parseInt(explicitRow, 10) - 1 : rowIndex + 1;
+      let colIndex = -1;
+      let cellMatch: RegExpExecArray | null;
+
+      cellPattern.lastIndex = 0;
+      while ((cellMatch = cellPattern.exec(rowMatch[2] || '')) !== null) {
+        const attributes = cellMatch[1];
+        const explicitCol = readSsAttribute(attributes, 'Index');
+        colIndex = explicitCol ? parseInt(explicitCol, 10) - 1 : colIndex + 1;
+
+        const mergeAcross = parseInt(readSsAttribute(attributes, 'MergeAcross') || '0', 10);
+        const mergeDown = parseInt(readSsAttribute(attributes, 'MergeDown') || '0', 10);
+        if (mergeAcross > 0 || mergeDown > 0) {
+          merges.push({ s: { r: rowIndex, c: colIndex }, e: { r: rowIndex + mergeDown, c: colIndex + mergeAcross } });
+        }
+        const startCol = colIndex;
+        colIndex += mergeAcross;
+
+        const dataMatch = (cellMatch[2] || '').match(/<(?:\w+:)?Data\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?Data>/);
+        if (!dataMatch) continue;
+
+        // ss:Data 안의 서식 태그(<B>, <Font> 등)는 제거
+        const raw = decodeEntities(dataMatch[2].replace(/<[^>]*>/g, ''));
+        const type = readSsAttribute(dataMatch[1], 'Type') || 'String';
+        const styleId = readSsAttribute(attributes, 'StyleID');
+        const format = styleId ? styleFormats[styleId] : undefined;
+        let cell: XLSX.CellObject;
+
+        if (type === 'Number' && raw.trim() !== '' && isFinite(Number(raw))) {
+          cell = { t: 'n', v: Number(raw) };
+        } else if (type === 'DateTime') {
+          const date = parseISO(raw.trim());
+          cell = isValid(date) ? { t: 'd', v: date } : { t: 's', v: raw };
+        } else if (type === 'Boolean') {
+          cell = { t: 'b', v: raw.trim() === '1' || raw.trim().toLowerCase() === 'true' };
+        } else if (type === 'Error') {
+          cell = { t: 's', v: raw };
+        } else {
+          cell = { t: 's', v: raw };
+        }
+        if (format && (cell.t === 'n' || cell.t === 'd')) cell.z = format;
+
+        worksheet[XLSX.utils.encode_cell({ r: rowIndex, c: startCol })] = cell;
+        maxRow = Math.max(maxRow, rowIndex + mergeDown);
+        maxCol = Math.max(maxCol, colIndex);
+      }
+    }
+
+    if (maxRow >= 0) {
+      worksheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: maxRow, c: maxCol } });
+    }
+    if (merges.length > 0) worksheet['!merges'] = merges;
+    XLSX.utils.book_append_sheet(workbook, worksheet, uniqueSheetName(workbook, sheetName));
+    console.log(`📋 SpreadsheetML 시트 "${sheetName}": ${maxRow + 1}행 × ${maxCol + 1}열`);
+  }
+
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('SpreadsheetML 문서에서 Worksheet를 찾을 수 없습니다.');
+  }
+
+  return workbook;
+}
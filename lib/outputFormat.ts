@@ -0,0 +1,268 @@
+import * as iconv from 'iconv-lite';
+import * as XLSX from 'xlsx';
+import { applyDataValidations } from './cellAnnotations';
+import { applyFreezePanes } from './sheetLayout';
+import { createZip } from './zipReader';
+
+/**
+ * 결과 파일 형식
+ * - csv: UTF-8 (BOM 없음), csv-bom: UTF-8 + BOM (Excel에서 바로 열기), csv-cp949: 택배사·공공 포털 업로드용
+ * - json: 시트별 행 객체 배열, ndjson: 한 줄에 한 행
+ */
+export type OutputFormat = 'xlsx' | 'xlsb' | 'ods' | 'csv' | 'csv-bom' | 'csv-cp949' | 'tsv' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['xlsx', 'xlsb', 'ods', 'csv', 'csv-bom', 'csv-cp949', 'tsv', 'json', 'ndjson'];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'xlsx';
+
+// 값만 담는 표 형식 (병합, 열 너비, 수식 등 레이아웃과 셀 위치를 담지 못함)
+const TABLE_OUTPUT_FORMATS: OutputFormat[] = ['csv', 'csv-bom', 'csv-cp949', 'tsv', 'json', 'ndjson'];
+
+/**
+ * 첫 행을 열 이름으로 쓰는 표 형식인지 (CSV, TSV, JSON, NDJSON)
+ */
+export function isTableOutputFormat(format: OutputFormat): boolean {
+  return TABLE_OUTPUT_FORMATS.indexOf(format) !== -1;
+}
+
+/**
+ * 작성된 결과 파일
+ * - unmappableCharacters: CP949로 표현할 수 없어 ?로 바뀐 글자 수
+ */
+export interface WrittenOutput {
+  buffer: Buffer;
+  extension: string;
+  contentType: string;
+  unmappableCharacters?: number;
+}
+
+// 형식별 확장자와 Content-Type
+const FORMAT_SPECS: Record<OutputFormat, { extension: string; contentType: string }> = {
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  xlsb: { extension: 'xlsb', contentType: 'application/vnd.ms-excel.sheet.binary.macroEnabled.12' },
+  ods: { extension: 'ods', contentType: 'application/vnd.oasis.opendocument.spreadsheet' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  'csv-bom': { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  'csv-cp949': { extension: 'csv', contentType: 'text/csv; charset=euc-kr' },
+  tsv: { extension: 'tsv', contentType: 'text/tab-separated-values; charset=utf-8' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8' },
+};
+
+const ZIP_SPEC = { extension: 'zip', contentType: 'application/zip' };
+
+/**
+ * 형식별 확장자와 Content-Type (시트가 하나일 때 기준)
+ */
+export function getOutputSpec(format: OutputFormat): { extension: string; contentType: string } {
+  return FORMAT_SPECS[format];
+}
+
+// 오류 셀 코드 → 표시 문자열
+const ERROR_TEXTS: { [code: number]: string } = {
+  0x00: '#NULL!',
+  0x07: '#DIV/0!',
+  0x0f: '#VALUE!',
+  0x17: '#REF!',
+  0x1d: '#NAME?',
+  0x24: '#NUM!',
+  0x2a: '#N/A',
+};
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+function isDate1904(workbook: XLSX.WorkBook): boolean {
+  return !!(workbook.Workbook && workbook.Workbook.WBProps && workbook.Workbook.WBProps.date1904);
+}
+
+/**
+ * 시트 CSV/TSV 텍스트 (Excel처럼 표시 형식을 적용한 값, CRLF 줄바꿈)
+ * - SheetJS의 표시 형식 적용은 1904 날짜 체계를 모르므로 표시 값을 미리 계산
+ */
+function sheetToDelimited(worksheet: XLSX.WorkSheet, separator: string, date1904: boolean): string {
+  if (date1904) {
+    Object.keys(worksheet).forEach(address => {
+      const cell: XLSX.CellObject = worksheet[address];
+      if (address[0] !== '!' && cell && cell.t === 'n' && typeof cell.z === 'string') {
+        cell.w = XLSX.SSF.format(cell.z, cell.v, { date1904: true });
+      }
+    });
+  }
+  return XLSX.utils.sheet_to_csv(worksheet, { FS: separator, RS: '\r\n' });
+}
+
+/**
+ * 날짜 셀 값 → ISO 8601 문자열 (시간만 있으면 HH:MM:SS)
+ */
+function formatDateValue(serial: number, date1904: boolean): string {
+  const parts = XLSX.SSF.parse_date_code(serial, { date1904 });
+  const pad = (value: number) => (value < 10 ? '0' : '') + value;
+  const time = `${pad(parts.H)}:${pad(parts.M)}:${pad(parts.S)}`;
+  if (serial < 1 && serial >= 0) {
+    return time;
+  }
+  const date = `${parts.y}-${pad(parts.m)}-${pad(parts.d)}`;
+  return serial % 1 === 0 ? date : `${date}T${time}`;
+}
+
+/**
+ * 셀 → JSON 값 (날짜 형식 숫자는 ISO 문자열, 오류는 오류 문자열)
+ */
+function jsonValue(cell: XLSX.CellObject | undefined, date1904: boolean): any {
+  if (!cell || cell.v === undefined || cell.v === null) {
+    return null;
+  }
+  if (cell.t === 'n' && typeof cell.z === 'string' && XLSX.SSF.is_date(cell.z)) {
+    return formatDateValue(cell.v as number, date1904);
+  }
+  if (cell.t === 'e') {
+    return ERROR_TEXTS[cell.v as number] || cell.w || null;
+  }
+  if (cell.v instanceof Date) {
+    return cell.v.toISOString();
+  }
+  return cell.v;
+}
+
+/**
+ * 시트 → 행 객체 배열 (첫 행이 키, 빈 키는 컬럼N, 중복 키는 _2, _3 ...)
+ */
+function sheetToRecords(worksheet: XLSX.WorkSheet, date1904: boolean): Record<string, any>[] {
+  if (!worksheet['!ref']) {
+    return [];
+  }
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const keys: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const header = jsonValue(worksheet[XLSX.utils.encode_cell({ r: range.s.r, c })], date1904);
+    const base = header !== null && String(header).trim() !== '' ? String(header).trim() : `컬럼${c - range.s.c + 1}`;
+    let key = base;
+    for (let suffix = 2; keys.indexOf(key) !== -1; suffix++) {
+      key = `${base}_${suffix}`;
+    }
+    keys.push(key);
+  }
+
+  const records: Record<string, any>[] = [];
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const record: Record<string, any> = {};
+    let empty = true;
+    keys.forEach((key, index) => {
+      const value = jsonValue(worksheet[XLSX.utils.encode_cell({ r, c: range.s.c + index })], date1904);
+      record[key] = value;
+      empty = empty && value === null;
+    });
+    if (!empty) {
+      records.push(record);
+    }
+  }
+  return records;
+}
+
+/**
+ * 텍스트를 결과 형식의 인코딩으로 변환
+ */
+function encodeText(text: string, format: OutputFormat): { buffer: Buffer; unmappableCharacters: number } {
+  if (format === 'csv-cp949') {
+    // 표현할 수 없는 글자는 ?로 바뀌므로 ? 개수 차이로 확인
+    const buffer = iconv.encode(text, 'cp949');
+    const countMarks = (value: string) => value.split('?').length - 1;
+    return { buffer, unmappableCharacters: countMarks(iconv.decode(buffer, 'cp949')) - countMarks(text) };
+  }
+  const buffer = Buffer.from(text, 'utf8');
+  return { buffer: format === 'csv-bom' ? Buffer.concat([UTF8_BOM, buffer]) : buffer, unmappableCharacters: 0 };
+}
+
+/**
+ * 날짜 형식 숫자를 날짜 셀로 바꾼 워크북 사본 (원본은 그대로)
+ * - SheetJS의 .xlsb, .ods 작성기는 1904 날짜 체계와 숫자 셀의 날짜 표시 형식을 쓰지 않으므로 날짜 값으로 전달
+ */
+function withDateCells(workbook: XLSX.WorkBook, date1904: boolean): XLSX.WorkBook {
+  const sheets: { [name: string]: XLSX.WorkSheet } = {};
+  workbook.SheetNames.forEach(name => {
+    const worksheet: XLSX.WorkSheet = { ...workbook.Sheets[name] };
+    Object.keys(worksheet).forEach(address => {
+      const cell: XLSX.CellObject = worksheet[address];
+      if (address[0] === '!' || !cell || cell.t !== 'n' || typeof cell.z !== 'string' || !XLSX.SSF.is_date(cell.z)) {
+        return;
+      }
+      // SheetJS는 날짜 셀을 현지 시각 기준으로 일련번호로 바꿈
+      const parts = XLSX.SSF.parse_date_code(cell.v as number, { date1904 });
+      worksheet[address] = { ...cell, t: 'd', v: new Date(parts.y, parts.m - 1, parts.d, parts.H, parts.M, parts.S) };
+    });
+    sheets[name] = worksheet;
+  });
+  const props = workbook.Workbook && workbook.Workbook.WBProps;
+  return {
+    ...workbook,
+    Sheets: sheets,
+    Workbook: { ...workbook.Workbook, WBProps: { ...props, date1904: false } },
+  };
+}
+
+/**
+ * .xlsx 작성 (SheetJS가 쓰지 않는 틀 고정, 데이터 유효성 검사는 작성된 파일에 추가)
+ */
+function writeXlsx(workbook: XLSX.WorkBook): Buffer {
+  const xlsxBuffer = XLSX.write(workbook, {
+    type: 'buffer',
+    bookType: 'xlsx',
+    compression: true,
+    cellDates: true,
+  });
+  return applyDataValidations(applyFreezePanes(Buffer.from(xlsxBuffer), workbook), workbook);
+}
+
+/**
+ * 워크북을 결과 형식으로 작성
+ * - CSV/TSV는 시트가 여러 개면 시트별 파일을 ZIP으로 묶음
+ * - JSON은 { 시트명: 행 객체 배열 }, NDJSON은 시트가 여러 개면 각 행에 _sheet 추가
+ */
+export function writeWorkbookOutput(workbook: XLSX.WorkBook, format: OutputFormat): WrittenOutput {
+  const spec = FORMAT_SPECS[format];
+  const date1904 = isDate1904(workbook);
+
+  switch (format) {
+    case 'xlsx':
+      return { buffer: writeXlsx(workbook), ...spec };
+    case 'xlsb':
+    case 'ods':
+      return {
+        buffer: Buffer.from(XLSX.write(withDateCells(workbook, date1904), { type: 'buffer', bookType: format, compression: true })),
+        ...spec,
+      };
+    case 'json': {
+      const sheets: Record<string, Record<string, any>[]> = {};
+      workbook.SheetNames.forEach(name => {
+        sheets[name] = sheetToRecords(workbook.Sheets[name], date1904);
+      });
+      return { buffer: Buffer.from(JSON.stringify(sheets, null, 2), 'utf8'), ...spec };
+    }
+    case 'ndjson': {
+      const multiple = workbook.SheetNames.length > 1;
+      const lines: string[] = [];
+      workbook.SheetNames.forEach(name => {
+        sheetToRecords(workbook.Sheets[name], date1904).forEach(record => {
+          lines.push(JSON.stringify(multiple ? { _sheet: name, ...record } : record));
+        });
+      });
+      return { buffer: Buffer.from(lines.map(line => line + '\n').join(''), 'utf8'), ...spec };
+    }
+    default: {
+      const separator = format === 'tsv' ? '\t' : ',';
+      let unmappableCharacters = 0;
+      const files = workbook.SheetNames.map(name => {
+        const encoded = encodeText(sheetToDelimited(workbook.Sheets[name], separator, date1904), format);
+        unmappableCharacters += encoded.unmappableCharacters;
+        return { name: `${name}.${spec.extension}`, data: encoded.buffer };
+      });
+      if (unmappableCharacters > 0) {
+        console.log(`⚠️ CP949로 표현할 수 없는 글자 ${unmappableCharacters}개를 ?로 바꿈`);
+      }
+      const output = files.length === 1
+        ? { buffer: files[0].data, ...spec }
+        : { buffer: createZip(files), ...ZIP_SPEC };
+      return format === 'csv-cp949' ? { ...output, unmappableCharacters } : output;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import * as XLSX from 'xlsx';
+import { FidelityLevel } from './conversionReport';
+
+/**
+ * 결과 워크북 구조 품질 (모두 0~1)
+ */
+export interface QualityScore {
+  score: number;
+  columnConsistency: number;
+  headerPlausibility: number;
+  cellDensity: number;
+}
+
+/**
+ * 변환 상태
+ * - success: 기준 점수 이상
+ * - partial: 결과는 있으나 기준 점수 미달 (부분 복구)
+ * - failed: 결과 없음
+ */
+export type ConversionStatus = 'success' | 'partial' | 'failed';
+
+// 충실도별 최대 점수 (구조 품질을 곱해 최종 점수 계산)
+export const FIDELITY_SCORES: Record<FidelityLevel, number> = {
+  exact: 1,
+  normalized: 0.9,
+  partial: 0.6,
+  salvage: 0.2,
+};
+
+export const DEFAULT_QUALITY_THRESHOLD = 0.5;
+
+// 큰 시트는 앞부분만 검사
+const SAMPLE_ROWS = 1000;
+
+/**
+ * 환경 변수(CONVERSION_QUALITY_THRESHOLD)의 기준 점수, 없거나 잘못되면 기본값
+ */
+export function getQualityThreshold(): number {
+  const value = parseFloat(process.env.CONVERSION_QUALITY_THRESHOLD || '');
+  return isNaN(value) || value < 0 || value > 1 ? DEFAULT_QUALITY_THRESHOLD : value;
+}
+
+/**
+ * 점수와 기준으로 변환 상태 결정
+ */
+export function resolveConversionStatus(score: number, threshold: number): ConversionStatus {
+  if (score <= 0) {
+    return 'failed';
+  }
+  return score < threshold ? 'partial' : 'success';
+}
+
+// 제어 문자, C1 문자(잘못된 디코딩), 대체 문자(�)
+const BROKEN_TEXT_PATTERN = /[\uFFFD\x00-\x08\x0E-\x1F\x7F-\x9F]/;
+
+function isFilled(cell: any): boolean {
+  return cell !== null && cell !== undefined && String(cell).trim() !== '';
+}
+
+/**
+ * 깨진 문자 없이 읽을 수 있는 값인지
+ */
+function isReadable(cell: any): boolean {
+  return isFilled(cell) && !(typeof cell === 'string' && BROKEN_TEXT_PATTERN.test(cell));
+}
+
+/**
+ * 헤더다운 셀인지 (숫자만, 너무 긴 값, 깨진 문자는 제외)
+ */
+function isHeaderLike(cell: any): boolean {
+  if (typeof cell !== 'string') {
+    return false;
+  }
+  const text = cell.trim();
+  return text.length > 0 &&
+    text.length <= 60 &&
+    !/^[\d.,\-+\s%]+$/.test(text) &&
+    !BROKEN_TEXT_PATTERN.test(text);
+}
+
+/**
+ * 시트 하나의 품질과 값이 있는 셀 수
+ */
+function scoreSheet(sheet: XLSX.WorkSheet): { quality: QualityScore; filledCells: number } | null {
+  if (!sheet || !sheet['!ref']) {
+    return null;
+  }
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  range.e.r = Math.min(range.e.r, range.s.r + SAMPLE_ROWS - 1);
+  const rows = (XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null, raw: true, range }) as any[][])
+    .filter(row => row.some(isFilled));
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const widths = rows.map(row => row.filter(isFilled).length);
+  const filledCells = widths.reduce((sum, width) => sum + width, 0);
+
+  // 헤더: 첫 행 셀이 텍스트이고, 채워져 있고, 서로 달라야 함
+  const header = rows[0].slice(0, columnCount);
+  const headerCells = header.filter(isFilled);
+  const filledRatio = headerCells.length / columnCount;
+  const uniqueRatio = headerCells.length > 0
+    ? Array.from(new Set(headerCells.map(cell => String(cell).trim()))).length / headerCells.length
+    : 0;
+  const textRatio = headerCells.length > 0 ? headerCells.filter(isHeaderLike).length / headerCells.length : 0;
+  const headerPlausibility = textRatio * (0.5 + filledRatio * 0.25 + uniqueRatio * 0.25) * (columnCount > 1 ? 1 : 0.7);
+
+  // 열 일관성: 데이터 행의 채워진 셀 수가 가장 흔한 값과 얼마나 가까운지
+  const dataWidths = widths.slice(1);
+  let columnConsistency = 0.5;
+  if (dataWidths.length > 0) {
+    const counts: Record<number, number> = {};
+    dataWidths.forEach(width => { counts[width] = (counts[width] || 0) + 1; });
+    const mode = Object.keys(counts).map(Number).reduce((best, width) => counts[width] > counts[best] ? width : best);
+    columnConsistency = dataWidths.reduce((sum, width) => sum + Math.min(width, mode) / Math.max(width, mode), 0) / dataWidths.length;
+  }
+
+  // 셀 밀도: 사용 범위 중 깨지지 않은 값이 있는 셀 비율
+  const readableCells = rows.reduce((sum, row) => sum + row.filter(isReadable).length, 0);
+  const cellDensity = readableCells / (rows.length * columnCount);
+
+  return {
+    quality: {
+      score: columnConsistency * 0.4 + headerPlausibility * 0.3 + cellDensity * 0.3,
+      columnConsistency,
+      headerPlausibility,
+      cellDensity,
+    },
+    filledCells,
+  };
+}
+
+/**
+ * 워크북 구조 품질 (시트별 점수를 셀 수로 가중 평균)
+ */
+export function scoreWorkbookQuality(workbook: XLSX.WorkBook): QualityScore {
+  const total: QualityScore = { score: 0, columnConsistency: 0, headerPlausibility: 0, cellDensity: 0 };
+  let totalCells = 0;
+
+  workbook.SheetNames.forEach(name => {
+    const result = scoreSheet(workbook.Sheets[name]);
+    if (!result) {
+      return;
+    }
+    total.score += result.quality.score * result.filledCells;
+    total.columnConsistency += result.quality.columnConsistency * result.filledCells;
+    total.headerPlausibility += result.quality.headerPlausibility * result.filledCells;
+    total.cellDensity += result.quality.cellDensity * result.filledCells;
+    totalCells += result.filledCells;
+  });
+
+  if (totalCells === 0) {
+    return total;
+  }
+  return {
+    score: total.score / totalCells,
+    columnConsistency: total.columnConsistency / totalCells,
+    headerPlausibility: total.headerPlausibility / totalCells,
+    cellDensity: total.cellDensity / totalCells,
+  };
+}
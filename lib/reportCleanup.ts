@@ -0,0 +1,296 @@
+/**
+ * 소계·합계 행 처리 방식
+ * - sheet: 별도 시트로 옮김 (기본)
+ * - drop: 버림
+ * - keep: 데이터에 그대로 둠
+ */
+export type SubtotalMode = 'sheet' | 'drop' | 'keep';
+
+export const SUBTOTAL_MODES: SubtotalMode[] = ['sheet', 'drop', 'keep'];
+
+export const DEFAULT_SUBTOTAL_MODE: SubtotalMode = 'sheet';
+
+// 소계·합계 행을 옮기는 시트 이름
+export const SUBTOTAL_SHEET_NAME = '소계·합계';
+
+/**
+ * 인쇄 보고서 정리 결과
+ * - pages: 반복 헤더로 나눈 페이지 수 (반복 헤더가 없으면 1)
+ * - repeatedHeaderRows: 두 번째 페이지부터 제거한 헤더 블록(제목, 헤더) 행 수
+ * - pageLines: 제거한 페이지 번호, 출력 정보, 구분선, 바닥글 행 수
+ * - preambleRows: 첫 헤더 위에서 제거한 제목, 조회 조건 등의 행 수
+ * - subtotalRows: 찾은 소계·합계 행 수 (subtotalMode에 따라 옮기거나 버리거나 둠)
+ */
+export interface ReportCleanupReport {
+  pages: number;
+  repeatedHeaderRows: number;
+  pageLines: number;
+  preambleRows: number;
+  subtotalRows: number;
+  subtotalMode: SubtotalMode;
+}
+
+/**
+ * 정리한 표 (headerIncluded면 rows의 첫 행이 헤더)
+ */
+export interface ReportCleanupResult {
+  rows: string[][];
+  subtotals: string[][];
+  headerIncluded: boolean;
+  report: ReportCleanupReport;
+}
+
+/**
+ * 정리 옵션
+ * - force: 인쇄 보고서 구조(반복 헤더, 페이지 번호)가 없어도 소계·합계 행 처리
+ * - headerRow: 사용자가 지정한 헤더 행 위치 (-1이면 헤더 없음, 지정하지 않으면 반복되는 행으로 추정)
+ */
+export interface ReportCleanupOptions {
+  subtotals: SubtotalMode;
+  force?: boolean;
+  headerRow?: number;
+}
+
+// 페이지 번호와 출력 정보 행 ("- 3 -", "Page 1 of 5", "페이지: 2", "3쪽", "출력일시: ...")
+const PAGE_LINE_PATTERNS = [
+  /^-\s*\d+\s*-$/,
+  /\bpage\s*[:.]?\s*\d+(\s*(of|\/)\s*\d+)?/i,
+  /(페이지|쪽)\s*[:：]?\s*\d+/,
+  /\d+\s*(페이지|쪽)/,
+  /^(출력|인쇄)\s*(일|일자|일시|시각|자)\s*[:：]/,
+];
+
+// 페이지 번호 행으로 볼 최대 값 개수 (값이 많으면 데이터 행)
+const PAGE_LINE_MAX_CELLS = 4;
+
+// 구분선 (-----, ===== 등)
+const SEPARATOR_CELL = /^[-=_+*~]{3,}$/;
+
+// 소계·합계 표시 (공백, 괄호, 기호를 뺀 값 기준: "소계", "영업부 소계", "[합 계]", "Grand Total")
+const SUBTOTAL_LABEL = /^(계|.{0,20}(소계|합계|총계|누계|중계)|(sub|grand)?total)$/i;
+
+// 첫 헤더 앞에서 헤더를 찾을 최대 행 수
+const HEADER_SEARCH_ROWS = 30;
+
+function nonEmptyCells(row: string[]): string[] {
+  return row.map(cell => cell.trim()).filter(cell => cell !== '');
+}
+
+function rowKey(row: string[]): string {
+  return row.map(cell => cell.trim()).join('\u0000').replace(/\u0000+$/, '');
+}
+
+// 날짜, 페이지 번호처럼 숫자만 바뀌는 행을 같게 봄
+function digitKey(row: string[]): string {
+  return rowKey(row).replace(/\d/g, '0');
+}
+
+/**
+ * 페이지 번호, 출력 정보 텍스트인지
+ */
+export function isPageLineText(text: string): boolean {
+  return PAGE_LINE_PATTERNS.some(pattern => pattern.test(text.trim()));
+}
+
+function isPageLine(row: string[]): boolean {
+  const cells = nonEmptyCells(row);
+  if (cells.length === 0) {
+    return false;
+  }
+  return cells.every(cell => SEPARATOR_CELL.test(cell)) ||
+    (cells.length <= PAGE_LINE_MAX_CELLS && isPageLineText(cells.join(' ')));
+}
+
+/**
+ * 앞쪽 값 세 개 중에 소계·합계 표시가 있는 행인지
+ */
+function isSubtotalRow(row: string[]): boolean {
+  return nonEmptyCells(row).slice(0, 3).some(cell =>
+    SUBTOTAL_LABEL.test(cell.replace(/[\s*#:：=\-_.()[\]<>【】「」]/g, '')));
+}
+
+// 헤더로 볼 수 있는 행 (값이 둘 이상이고 절반 이상이 숫자 없는 글자)
+function isHeaderLike(row: string[]): boolean {
+  const cells = nonEmptyCells(row);
+  return cells.length >= 2 && cells.filter(cell => !/\d/.test(cell)).length * 2 > cells.length;
+}
+
+/**
+ * 반복되는 헤더 행 추정 (앞쪽에서 두 번 이상 반복되는 헤더 모양의 행 중 값이 가장 많은 행, 같으면 먼저 나온 행)
+ * - 바로 다음 행이 같은 행이면 중복 데이터로 봄
+ * - 위에 값이 같거나 많은 헤더 모양의 행이 있으면 그 표의 중복 데이터 행으로 봄
+ */
+function findRepeatedHeader(rows: string[][]): number {
+  const counts: Record<string, number> = {};
+  rows.forEach(row => {
+    const key = rowKey(row);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  const searchRows = rows.slice(0, HEADER_SEARCH_ROWS);
+  let header = -1;
+  searchRows.forEach((row, index) => {
+    const repeated = counts[rowKey(row)] >= 2 && !(index + 1 < rows.length && rowKey(rows[index + 1]) === rowKey(row));
+    if (repeated && isHeaderLike(row) && (header === -1 || nonEmptyCells(row).length > nonEmptyCells(rows[header]).length)) {
+      header = index;
+    }
+  });
+  if (header === -1) {
+    return -1;
+  }
+  const cells = nonEmptyCells(rows[header]).length;
+  return searchRows.slice(0, header).some(row => isHeaderLike(row) && nonEmptyCells(row).length >= cells) ? -1 : header;
+}
+
+/**
+ * 모든 페이지에서 같은 위치(기준 행에서 offset만큼 떨어진 행)의 행이 같은 동안의 행 수
+ * - 기준 위치마다 [min, max) 범위 안의 행만 비교
+ * - key가 null인 행(블록에 속할 수 없는 행)을 만나면 멈춤
+ */
+function countMatchingRows(
+  rows: string[][],
+  anchors: number[],
+  bounds: { min: number; max: number }[],
+  direction: 1 | -1,
+  key: (row: string[]) => string | null
+): number {
+  let count = 0;
+  for (;;) {
+    const offset = direction === 1 ? count + 1 : -(count + 1);
+    const positions = anchors.map(anchor => anchor + offset);
+    const inside = positions.every((position, index) => position >= bounds[index].min && position < bounds[index].max);
+    const keys = inside ? positions.map(position => key(rows[position])) : [];
+    if (!inside || keys.some(value => value === null || value !== keys[0])) {
+      return count;
+    }
+    count++;
+  }
+}
+
+/**
+ * 인쇄 보고서("파일로 인쇄" 결과)를 하나의 표로 정리
+ * - 페이지마다 반복되는 제목·헤더 블록은 첫 페이지 것만 남김 (첫 헤더 위의 제목, 조회 조건도 제거)
+ * - 페이지 번호, 출력 정보, 구분선, 페이지마다 반복되는 바닥글 행 제거
+ * - 소계·합계 행은 subtotals 방식에 따라 별도 목록으로 옮기거나 버리거나 둠
+ * - force가 아니면 반복 헤더나 페이지 번호가 없는 표는 그대로 둠 (null 반환)
+ */
+export function cleanupPrintedReport(rows: string[][], options: ReportCleanupOptions): ReportCleanupResult | null {
+  const removed: boolean[] = rows.map(isPageLine);
+  let pageLines = removed.filter(Boolean).length;
+
+  // 헤더 행 위치 (사용자 지정 우선)
+  let headerIndex = -1;
+  if (options.headerRow === undefined) {
+    headerIndex = findRepeatedHeader(rows.map((row, index) => removed[index] ? [] : row));
+  } else if (options.headerRow >= 0 && options.headerRow < rows.length) {
+    headerIndex = options.headerRow;
+  }
+  const headerKey = headerIndex !== -1 ? rowKey(rows[headerIndex]) : null;
+  const headers: number[] = [];
+  rows.forEach((row, index) => {
+    if (!removed[index] && index >= headerIndex && rowKey(row) === headerKey) {
+      headers.push(index);
+    }
+  });
+
+  if (!options.force && headers.length < 2 && pageLines === 0) {
+    return null;
+  }
+
+  // 페이지 번호 행을 뺀 행 번호로 페이지 구조 비교
+  const kept = rows.map((row, index) => index).filter(index => !removed[index]);
+  const keptRows = kept.map(index => rows[index]);
+  const anchors = headers.map(index => kept.indexOf(index));
+  let repeatedHeaderRows = 0;
+  let preambleRows = 0;
+  let afterCount = 0;
+
+  if (anchors.length > 0) {
+    // 바닥글은 글자가 있는 행만 (숫자만 다른 숫자 데이터 행을 바닥글로 보지 않도록)
+    const footerKey = (row: string[]) => /[A-Za-z가-힣]/.test(row.join('')) ? digitKey(row) : null;
+    const pageEnds = anchors.slice(1).concat(keptRows.length);
+    // 헤더 위 제목 블록 (숫자만 다른 행은 같게 봄): 첫 페이지의 헤더 위 행과 비교
+    const beforeCount = anchors.length > 1 ? countMatchingRows(
+      keptRows, anchors, anchors.map((anchor, index) => ({ min: index > 0 ? anchors[index - 1] + 1 : 0, max: anchor })), -1, digitKey
+    ) : 0;
+    // 헤더 아래 이어지는 헤더 행 (여러 줄 헤더, 단위 표시 등)
+    afterCount = anchors.length > 1 ? countMatchingRows(
+      keptRows, anchors, anchors.map((anchor, index) => ({ min: anchor, max: pageEnds[index] })), 1, rowKey
+    ) : 0;
+    const blockStarts = anchors.map(anchor => anchor - beforeCount);
+    // 페이지 끝 바닥글 (마지막 페이지에 바닥글이 없으면 나머지 페이지끼리 비교)
+    const footerEnds = blockStarts.slice(1).concat(keptRows.length);
+    const footerBounds = anchors.map((anchor, index) => ({ min: anchor + afterCount + 1, max: footerEnds[index] }));
+    let footerPages = anchors.length;
+    let footerCount = anchors.length > 1 ? countMatchingRows(keptRows, footerEnds, footerBounds, -1, footerKey) : 0;
+    if (footerCount === 0 && anchors.length > 2) {
+      footerPages = anchors.length - 1;
+      footerCount = countMatchingRows(keptRows, footerEnds.slice(0, footerPages), footerBounds.slice(0, footerPages), -1, footerKey);
+    }
+
+    const drop = (position: number) => {
+      removed[kept[position]] = true;
+    };
+    for (let position = 0; position < anchors[0]; position++) {
+      drop(position);
+      preambleRows++;
+    }
+    anchors.forEach((anchor, index) => {
+      if (index > 0) {
+        for (let position = blockStarts[index]; position <= anchor + afterCount; position++) {
+          drop(position);
+          repeatedHeaderRows++;
+        }
+      }
+      if (index < footerPages) {
+        for (let position = footerEnds[index] - footerCount; position < footerEnds[index]; position++) {
+          drop(position);
+          pageLines++;
+        }
+      }
+    });
+  }
+
+  // 헤더 블록 아래 데이터 행에서 소계·합계 행 분리
+  const dataStart = anchors.length > 0 ? kept[anchors[0] + afterCount] + 1 : 0;
+  const result: string[][] = [];
+  const subtotals: string[][] = [];
+  rows.forEach((row, index) => {
+    if (removed[index]) {
+      return;
+    }
+    if (index >= dataStart && options.subtotals !== 'keep' && isSubtotalRow(row)) {
+      subtotals.push(row);
+      return;
+    }
+    result.push(row);
+  });
+  if (subtotals.length > 0 || headers.length > 1 || pageLines > 0) {
+    console.log(`🧹 인쇄 보고서 정리: ${Math.max(headers.length, 1)}페이지, 반복 헤더 ${repeatedHeaderRows}행, 페이지 번호·바닥글 ${pageLines}행, 머리말 ${preambleRows}행, 소계·합계 ${subtotals.length}행 (${options.subtotals})`);
+  }
+
+  return {
+    rows: result,
+    subtotals: options.subtotals === 'sheet' ? subtotals : [],
+    headerIncluded: anchors.length > 0,
+    report: {
+      pages: Math.max(headers.length, 1),
+      repeatedHeaderRows,
+      pageLines,
+      preambleRows,
+      subtotalRows: subtotals.length,
+      subtotalMode: options.subtotals,
+    },
+  };
+}
+
+/**
+ * 인쇄 보고서로 보이는 텍스트인지 (페이지 번호 행, 또는 앞쪽의 숫자 없는 행이 그대로 반복)
+ */
+export function looksLikePrintedReport(lines: string[]): boolean {
+  const texts = lines.map(line => line.replace(/["\t,;|]+/g, ' ').trim()).filter(text => text !== '');
+  if (texts.some(text => text.length <= 80 && isPageLineText(text))) {
+    return true;
+  }
+  return texts.slice(0, HEADER_SEARCH_ROWS).some((text, index) =>
+    !/\d/.test(text) && /\S\s+\S/.test(text) && !/^[-=_+*~\s]+$/.test(text) && texts.indexOf(text, index + 1) !== -1);
+}
@@ -0,0 +1,194 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * 보존 대상 레이아웃 속성
+ * - columns: 열 너비, 숨긴 열
+ * - rows: 행 높이, 숨긴 행
+ */
+export type LayoutProperty = 'merges' | 'columns' | 'rows' | 'freezePanes' | 'autofilter' | 'hiddenSheets';
+
+/**
+ * 틀 고정/창 나누기 정보 (frozen이면 xSplit, ySplit은 고정된 열/행 수)
+ */
+export interface SheetPane {
+  xSplit: number;
+  ySplit: number;
+  topLeftCell: string;
+  frozen: boolean;
+}
+
+/**
+ * 유지하지 못한 레이아웃 속성
+ */
+export interface LayoutIssue {
+  sheet: string;
+  property: LayoutProperty;
+  reason: string;
+}
+
+/**
+ * 레이아웃 보존 결과
+ */
+export interface LayoutReport {
+  preserved: LayoutProperty[];
+  dropped: LayoutIssue[];
+}
+
+// 원본 시트의 창 정보를 담는 시트 속성 (SheetJS가 읽고 쓰지 않으므로 직접 처리)
+export const PANE_KEY = '!pane';
+
+export function createLayoutReport(): LayoutReport {
+  return { preserved: [], dropped: [] };
+}
+
+function markPreserved(report: LayoutReport, property: LayoutProperty): void {
+  if (report.preserved.indexOf(property) === -1) {
+    report.preserved.push(property);
+  }
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+/**
+ * 워크시트 XML의 <pane> 읽기 (없으면 null)
+ */
+export function parseSheetPane(sheetXml: string): SheetPane | null {
+  const match = sheetXml.match(/<(?:\w+:)?pane\b([^>]*?)\/?>/);
+  if (!match) {
+    return null;
+  }
+  const state = readAttribute(match[1], 'state') || 'split';
+  return {
+    xSplit: Number(readAttribute(match[1], 'xSplit') || 0),
+    ySplit: Number(readAttribute(match[1], 'ySplit') || 0),
+    topLeftCell: readAttribute(match[1], 'topLeftCell') || 'A1',
+    frozen: state === 'frozen' || state === 'frozenSplit',
+  };
+}
+
+function rangesOverlap(a: XLSX.Range, b: XLSX.Range): boolean {
+  return a.s.r <= b.e.r && b.s.r <= a.e.r && a.s.c <= b.e.c && b.s.c <= a.e.c;
+}
+
+/**
+ * 범위와 겹치는 병합 해제 (레이아웃 유지 중 여러 행 헤더를 한 행으로 합칠 때)
+ */
+export function dropMergesInRange(sheet: XLSX.WorkSheet, range: XLSX.Range, sheetName: string, reason: string, report: LayoutReport): void {
+  const merges: XLSX.Range[] = sheet['!merges'] || [];
+  const kept = merges.filter(merge => !rangesOverlap(merge, range));
+  if (kept.length === merges.length) {
+    return;
+  }
+  merges.filter(merge => rangesOverlap(merge, range)).forEach(merge => {
+    report.dropped.push({ sheet: sheetName, property: 'merges', reason: `${reason} ${XLSX.utils.encode_range(merge)}` });
+  });
+  if (kept.length > 0) {
+    sheet['!merges'] = kept;
+  } else {
+    delete sheet['!merges'];
+  }
+}
+
+/**
+ * 원본 시트의 레이아웃(병합, 열/행 정보, 자동 필터, 틀 고정)을 새 시트로 복사
+ * - 다른 병합과 겹치는 병합은 Excel이 파일을 복구하게 되므로 제외
+ * - 고정되지 않은 창 나누기는 좌표 단위가 달라 유지하지 않음
+ */
+export function copySheetLayout(source: XLSX.WorkSheet, target: XLSX.WorkSheet, sheetName: string, report: LayoutReport): void {
+  const merges: XLSX.Range[] = source['!merges'] || [];
+  if (merges.length > 0) {
+    const kept: XLSX.Range[] = [];
+    merges.forEach(merge => {
+      if (kept.some(other => rangesOverlap(other, merge))) {
+        report.dropped.push({ sheet: sheetName, property: 'merges', reason: `다른 병합과 겹치는 병합 영역 ${XLSX.utils.encode_range(merge)}` });
+      } else {
+        kept.push(merge);
+      }
+    });
+    if (kept.length > 0) {
+      target['!merges'] = kept;
+      markPreserved(report, 'merges');
+    }
+  }
+
+  if (source['!cols'] && source['!cols'].length > 0) {
+    target['!cols'] = source['!cols'].slice();
+    markPreserved(report, 'columns');
+  }
+  if (source['!rows'] && source['!rows'].length > 0) {
+    target['!rows'] = source['!rows'].slice();
+    markPreserved(report, 'rows');
+  }
+  if (source['!autofilter']) {
+    target['!autofilter'] = { ...source['!autofilter'] };
+    markPreserved(report, 'autofilter');
+  }
+
+  const pane: SheetPane | undefined = source[PANE_KEY];
+  if (pane) {
+    if (pane.frozen && (pane.xSplit > 0 || pane.ySplit > 0)) {
+      target[PANE_KEY] = pane;
+      markPreserved(report, 'freezePanes');
+    } else if (!pane.frozen) {
+      report.dropped.push({ sheet: sheetName, property: 'freezePanes', reason: '고정되지 않은 창 나누기는 유지하지 않음' });
+    }
+  }
+}
+
+/**
+ * 숨긴 시트 상태 복사 (모든 시트가 숨겨져 있으면 Excel이 열 수 없으므로 첫 시트 표시)
+ */
+export function copyHiddenSheets(source: XLSX.WorkBook, target: XLSX.WorkBook, report: LayoutReport): void {
+  const sourceSheets = (source.Workbook && source.Workbook.Sheets) || [];
+  const hidden: (0 | 1 | 2)[] = source.SheetNames.map(name => {
+    const sheet = sourceSheets.find(entry => entry.name === name);
+    return sheet && sheet.Hidden ? sheet.Hidden : 0;
+  });
+  if (hidden.every(state => state === 0)) {
+    return;
+  }
+  if (hidden.indexOf(0) === -1) {
+    hidden[0] = 0;
+    report.dropped.push({ sheet: target.SheetNames[0], property: 'hiddenSheets', reason: '모든 시트가 숨겨져 있어 첫 시트를 표시' });
+  }
+  target.Workbook = target.Workbook || {};
+  target.Workbook.Sheets = target.SheetNames.map((name, index) => ({ name, Hidden: hidden[index] }));
+  markPreserved(report, 'hiddenSheets');
+}
+
+/**
+ * 틀 고정 <pane> 요소
+ */
+function paneElement(pane: SheetPane): string {
+  const activePane = pane.xSplit > 0 && pane.ySplit > 0 ? 'bottomRight' : pane.ySplit > 0 ? 'bottomLeft' : 'topRight';
+  return '<pane' +
+    (pane.xSplit > 0 ? ` xSplit="${pane.xSplit}"` : '') +
+    (pane.ySplit > 0 ? ` ySplit="${pane.ySplit}"` : '') +
+    ` topLeftCell="${pane.topLeftCell}" activePane="${activePane}" state="frozen"/>`;
+}
+
+/**
+ * 작성된 .xlsx에 틀 고정 추가 (SheetJS는 시트 순서대로 sheet1.xml, sheet2.xml ... 로 작성)
+ */
+export function applyFreezePanes(xlsxBuffer: Buffer, workbook: XLSX.WorkBook): Buffer {
+  const panes = workbook.SheetNames.map(name => workbook.Sheets[name][PANE_KEY] as SheetPane | undefined);
+  if (!panes.some(pane => !!pane)) {
+    return xlsxBuffer;
+  }
+
+  const container = XLSX.CFB.read(xlsxBuffer, { type: 'buffer' });
+  panes.forEach((pane, index) => {
+    if (!pane) return;
+    const entry = XLSX.CFB.find(container, `/xl/worksheets/sheet${index + 1}.xml`);
+    if (!entry || !entry.content) return;
+    const xml = Buffer.from(entry.content as Uint8Array).toString('utf8');
+    const updated = xml.replace(/<sheetView\b([^>]*?)\/>/, (_, attributes) => `<sheetView${attributes}>${paneElement(pane)}</sheetView>`);
+    entry.content = Buffer.from(updated, 'utf8');
+    entry.size = entry.content.length;
+  });
+  console.log('🧊 틀 고정 적용:', panes.filter(pane => !!pane).length, '개 시트');
+  return Buffer.from(XLSX.CFB.write(container, { type: 'buffer', fileType: 'zip', compression: true }));
+}
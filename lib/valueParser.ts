@@ -0,0 +1,373 @@
+/**
+ * 값 해석 로캘 (날짜 순서, 소수점/천 단위 기호, 통화 표기가 다름)
+ */
+export type ValueLocale = 'ko-KR' | 'en-US' | 'de-DE';
+
+export const SUPPORTED_LOCALES: ValueLocale[] = ['ko-KR', 'en-US', 'de-DE'];
+export const DEFAULT_LOCALE: ValueLocale = 'ko-KR';
+
+/**
+ * 해석한 셀 값
+ * - 날짜/시간은 Excel 일련번호(숫자)로, format에 표시 형식
+ * - format이 없으면 일반 형식
+ */
+export interface ParsedValue {
+  value: number | boolean | string;
+  format?: string;
+}
+
+/**
+ * 로캘별 해석 규칙
+ */
+interface LocaleRules {
+  decimal: string;
+  group: string;
+  /** 연도가 앞에 오지 않는 날짜(1/5/2024, 05.01.2024, 24-01-05)의 순서 */
+  dateOrder: 'ymd' | 'mdy' | 'dmy';
+  /** 2024년 1월 5일 형식의 년/월/일 표기 */
+  dateUnits?: [string, string, string];
+  dateFormat: string;
+  /** 12시간제 시간 표시 형식 */
+  meridiemTimeFormat: string;
+  am: string[];
+  pm: string[];
+  /** 숫자 앞/뒤 통화 표기 */
+  currencyPrefixes: string[];
+  currencySuffixes: string[];
+  /** 숫자 뒤 단위 배수 (1.2만 등) */
+  units: Record<string, number>;
+  trueWords: string[];
+  falseWords: string[];
+}
+
+const LOCALE_RULES: Record<ValueLocale, LocaleRules> = {
+  'ko-KR': {
+    decimal: '.',
+    group: ',',
+    dateOrder: 'ymd',
+    dateUnits: ['년', '월', '일'],
+    dateFormat: 'yyyy-mm-dd',
+    meridiemTimeFormat: '[$-412]AM/PM h:mm',
+    am: ['오전', 'am', 'a.m.'],
+    pm: ['오후', 'pm', 'p.m.'],
+    currencyPrefixes: ['₩', '￦', 'KRW', '$', 'US$'],
+    currencySuffixes: ['원', 'KRW'],
+    units: { 천: 1e3, 만: 1e4, 억: 1e8, 조: 1e12 },
+    trueWords: ['true', '참', 'yes'],
+    falseWords: ['false', '거짓', 'no'],
+  },
+  'en-US': {
+    decimal: '.',
+    group: ',',
+    dateOrder: 'mdy',
+    dateFormat: 'm/d/yyyy',
+    meridiemTimeFormat: 'h:mm AM/PM',
+    am: ['am', 'a.m.'],
+    pm: ['pm', 'p.m.'],
+    currencyPrefixes: ['$', 'US$', 'USD', '€', '£', '₩'],
+    currencySuffixes: ['USD'],
+    units: {},
+    trueWords: ['true', 'yes'],
+    falseWords: ['false', 'no'],
+  },
+  'de-DE': {
+    decimal: ',',
+    group: '.',
+    dateOrder: 'dmy',
+    dateFormat: 'dd\\.mm\\.yyyy',
+    meridiemTimeFormat: 'h:mm AM/PM',
+    am: ['am', 'a.m.'],
+    pm: ['pm', 'p.m.'],
+    currencyPrefixes: ['€', 'EUR'],
+    currencySuffixes: ['€', 'EUR'],
+    units: {},
+    trueWords: ['true', 'wahr', 'ja'],
+    falseWords: ['false', 'falsch', 'nein'],
+  },
+};
+
+// Excel 일련번호 기준일 (1900 날짜 체계는 1900-02-29 버그 반영 전, 1904 날짜 체계는 1904-01-01이 0)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const EXCEL_EPOCH_1904 = Date.UTC(1904, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 지원 로캘로 변환 (지정하지 않았거나 지원하지 않으면 기본 로캘)
+ */
+export function resolveLocale(locale?: string): ValueLocale {
+  return SUPPORTED_LOCALES.indexOf(locale as ValueLocale) !== -1 ? (locale as ValueLocale) : DEFAULT_LOCALE;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * UTC 기준 시각을 Excel 일련번호로
+ */
+function timeToSerial(time: number, date1904: boolean): number {
+  if (date1904) {
+    return (time - EXCEL_EPOCH_1904) / DAY_MS;
+  }
+  const serial = (time - EXCEL_EPOCH) / DAY_MS;
+  // Excel은 1900-02-29가 있다고 보므로 그 이전 날짜는 하루 앞당김
+  return serial < 61 ? serial - 1 : serial;
+}
+
+/**
+ * Date를 Excel 일련번호로 (로컬 시각의 연월일/시분초 기준)
+ */
+export function dateToSerial(date: Date, date1904: boolean = false): number {
+  const time = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+  return timeToSerial(time, date1904);
+}
+
+/**
+ * 연/월/일을 Excel 일련번호로 (존재하지 않는 날짜면 null)
+ */
+function dateSerial(year: number, month: number, day: number, date1904: boolean): number | null {
+  if (month < 1 || month > 12 || day < 1) {
+    return null;
+  }
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return timeToSerial(time, date1904);
+}
+
+/**
+ * 두 자리 연도는 Excel과 같이 00~29는 2000년대, 30~99는 1900년대
+ */
+function expandYear(year: string): number | null {
+  if (year.length === 4) {
+    return parseInt(year, 10);
+  }
+  if (year.length === 2) {
+    const value = parseInt(year, 10);
+    return value < 30 ? 2000 + value : 1900 + value;
+  }
+  return null;
+}
+
+/**
+ * 시간 해석 (하루 중 비율과 표시 형식)
+ * - 오전 9:30, 오후 2:05, 2:05 PM, 14:05, 14:05:30
+ */
+function parseTime(text: string, rules: LocaleRules): ParsedValue | null {
+  const markers = rules.am.concat(rules.pm).map(escapeRegExp).join('|');
+  const match = text.match(new RegExp(`^(?:(${markers})\\s*)?(\\d{1,2}):(\\d{2})(?::(\\d{2}))?(?:\\s*(${markers}))?$`, 'i'));
+  if (!match || (match[1] && match[5])) {
+    return null;
+  }
+  let hour = parseInt(match[2], 10);
+  const minute = parseInt(match[3], 10);
+  const second = match[4] ? parseInt(match[4], 10) : 0;
+  const meridiem = (match[1] || match[5] || '').toLowerCase();
+  if (minute > 59 || second > 59) {
+    return null;
+  }
+
+  let format = match[4] ? 'hh:mm:ss' : 'hh:mm';
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    const isPm = rules.pm.some(marker => marker.toLowerCase() === meridiem);
+    hour = (hour % 12) + (isPm ? 12 : 0);
+    format = match[4] ? rules.meridiemTimeFormat.replace('h:mm', 'h:mm:ss') : rules.meridiemTimeFormat;
+  } else if (hour > 23) {
+    return null;
+  }
+  return { value: (hour * 3600 + minute * 60 + second) / 86400, format };
+}
+
+/**
+ * 날짜(와 선택적 시간) 해석
+ * - 2024-01-05, 2024.01.05, 2024/1/5, 2024. 1. 5., 2024년 1월 5일, 20240105
+ * - 연도가 앞에 오지 않으면 로캘 순서 (ko-KR 24-01-05, en-US 1/5/2024, de-DE 05.01.2024)
+ */
+function parseDate(text: string, rules: LocaleRules, date1904: boolean): ParsedValue | null {
+  let year: number | null = null;
+  let month = 0;
+  let day = 0;
+  let rest = '';
+
+  const units = rules.dateUnits;
+  const unitMatch = units
+    ? text.match(new RegExp(`^(\\d{2}|\\d{4})\\s*${units[0]}\\s*(\\d{1,2})\\s*${units[1]}\\s*(\\d{1,2})\\s*${units[2]}(?:\\s+(.+))?$`))
+    : null;
+  const partsMatch = text.match(/^(\d{1,4})([-./])\s*(\d{1,2})\2\s*(\d{1,4})\.?(?:(?:\s+|T)(.+))?$/);
+  const compactMatch = text.match(/^((?:19|20)\d{2})(\d{2})(\d{2})$/);
+
+  if (unitMatch) {
+    year = expandYear(unitMatch[1]);
+    month = parseInt(unitMatch[2], 10);
+    day = parseInt(unitMatch[3], 10);
+    rest = unitMatch[4] || '';
+  } else if (partsMatch) {
+    const first = partsMatch[1];
+    const second = partsMatch[3];
+    const third = partsMatch[4];
+    const order = first.length === 4 ? 'ymd' : rules.dateOrder;
+    if (order === 'ymd') {
+      year = third.length <= 2 ? expandYear(first) : null;
+      month = parseInt(second, 10);
+      day = parseInt(third, 10);
+    } else {
+      year = first.length <= 2 ? expandYear(third) : null;
+      month = parseInt(order === 'mdy' ? first : second, 10);
+      day = parseInt(order === 'mdy' ? second : first, 10);
+    }
+    rest = partsMatch[5] || '';
+  } else if (compactMatch) {
+    year = parseInt(compactMatch[1], 10);
+    month = parseInt(compactMatch[2], 10);
+    day = parseInt(compactMatch[3], 10);
+  }
+
+  const serial = year !== null ? dateSerial(year, month, day, date1904) : null;
+  if (serial === null) {
+    return null;
+  }
+  if (!rest) {
+    return { value: serial, format: rules.dateFormat };
+  }
+  const time = parseTime(rest.trim(), rules);
+  return time ? { value: serial + (time.value as number), format: `${rules.dateFormat} ${time.format}` } : null;
+}
+
+/**
+ * 숫자 표시 형식 (#,##0.00 등)
+ */
+function numberFormat(decimals: number, grouped: boolean): string {
+  let format = grouped ? '#,##0' : '0';
+  if (decimals > 0) {
+    format += '.' + new Array(decimals + 1).join('0');
+  }
+  return format;
+}
+
+function quoteLiteral(literal: string): string {
+  return literal ? `"${literal}"` : '';
+}
+
+/**
+ * 숫자 해석 (로캘의 소수점/천 단위 기호, 통화, 퍼센트, 단위, 회계식 음수)
+ * - ₩1,200 / 1,200원 / $1,200.50 / 1.234,56 € / 1.2만 / (1,200) / 12.5%
+ */
+function parseNumber(text: string, rules: LocaleRules): ParsedValue | null {
+  let body = text;
+  let negative = false;
+  let accounting = false;
+  let prefix = '';
+  let suffix = '';
+  let percent = false;
+  let multiplier = 1;
+
+  // 회계식 음수 (1,200)
+  const parenMatch = body.match(/^\((.+)\)$/);
+  if (parenMatch) {
+    accounting = true;
+    negative = true;
+    body = parenMatch[1].trim();
+  }
+  const readSign = () => {
+    const signMatch = body.match(/^([-−+])\s*/);
+    if (signMatch) {
+      negative = negative !== (signMatch[1] !== '+');
+      body = body.substring(signMatch[0].length);
+    }
+  };
+  readSign();
+
+  rules.currencyPrefixes.some(symbol => {
+    if (body.indexOf(symbol) !== 0) return false;
+    const after = body.substring(symbol.length);
+    prefix = symbol + (/^\s/.test(after) ? ' ' : '');
+    body = after.trim();
+    return true;
+  });
+  if (prefix) {
+    readSign();
+  }
+
+  if (/%$/.test(body)) {
+    percent = true;
+    body = body.replace(/\s*%$/, '');
+  } else {
+    rules.currencySuffixes.some(symbol => {
+      if (body.length <= symbol.length || body.lastIndexOf(symbol) !== body.length - symbol.length) return false;
+      const before = body.substring(0, body.length - symbol.length);
+      suffix = (/\s$/.test(before) ? ' ' : '') + symbol;
+      body = before.trim();
+      return true;
+    });
+    Object.keys(rules.units).some(unit => {
+      if (body.length <= unit.length || body.lastIndexOf(unit) !== body.length - unit.length) return false;
+      multiplier = rules.units[unit];
+      body = body.substring(0, body.length - unit.length).trim();
+      return true;
+    });
+  }
+  if (prefix && (suffix || percent)) {
+    return null;
+  }
+
+  const group = escapeRegExp(rules.group);
+  const decimal = escapeRegExp(rules.decimal);
+  const match = body.match(new RegExp(`^(\\d{1,3}(?:${group}\\d{3})+|\\d+)(?:${decimal}(\\d+))?$`));
+  if (!match) {
+    return null;
+  }
+  const grouped = match[1].indexOf(rules.group) !== -1;
+  const fraction = match[2] || '';
+  let value = parseFloat(match[1].split(rules.group).join('') + (fraction ? '.' + fraction : ''));
+  value = value * multiplier / (percent ? 100 : 1);
+  // 배수 곱셈에서 생기는 부동소수점 오차 제거 (1.1만 → 11000)
+  value = Number(value.toPrecision(15)) * (negative ? -1 : 1);
+  if (!isFinite(value)) {
+    return null;
+  }
+
+  if (percent) {
+    return { value, format: numberFormat(fraction.length, false) + '%' };
+  }
+  const decimals = multiplier === 1 ? fraction.length : 0;
+  const adorned = !!prefix || !!suffix || accounting || multiplier !== 1;
+  if (!adorned && !grouped) {
+    return { value };
+  }
+  const positive = quoteLiteral(prefix) + numberFormat(decimals, true) + quoteLiteral(suffix);
+  return { value, format: accounting ? `${positive};(${positive})` : positive };
+}
+
+/**
+ * 텍스트 셀 값을 로캘 규칙으로 해석 (숫자, 퍼센트, 통화, 날짜, 시간, 불린)
+ * - 인식하지 못한 값은 앞뒤 공백만 제거한 문자열
+ * - date1904: 날짜를 1904 날짜 체계 일련번호로 계산
+ */
+export function parseLocaleValue(text: string, locale: ValueLocale = DEFAULT_LOCALE, date1904: boolean = false): ParsedValue {
+  const trimmed = text ? text.trim() : '';
+  if (trimmed === '') {
+    return { value: '' };
+  }
+  const rules = LOCALE_RULES[locale];
+
+  const lowerValue = trimmed.toLowerCase();
+  if (rules.trueWords.indexOf(lowerValue) !== -1) {
+    return { value: true };
+  }
+  if (rules.falseWords.indexOf(lowerValue) !== -1) {
+    return { value: false };
+  }
+
+  return parseDate(trimmed, rules, date1904) ||
+    parseTime(trimmed, rules) ||
+    parseNumber(trimmed, rules) ||
+    { value: trimmed };
+}
@@ -0,0 +1,531 @@
+import * as crypto from 'crypto';
+import * as XLSX from 'xlsx';
+
+/**
+ * 암호화 방식
+ * - agile, standard: ECMA-376 암호화 (.xlsx, EncryptedPackage 스트림)
+ * - extensible: ECMA-376 확장 암호화 (타사 암호화 모듈 필요, 지원하지 않음)
+ * - rc4, rc4-cryptoapi, xor: 구 .xls의 FILEPASS 암호화
+ */
+export type EncryptionScheme = 'agile' | 'standard' | 'extensible' | 'rc4' | 'rc4-cryptoapi' | 'xor';
+
+// 쓰기 보호만 설정한 통합 문서를 Excel이 암호화할 때 쓰는 기본 암호
+export const DEFAULT_PASSWORD = 'VelvetSweatshop';
+
+// BIFF 레코드 종류
+const RECORD = {
+  EOF: 0x000a,
+  FILEPASS: 0x002f,
+  BOUNDSHEET: 0x0085,
+  INTERFACEEND: 0x00e2,
+};
+
+// 암호화되지 않는 레코드 (BOUNDSHEET는 시트 위치 4바이트만 평문)
+const PLAIN_RECORDS = [0x0809, 0x0209, 0x0409, 0x0009, 0x002f, 0x0194, 0x0195, 0x00e1, 0x0196, 0x0138];
+
+// .xls RC4 암호화는 1024바이트마다 키를 새로 만듦
+const BIFF_BLOCK_SIZE = 1024;
+
+// Agile 암호화 패키지 구간 크기
+const PACKAGE_SEGMENT_SIZE = 4096;
+
+// Agile 암호화의 키 용도별 블록 키
+const BLOCK_KEYS = {
+  verifierHashInput: Buffer.from([0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79]),
+  verifierHashValue: Buffer.from([0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e]),
+  encryptedKeyValue: Buffer.from([0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6]),
+};
+
+// ECMA-376 Standard 암호화 반복 횟수
+const STANDARD_SPIN_COUNT = 50000;
+
+// Agile 해시 알고리즘 이름 → Node 이름
+const HASH_ALGORITHMS: Record<string, string> = {
+  SHA1: 'sha1',
+  SHA256: 'sha256',
+  SHA384: 'sha384',
+  SHA512: 'sha512',
+  MD5: 'md5',
+};
+
+// XOR 난독화 상수 ([MS-OFFCRYPTO] 2.3.7.2)
+const XOR_PAD = [0xbb, 0xff, 0xff, 0xba, 0xff, 0xff, 0xb9, 0x80, 0x00, 0xbe, 0x0f, 0x00, 0xbf, 0x0f, 0x00];
+const XOR_INITIAL_CODE = [0xe1f0, 0x1d0f, 0xcc9c, 0x84c0, 0x110c, 0x0e10, 0xf1ce, 0x313e, 0x1872, 0xe139, 0xd40f, 0x84f9, 0x280c, 0xa96a, 0x4ec3];
+const XOR_MATRIX = [
+  0xaefc, 0x4dd9, 0x9bb2, 0x2745, 0x4e8a, 0x9d14, 0x2a09, 0x7b61, 0xf6c2, 0xfda5, 0xeb6b, 0xc6f7, 0x9dcf, 0x2bbf, 0x4563,
+  0x8ac6, 0x05ad, 0x0b5a, 0x16b4, 0x2d68, 0x5ad0, 0x0375, 0x06ea, 0x0dd4, 0x1ba8, 0x3750, 0x6ea0, 0xdd40, 0xd849, 0xa0b3,
+  0x5147, 0xa28e, 0x553d, 0xaa7a, 0x44d5, 0x6f45, 0xde8a, 0xad35, 0x4a4b, 0x9496, 0x390d, 0x721a, 0xeb23, 0xc667, 0x9cef,
+  0x29ff, 0x53fe, 0xa7fc, 0x5fd9, 0x47d3, 0x8fa6, 0x0f6d, 0x1eda, 0x3db4, 0x7b68, 0xf6d0, 0xb861, 0x60e3, 0xc1c6, 0x93ad,
+  0x377b, 0x6ef6, 0xddec, 0x45a0, 0x8b40, 0x06a1, 0x0d42, 0x1a84, 0x3508, 0x6a10, 0xaa51, 0x4483, 0x8906, 0x022d, 0x045a,
+  0x08b4, 0x1168, 0x76b4, 0xed68, 0xcaf1, 0x85c3, 0x1ba7, 0x374e, 0x6e9c, 0x3730, 0x6e60, 0xdcc0, 0xa9a1, 0x4363, 0x86c6,
+  0x1dad, 0x3331, 0x6662, 0xccc4, 0x89a9, 0x0373, 0x06e6, 0x0dcc, 0x1021, 0x2042, 0x4084, 0x8108, 0x1231, 0x2462, 0x48c4,
+];
+
+/**
+ * CryptoAPI 암호화 헤더와 검증자 (Standard, RC4 CryptoAPI 공통)
+ */
+interface CryptoApiInfo {
+  algorithmId: number;
+  keyBits: number;
+  salt: Buffer;
+  encryptedVerifier: Buffer;
+  encryptedVerifierHash: Buffer;
+}
+
+/**
+ * BIFF 레코드 위치
+ */
+interface BiffRecordSpan {
+  type: number;
+  offset: number;
+  length: number;
+}
+
+function readContainer(buffer: Buffer): any | null {
+  try {
+    return XLSX.CFB.read(buffer, { type: 'buffer' });
+  } catch (error) {
+    return null;
+  }
+}
+
+function readStream(container: any, path: string): Buffer | null {
+  const entry = XLSX.CFB.find(container, path);
+  return entry && entry.content && entry.content.length > 0 ? Buffer.from(entry.content) : null;
+}
+
+function findWorkbookStream(container: any): { name: string; stream: Buffer } | null {
+  const workbook = readStream(container, '/Workbook');
+  if (workbook) {
+    return { name: 'Workbook', stream: workbook };
+  }
+  const book = readStream(container, '/Book');
+  return book ? { name: 'Book', stream: book } : null;
+}
+
+/**
+ * 워크북 스트림을 레코드 단위로 분할 (레코드 헤더는 암호화되지 않음)
+ */
+function readRecordSpans(stream: Buffer): BiffRecordSpan[] {
+  const spans: BiffRecordSpan[] = [];
+  let offset = 0;
+  while (offset + 4 <= stream.length) {
+    const type = stream.readUInt16LE(offset);
+    const length = Math.min(stream.readUInt16LE(offset + 2), stream.length - offset - 4);
+    spans.push({ type, offset, length });
+    offset += 4 + length;
+  }
+  return spans;
+}
+
+/**
+ * 전역 하위 스트림의 FILEPASS 레코드 찾기
+ */
+function findFilePass(stream: Buffer, spans: BiffRecordSpan[]): { span: BiffRecordSpan; data: Buffer } | null {
+  for (let i = 0; i < spans.length && spans[i].type !== RECORD.EOF; i++) {
+    if (spans[i].type === RECORD.FILEPASS) {
+      const start = spans[i].offset + 4;
+      return { span: spans[i], data: stream.subarray(start, start + spans[i].length) };
+    }
+  }
+  return null;
+}
+
+function readFilePassScheme(data: Buffer): EncryptionScheme {
+  // BIFF5 FILEPASS는 암호화 종류 없이 XOR 키와 검증값만 가짐
+  if (data.length === 4 || data.readUInt16LE(0) === 0) {
+    return 'xor';
+  }
+  return data.readUInt16LE(2) === 1 ? 'rc4' : 'rc4-cryptoapi';
+}
+
+function readPackageScheme(info: Buffer): EncryptionScheme {
+  const major = info.readUInt16LE(0);
+  const minor = info.readUInt16LE(2);
+  if (major === 4 && minor === 4) {
+    return 'agile';
+  }
+  return minor === 3 ? 'extensible' : 'standard';
+}
+
+/**
+ * 암호화된 .xlsx/.xls 감지 (암호화되지 않았으면 null)
+ */
+export function detectEncryption(buffer: Buffer): EncryptionScheme | null {
+  const container = readContainer(buffer);
+  return container ? detectContainerEncryption(container) : null;
+}
+
+function detectContainerEncryption(container: any): EncryptionScheme | null {
+  const info = readStream(container, '/EncryptionInfo');
+  if (info && info.length >= 4 && readStream(container, '/EncryptedPackage')) {
+    return readPackageScheme(info);
+  }
+  const workbook = findWorkbookStream(container);
+  const filePass = workbook && findFilePass(workbook.stream, readRecordSpans(workbook.stream));
+  return filePass && filePass.data.length >= 4 ? readFilePassScheme(filePass.data) : null;
+}
+
+function hash(algorithm: string, ...parts: Buffer[]): Buffer {
+  const digest = crypto.createHash(algorithm);
+  parts.forEach(part => digest.update(part));
+  return digest.digest();
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value, 0);
+  return buffer;
+}
+
+/**
+ * 길이 맞추기 (짧으면 채움 바이트로 늘림)
+ */
+function fitLength(data: Buffer, length: number, fill: number): Buffer {
+  return data.length >= length ? data.subarray(0, length) : Buffer.concat([data, Buffer.alloc(length - data.length, fill)]);
+}
+
+function decryptAes(mode: 'cbc' | 'ecb', key: Buffer, iv: Buffer | null, data: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(`aes-${key.length * 8}-${mode}`, key, iv);
+  decipher.setAutoPadding(false);
+  const blocks = data.subarray(0, data.length - (data.length % 16));
+  return Buffer.concat([decipher.update(blocks), decipher.final()]);
+}
+
+/**
+ * 반복 해시로 암호 키 재료 생성 ([MS-OFFCRYPTO] 2.3.4.7, 2.3.4.11)
+ */
+function iterateHash(algorithm: string, salt: Buffer, password: string, spinCount: number): Buffer {
+  let value = hash(algorithm, salt, Buffer.from(password, 'utf16le'));
+  for (let i = 0; i < spinCount; i++) {
+    value = hash(algorithm, uint32(i), value);
+  }
+  return value;
+}
+
+/**
+ * EncryptedPackage 앞 8바이트는 복호화된 패키지 크기
+ */
+function readPackageSize(encryptedPackage: Buffer): number {
+  return encryptedPackage.readUInt32LE(0) + encryptedPackage.readUInt32LE(4) * 0x100000000;
+}
+
+function readXmlAttributes(xml: string, element: string): Record<string, string> | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${element}\\b([^>]*)>`));
+  if (!match) {
+    return null;
+  }
+  const attributes: Record<string, string> = {};
+  match[1].replace(/(\w+)="([^"]*)"/g, (_, name: string, value: string) => {
+    attributes[name] = value;
+    return '';
+  });
+  return attributes;
+}
+
+function readHashAlgorithm(name: string): string {
+  const algorithm = HASH_ALGORITHMS[name];
+  if (!algorithm) {
+    throw new Error(`지원하지 않는 해시 알고리즘: ${name}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Agile 암호화 복호화 ([MS-OFFCRYPTO] 2.3.4.10 ~ 2.3.4.15), 암호가 틀리면 null
+ */
+function decryptAgile(info: Buffer, encryptedPackage: Buffer, password: string): Buffer | null {
+  const xml = info.subarray(8).toString('utf8');
+  const keyData = readXmlAttributes(xml, 'keyData');
+  const encryptedKey = readXmlAttributes(xml, 'encryptedKey');
+  if (!keyData || !encryptedKey) {
+    throw new Error('암호화 정보(EncryptionInfo)를 읽을 수 없음');
+  }
+  if (encryptedKey.cipherAlgorithm !== 'AES' || keyData.cipherAlgorithm !== 'AES') {
+    throw new Error(`지원하지 않는 암호화 알고리즘: ${encryptedKey.cipherAlgorithm}`);
+  }
+
+  // 암호로 중간 키를 풀고 검증값 확인
+  const keyHash = readHashAlgorithm(encryptedKey.hashAlgorithm);
+  const keySalt = Buffer.from(encryptedKey.saltValue, 'base64');
+  const keyLength = Number(encryptedKey.keyBits) / 8;
+  const base = iterateHash(keyHash, keySalt, password, Number(encryptedKey.spinCount));
+  const decryptKeyValue = (blockKey: Buffer, attribute: string) =>
+    decryptAes('cbc', fitLength(hash(keyHash, base, blockKey), keyLength, 0x36), keySalt, Buffer.from(encryptedKey[attribute], 'base64'));
+
+  const verifierInput = decryptKeyValue(BLOCK_KEYS.verifierHashInput, 'encryptedVerifierHashInput').subarray(0, Number(encryptedKey.saltSize));
+  const verifierHash = decryptKeyValue(BLOCK_KEYS.verifierHashValue, 'encryptedVerifierHashValue').subarray(0, Number(encryptedKey.hashSize));
+  if (!hash(keyHash, verifierInput).equals(verifierHash)) {
+    return null;
+  }
+  const secretKey = decryptKeyValue(BLOCK_KEYS.encryptedKeyValue, 'encryptedKeyValue').subarray(0, Number(keyData.keyBits) / 8);
+
+  // 4096바이트 구간마다 구간 번호로 IV를 만들어 복호화
+  const dataHash = readHashAlgorithm(keyData.hashAlgorithm);
+  const dataSalt = Buffer.from(keyData.saltValue, 'base64');
+  const blockSize = Number(keyData.blockSize);
+  const size = readPackageSize(encryptedPackage);
+  const segments: Buffer[] = [];
+  for (let offset = 8, index = 0; offset < encryptedPackage.length; offset += PACKAGE_SEGMENT_SIZE, index++) {
+    const iv = fitLength(hash(dataHash, dataSalt, uint32(index)), blockSize, 0x36);
+    segments.push(decryptAes('cbc', secretKey, iv, encryptedPackage.subarray(offset, offset + PACKAGE_SEGMENT_SIZE)));
+  }
+  return Buffer.concat(segments).subarray(0, size);
+}
+
+/**
+ * CryptoAPI 암호화 헤더와 검증자 읽기 (offset은 EncryptionHeader.Flags 위치)
+ */
+function readCryptoApiInfo(data: Buffer, offset: number): CryptoApiInfo {
+  const headerSize = data.readUInt32LE(offset + 4);
+  const header = offset + 8;
+  const verifier = header + headerSize;
+  const saltSize = data.readUInt32LE(verifier);
+  const salt = data.subarray(verifier + 4, verifier + 4 + saltSize);
+  const encryptedVerifier = data.subarray(verifier + 4 + saltSize, verifier + 20 + saltSize);
+  return {
+    algorithmId: data.readUInt32LE(header + 8),
+    keyBits: data.readUInt32LE(header + 16) || 40,
+    salt,
+    encryptedVerifier,
+    encryptedVerifierHash: data.subarray(verifier + 24 + saltSize),
+  };
+}
+
+/**
+ * Standard 암호화 복호화 ([MS-OFFCRYPTO] 2.3.4.5 ~ 2.3.4.9, AES-ECB), 암호가 틀리면 null
+ */
+function decryptStandard(info: Buffer, encryptedPackage: Buffer, password: string): Buffer | null {
+  if (info.readUInt16LE(2) !== 2) {
+    throw new Error(`알 수 없는 암호화 정보 버전 ${info.readUInt16LE(0)}.${info.readUInt16LE(2)}`);
+  }
+  const header = readCryptoApiInfo(info, 4);
+  if (header.algorithmId !== 0 && (header.algorithmId < 0x660e || header.algorithmId > 0x6610)) {
+    throw new Error(`지원하지 않는 암호화 알고리즘: 0x${header.algorithmId.toString(16)}`);
+  }
+
+  const finalHash = hash('sha1', iterateHash('sha1', header.salt, password, STANDARD_SPIN_COUNT), uint32(0));
+  const derive = (fill: number) => {
+    const buffer = Buffer.alloc(64, fill);
+    for (let i = 0; i < finalHash.length; i++) {
+      buffer[i] ^= finalHash[i];
+    }
+    return hash('sha1', buffer);
+  };
+  const key = Buffer.concat([derive(0x36), derive(0x5c)]).subarray(0, header.keyBits / 8);
+
+  const verifier = decryptAes('ecb', key, null, header.encryptedVerifier);
+  const verifierHash = decryptAes('ecb', key, null, header.encryptedVerifierHash).subarray(0, 20);
+  if (!hash('sha1', verifier).equals(verifierHash)) {
+    return null;
+  }
+  return decryptAes('ecb', key, null, encryptedPackage.subarray(8)).subarray(0, readPackageSize(encryptedPackage));
+}
+
+/**
+ * RC4 키 스트림 (호출할 때마다 이어서 생성)
+ */
+function createRc4(key: Buffer): (length: number) => Buffer {
+  const state: number[] = [];
+  for (let i = 0; i < 256; i++) {
+    state[i] = i;
+  }
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    const temp = state[i];
+    state[i] = state[j];
+    state[j] = temp;
+  }
+  let x = 0;
+  let y = 0;
+  return length => {
+    const output = Buffer.alloc(length);
+    for (let k = 0; k < length; k++) {
+      x = (x + 1) & 0xff;
+      y = (y + state[x]) & 0xff;
+      const temp = state[x];
+      state[x] = state[y];
+      state[y] = temp;
+      output[k] = state[(state[x] + state[y]) & 0xff];
+    }
+    return output;
+  };
+}
+
+function xorBytes(data: Buffer, keyStream: Buffer): Buffer {
+  const output = Buffer.alloc(data.length);
+  for (let i = 0; i < data.length; i++) {
+    output[i] = data[i] ^ keyStream[i];
+  }
+  return output;
+}
+
+/**
+ * .xls RC4 블록 키 생성기 (암호가 틀리면 null)
+ * - rc4: MD5 기반 ([MS-OFFCRYPTO] 2.3.6)
+ * - rc4-cryptoapi: SHA-1 기반, 40비트 키는 128비트로 0을 채움 ([MS-OFFCRYPTO] 2.3.5)
+ */
+function createRc4KeyFactory(filePass: Buffer, scheme: EncryptionScheme, password: string): ((block: number) => Buffer) | null {
+  let makeKey: (block: number) => Buffer;
+  let verifier: Buffer;
+  let verifierHash: Buffer;
+  let hashAlgorithm: string;
+
+  if (scheme === 'rc4') {
+    const salt = filePass.subarray(6, 22);
+    const truncated = hash('md5', Buffer.from(password, 'utf16le')).subarray(0, 5);
+    const intermediate: Buffer[] = [];
+    for (let i = 0; i < 16; i++) {
+      intermediate.push(truncated, salt);
+    }
+    const base = hash('md5', Buffer.concat(intermediate)).subarray(0, 5);
+    makeKey = block => hash('md5', base, uint32(block));
+    verifier = filePass.subarray(22, 38);
+    verifierHash = filePass.subarray(38, 54);
+    hashAlgorithm = 'md5';
+  } else {
+    const info = readCryptoApiInfo(filePass, 6);
+    const base = hash('sha1', info.salt, Buffer.from(password, 'utf16le'));
+    const keyLength = info.keyBits / 8;
+    makeKey = block => fitLength(hash('sha1', base, uint32(block)).subarray(0, keyLength), keyLength === 5 ? 16 : keyLength, 0);
+    verifier = info.encryptedVerifier;
+    verifierHash = info.encryptedVerifierHash.subarray(0, 20);
+    hashAlgorithm = 'sha1';
+  }
+
+  const keyStream = createRc4(makeKey(0));
+  const decryptedVerifier = xorBytes(verifier, keyStream(verifier.length));
+  const decryptedHash = xorBytes(verifierHash, keyStream(verifierHash.length));
+  return hash(hashAlgorithm, decryptedVerifier).equals(decryptedHash) ? makeKey : null;
+}
+
+/**
+ * XOR 난독화 키와 검증값 ([MS-OFFCRYPTO] 2.3.7.1 ~ 2.3.7.2)
+ */
+function createXorArray(password: string): { key: number; verifier: number; array: Buffer } | null {
+  const bytes: number[] = [];
+  for (let i = 0; i < password.length && bytes.length < 15; i++) {
+    const code = password.charCodeAt(i);
+    bytes.push(code & 0xff || code >> 8);
+  }
+  if (bytes.length === 0) {
+    return null;
+  }
+
+  let key = XOR_INITIAL_CODE[bytes.length - 1];
+  let element = 0x68;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    let char = bytes[i];
+    for (let bit = 0; bit < 7; bit++, element--, char <<= 1) {
+      if (char & 0x40) {
+        key ^= XOR_MATRIX[element];
+      }
+    }
+  }
+
+  let verifier = 0;
+  [bytes.length].concat(bytes).reverse().forEach(byte => {
+    verifier = ((verifier & 0x4000 ? 1 : 0) | ((verifier << 1) & 0x7fff)) ^ byte;
+  });
+  verifier ^= 0xce4b;
+
+  // 암호 바이트(짧으면 채움 바이트)를 키의 상위/하위 바이트와 XOR 후 오른쪽으로 1비트 회전
+  const array = Buffer.alloc(16);
+  for (let i = 0; i < 16; i++) {
+    const value = (i < bytes.length ? bytes[i] : XOR_PAD[i - bytes.length]) ^ (i % 2 === 0 ? key & 0xff : key >> 8);
+    array[i] = ((value >> 1) | (value << 7)) & 0xff;
+  }
+  return { key, verifier, array };
+}
+
+/**
+ * 워크북 스트림 레코드 본문 복호화
+ * - 레코드 헤더와 평문 레코드는 그대로, BOUNDSHEET는 시트 위치 4바이트만 평문
+ * - FILEPASS는 같은 길이의 무시되는 레코드로 바꿔 레코드 위치(BOUNDSHEET 시트 위치)를 유지
+ */
+function decryptBiffStream(
+  stream: Buffer,
+  spans: BiffRecordSpan[],
+  decryptRecord: (dataStart: number, start: number, end: number) => void
+): void {
+  spans.forEach(span => {
+    const dataStart = span.offset + 4;
+    if (span.type === RECORD.FILEPASS) {
+      stream.writeUInt16LE(RECORD.INTERFACEEND, span.offset);
+      stream.fill(0, dataStart, dataStart + span.length);
+    } else if (PLAIN_RECORDS.indexOf(span.type) === -1) {
+      decryptRecord(dataStart, span.type === RECORD.BOUNDSHEET ? dataStart + 4 : dataStart, dataStart + span.length);
+    }
+  });
+}
+
+/**
+ * 구 .xls 복호화 (복호화한 Workbook 스트림으로 컨테이너 재구성), 암호가 틀리면 null
+ */
+function decryptBiff(workbook: { name: string; stream: Buffer }, scheme: EncryptionScheme, password: string): Buffer | null {
+  const stream = Buffer.from(workbook.stream);
+  const spans = readRecordSpans(stream);
+  const filePass = findFilePass(stream, spans);
+  if (!filePass) {
+    return null;
+  }
+  const filePassData = Buffer.from(filePass.data);
+
+  if (scheme === 'xor') {
+    const xor = createXorArray(password);
+    const offset = filePassData.length === 4 ? 0 : 2;
+    if (!xor || xor.key !== filePassData.readUInt16LE(offset) || xor.verifier !== filePassData.readUInt16LE(offset + 2)) {
+      return null;
+    }
+    // 레코드마다 (본문 위치 + 길이) % 16 번째 키 바이트부터 사용
+    decryptBiffStream(stream, spans, (dataStart, start, end) => {
+      for (let i = start; i < end; i++) {
+        const value = stream[i] ^ xor.array[(end + i - dataStart) % 16];
+        stream[i] = ((value >> 5) | (value << 3)) & 0xff;
+      }
+    });
+  } else {
+    const makeKey = createRc4KeyFactory(filePassData, scheme, password);
+    if (!makeKey) {
+      return null;
+    }
+    // 키 스트림은 스트림 위치 기준 (1024바이트 블록마다 새 키, 헤더 위치에서도 진행)
+    const keyStream = Buffer.alloc(stream.length);
+    for (let block = 0; block * BIFF_BLOCK_SIZE < stream.length; block++) {
+      const length = Math.min(BIFF_BLOCK_SIZE, stream.length - block * BIFF_BLOCK_SIZE);
+      createRc4(makeKey(block))(length).copy(keyStream, block * BIFF_BLOCK_SIZE);
+    }
+    decryptBiffStream(stream, spans, (dataStart, start, end) => {
+      for (let i = start; i < end; i++) {
+        stream[i] ^= keyStream[i];
+      }
+    });
+  }
+
+  const container = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(container, workbook.name, stream);
+  return Buffer.from(XLSX.CFB.write(container, { type: 'buffer', fileType: 'cfb' }));
+}
+
+/**
+ * 암호화된 통합 문서 복호화 (.xlsx는 ZIP 패키지, .xls는 평문 CFB 반환)
+ * - 암호가 틀리면 null, 지원하지 않는 방식이면 예외
+ * - 암호는 로그나 오류 메시지에 남기지 않음
+ */
+export function decryptWorkbook(buffer: Buffer, password: string): Buffer | null {
+  const container = readContainer(buffer);
+  const scheme = container && detectContainerEncryption(container);
+  if (!scheme) {
+    throw new Error('암호화된 통합 문서가 아님');
+  }
+
+  if (scheme === 'agile' || scheme === 'standard') {
+    const info = readStream(container, '/EncryptionInfo') as Buffer;
+    const encryptedPackage = readStream(container, '/EncryptedPackage') as Buffer;
+    return scheme === 'agile' ? decryptAgile(info, encryptedPackage, password) : decryptStandard(info, encryptedPackage, password);
+  }
+  if (scheme === 'extensible') {
+    throw new Error('확장 암호화(Extensible Encryption)는 지원하지 않음');
+  }
+  return decryptBiff(findWorkbookStream(container) as { name: string; stream: Buffer }, scheme, password);
+}
@@ -0,0 +1,369 @@
+import * as zlib from 'zlib';
+import * as XLSX from 'xlsx';
+
+// ZIP 레코드 시그니처
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// 다음 레코드 경계를 찾을 때 사용하는 시그니처들 (PK\x03\x04, PK\x01\x02, PK\x05\x06, PK\x07\x08)
+const RECORD_SIGNATURES = [
+  Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  Buffer.from([0x50, 0x4b, 0x01, 0x02]),
+  Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+  Buffer.from([0x50, 0x4b, 0x07, 0x08]),
+];
+
+/**
+ * ZIP 엔트리 정보
+ */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  dataOffset: number;
+  source: 'central-directory' | 'local-header';
+}
+
+/**
+ * ZIP 아카이브 읽기 결과
+ */
+export interface ZipArchive {
+  entries: ZipEntry[];
+  centralDirectoryIntact: boolean;
+}
+
+/**
+ * 엔트리 압축 해제 결과 (complete가 false면 잘린 스트림에서 일부만 복구됨)
+ */
+export interface InflatedEntry {
+  data: Buffer;
+  complete: boolean;
+}
+
+/**
+ * 로컬 파일 헤더 파싱 (손상된 헤더면 null)
+ */
+function readLocalHeader(buffer: Buffer, offset: number): { name: string; method: number; flags: number; compressedSize: number; uncompressedSize: number; dataOffset: number } | null {
+  if (offset < 0 || offset + 30 > buffer.length) return null;
+  if (buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) return null;
+
+  const flags = buffer.readUInt16LE(offset + 6);
+  const method = buffer.readUInt16LE(offset + 8);
+  const compressedSize = buffer.readUInt32LE(offset + 18);
+  const uncompressedSize = buffer.readUInt32LE(offset + 22);
+  const nameLength = buffer.readUInt16LE(offset + 26);
+  const extraLength = buffer.readUInt16LE(offset + 28);
+
+  // 비정상적인 파일명 길이는 우연히 시그니처와 일치한 압축 데이터로 간주
+  if (nameLength === 0 || nameLength > 1024 || offset + 30 + nameLength > buffer.length) return null;
+
+  const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength);
+  if (/[\x00-\x1F]/.test(name)) return null;
+
+  return {
+    name,
+    method,
+    flags,
+    compressedSize,
+    uncompressedSize,
+    dataOffset: offset + 30 + nameLength + extraLength,
+  };
+}
+
+/**
+ * 주어진 위치 이후 가장 가까운 ZIP 레코드 시그니처 위치 찾기
+ */
+function findNextRecord(buffer: Buffer, from: number): number {
+  let next = buffer.length;
+  for (const signature of RECORD_SIGNATURES) {
+    const index = buffer.indexOf(signature, from);
+    if (index !== -1 && index < next) {
+      next = index;
+    }
+  }
+  return next;
+}
+
+/**
+ * End of Central Directory 레코드 찾기 (뒤에서부터 검색)
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // EOCD는 22바이트 + 최대 65535바이트 주석
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Central Directory에서 엔트리 목록 읽기
+ */
+function readCentralDirectory(buffer: Buffer): { entries: ZipEntry[]; intact: boolean } {
+  const entries: ZipEntry[] = [];
+  const eocdOffset = findEndOfCentralDirectory(buffer);
+  if (eocdOffset === -1) {
+    console.log('❌ End of Central Directory 레코드 없음 (파일이 잘렸을 가능성)');
+    return { entries, intact: false };
+  }
+
+  const totalEntries = buffer.readUInt16LE(eocdOffset + 10);
+  const directoryOffset = buffer.readUInt32LE(eocdOffset + 16);
+  console.log(`📋 Central Directory: ${totalEntries}개 엔트리, 오프셋 ${directoryOffset}`);
+
+  let offset = directoryOffset;
+  for (let i = 0; i < totalEntries; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      console.log(`❌ Central Directory 엔트리 ${i + 1}/${totalEntries} 손상, 읽기 중단`);
+      return { entries, intact: false };
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // 데이터 위치는 로컬 헤더의 파일명/extra 길이로 계산해야 정확함
+    const local = readLocalHeader(buffer, localHeaderOffset);
+    entries.push({
+      name,
+      method,
+      flags,
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset,
+      dataOffset: local ? local.dataOffset : -1,
+      source: 'central-directory',
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { entries, intact: true };
+}
+
+/**
+ * 로컬 파일 헤더를 순차 스캔하여 엔트리 목록 복구 (Central Directory가 잘린 경우)
+ */
+function scanLocalHeaders(buffer: Buffer): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  const signature = RECORD_SIGNATURES[0];
+  let offset = buffer.indexOf(signature, 0);
+
+  while (offset !== -1) {
+    const local = readLocalHeader(buffer, offset);
+    if (!local) {
+      offset = buffer.indexOf(signature, offset + 4);
+      continue;
+    }
+
+    let compressedSize = local.compressedSize;
+    // 데이터 디스크립터 사용(bit 3) 또는 크기 정보가 없으면 다음 레코드까지를 데이터로 간주
+    if ((local.flags & 0x08) !== 0 || compressedSize === 0 || local.dataOffset + compressedSize > buffer.length) {
+      compressedSize = findNextRecord(buffer, local.dataOffset) - local.dataOffset;
+    }
+
+    entries.push({
+      name: local.name,
+      method: local.method,
+      flags: local.flags,
+      compressedSize,
+      uncompressedSize: local.uncompressedSize,
+      localHeaderOffset: offset,
+      dataOffset: local.dataOffset,
+      source: 'local-header',
+    });
+
+    offset = buffer.indexOf(signature, Math.max(local.dataOffset + compressedSize, offset + 4));
+  }
+
+  return entries;
+}
+
+/**
+ * ZIP 아카이브 읽기 - Central Directory 우선, 손상 시 로컬 헤더 스캔으로 보완
+ */
+export function readZipArchive(buffer: Buffer): ZipArchive {
+  console.log('🔍 ZIP Central Directory 읽기 시작');
+  const central = readCentralDirectory(buffer);
+  const entries = central.entries.filter(entry => entry.dataOffset !== -1);
+
+  if (!central.intact || entries.length < central.entries.length) {
+    console.log('🔧 로컬 파일 헤더 스캔으로 엔트리 보완');
+    const known = new Set(entries.map(entry => entry.name));
+    scanLocalHeaders(buffer).forEach(entry => {
+      if (!known.has(entry.name)) {
+        known.add(entry.name);
+        entries.push(entry);
+      }
+    });
+  }
+
+  console.log(`📋 ZIP 엔트리 ${entries.length}개 확인:`, entries.map(entry => entry.name).slice(0, 20));
+  return { entries, centralDirectoryIntact: central.intact && entries.length === central.entries.length };
+}
+
+/**
+ * 엔트리 이름으로 찾기 (대소문자, 선행 슬래시 무시)
+ */
+export function findZipEntry(archive: ZipArchive, name: string): ZipEntry | undefined {
+  const target = name.replace(/^\//, '').toLowerCase();
+  return archive.entries.find(entry => entry.name.replace(/^\//, '').toLowerCase() === target);
+}
+
+/**
+ * 엔트리 하나를 개별적으로 압축 해제 (잘린 DEFLATE 스트림은 가능한 만큼 복구)
+ */
+export function inflateZipEntry(buffer: Buffer, entry: ZipEntry): InflatedEntry | null {
+  const end = Math.min(entry.dataOffset + entry.compressedSize, buffer.length);
+  const raw = buffer.subarray(entry.dataOffset, end);
+
+  if (entry.method === 0) {
+    return { data: Buffer.from(raw), complete: end - entry.dataOffset === entry.compressedSize };
+  }
+
+  if (entry.method !== 8) {
+    console.log(`❌ ${entry.name}: 지원하지 않는 압축 방식 ${entry.method}`);
+    return null;
+  }
+
+  try {
+    return { data: zlib.inflateRawSync(raw), complete: true };
+  } catch (error) {
+    console.log(`⚠️ ${entry.name} 압축 해제 실패, 부분 복구 시도:`, error instanceof Error ? error.message : String(error));
+  }
+
+  try {
+    // Z_SYNC_FLUSH로 마무리하면 스트림 끝이 없어도 그때까지 풀린 데이터를 돌려받을 수 있음
+    const partial = zlib.inflateRawSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    if (partial.length > 0) {
+      console.log(`✅ ${entry.name} 부분 복구: ${partial.length} bytes`);
+      return { data: partial, complete: false };
+    }
+  } catch (error) {
+    console.log(`❌ ${entry.name} 부분 복구 실패:`, error instanceof Error ? error.message : String(error));
+  }
+
+  return null;
+}
+
+/**
+ * 엔트리를 UTF-8 텍스트로 읽기
+ */
+export function readZipText(buffer: Buffer, archive: ZipArchive, name: string): string | null {
+  const entry = findZipEntry(archive, name);
+  if (!entry) return null;
+
+  const inflated = inflateZipEntry(buffer, entry);
+  return inflated ? inflated.data.toString('utf8') : null;
+}
+
+/**
+ * 복구된 엔트리들로 깨끗한 ZIP 컨테이너를 다시 구성
+ */
+export function rebuildZip(buffer: Buffer, archive: ZipArchive): Buffer | null {
+  const container = XLSX.CFB.utils.cfb_new();
+  let added = 0;
+
+  archive.entries.forEach(entry => {
+    if (entry.name.endsWith('/')) return;
+    const inflated = inflateZipEntry(buffer, entry);
+    if (inflated) {
+      XLSX.CFB.utils.cfb_add(container, entry.name.replace(/^\//, ''), inflated.data);
+      added++;
+    }
+  });
+
+  if (added === 0) return null;
+
+  console.log(`🔧 복구된 엔트리 ${added}개로 ZIP 재구성`);
+  return Buffer.from(XLSX.CFB.write(container, { type: 'buffer', fileType: 'zip' }));
+}
+
+// CRC-32 테이블 (ZIP 작성용)
+const CRC_TABLE: number[] = (() => {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table.push(c >>> 0);
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 파일 목록으로 ZIP 작성 (파일명은 UTF-8 플래그로 기록해 한글 이름 유지, SheetJS의 ZIP 작성은 한글 이름이 깨짐)
+ */
+export function createZip(files: { name: string; data: Buffer }[], modified: Date = new Date()): Buffer {
+  const dosTime = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+  const dosDate = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = Buffer.from(file.name, 'utf8');
+    const compressed = zlib.deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
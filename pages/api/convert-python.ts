@@ -1,6 +1,19 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { IncomingForm, File } from 'formidable';
 import { promises as fs } from 'fs';
+import * as XLSX from 'xlsx';
+import { ConversionError, httpStatusForError, isConversionError } from '@/lib/conversionError';
+import { ConversionReport, createConversionReport, encodeReportHeader, recordAttempt } from '@/lib/conversionReport';
+import { ConvertOptions, hasTextOverrides, parseConvertOptions, readBoolean, validateConvertOptions } from '@/lib/convertOptions';
+import { detectFileFormat } from '@/lib/formatDetection';
+import { WrittenOutput, getOutputSpec } from '@/lib/outputFormat';
+import {
+  ConversionStatus,
+  FIDELITY_SCORES,
+  getQualityThreshold,
+  resolveConversionStatus,
+  scoreWorkbookQuality,
+} from '@/lib/qualityScore';
 
 // API 설정
 export const config = {
@@ -18,16 +31,20 @@ interface ErrorResponse {
   success: false;
   message: string;
   code?: string;
+  details?: Record<string, unknown>;
+  report?: ConversionReport;
 }
 
 // 성공 응답 타입 (메타데이터용)
 interface SuccessResponse {
   success: true;
+  status: ConversionStatus;
   filename: string;
   originalSize: number;
   convertedSize: number;
   conversionMethod: string;
   warnings?: string[];
+  report: ConversionReport;
 }
 
 /**
@@ -62,11 +79,20 @@ async function readFileToBuffer(file: File): Promise<Buffer> {
 /**
  * 에러 응답 전송
  */
-function sendError(res: NextApiResponse, message: string, statusCode: number = 400, code?: string) {
+function sendError(
+  res: NextApiResponse,
+  message: string,
+  statusCode: number = 400,
+  code?: string,
+  report?: ConversionReport,
+  details?: Record<string, unknown>
+) {
   const errorResponse: ErrorResponse = {
     success: false,
     message,
     code,
+    details,
+    report,
   };
   
   res.status(statusCode).json(errorResponse);
@@ -80,6 +106,7 @@ async function convertWithPythonService(fileBuffer: Buffer, filename: string): P
   conversionMethod: string;
   originalRows: string;
   originalCols: string;
+  report: ConversionReport;
 }> {
   console.log('🐍 Python 서비스 호출:', PYTHON_SERVICE_URL);
 
@@ -102,7 +129,11 @@ async function convertWithPythonService(fileBuffer: Buffer, filename: string): P
   if (!response.ok) {
     const errorText = await response.text();
     console.error('❌ Python 서비스 오류:', response.status, errorText);
-    throw new Error(`Python 서비스 오류: ${response.status} - ${errorText}`);
+    throw new ConversionError('UPSTREAM_ENGINE_FAILED', `Python 서비스 오류: ${response.status} - ${errorText}`, {
+      engine: 'python',
+      status: response.status,
+      body: errorText.substring(0, 500),
+    });
   }
 
   // 변환된 파일 받기
@@ -112,6 +143,7 @@ async function convertWithPythonService(fileBuffer: Buffer, filename: string): P
   const conversionMethod = response.headers.get('X-Conversion-Method') || 'unknown';
   const originalRows = response.headers.get('X-Original-Rows') || '0';
   const originalCols = response.headers.get('X-Original-Cols') || '0';
+  const report = parsePythonReport(response.headers.get('X-Conversion-Report'), conversionMethod);
   
   console.log('✅ Python 서비스 변환 완료!');
   console.log('📊 변환 방법:', conversionMethod);
@@ -122,21 +154,103 @@ async function convertWithPythonService(fileBuffer: Buffer, filename: string): P
     conversionMethod,
     originalRows,
     originalCols,
+    report,
   };
 }
 
+/**
+ * Python 서비스의 X-Conversion-Report 헤더 해석 (없으면 변환 방법만으로 구성)
+ */
+function parsePythonReport(header: string | null, conversionMethod: string): ConversionReport {
+  if (header) {
+    try {
+      return JSON.parse(decodeURIComponent(header)) as ConversionReport;
+    } catch (error) {
+      console.log('⚠️ Python 변환 리포트 해석 실패:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const report = createConversionReport('unknown');
+  recordAttempt(report, conversionMethod, true);
+  report.strategy = conversionMethod;
+  report.fidelity = 'normalized';
+  return report;
+}
+
+/**
+ * Python 결과처럼 점수가 없는 리포트는 변환된 파일을 읽어 품질 점수 계산
+ */
+function ensureReportScore(report: ConversionReport, convertedBuffer: Buffer): number {
+  if (report.score === undefined) {
+    try {
+      const workbook = XLSX.read(convertedBuffer, { type: 'buffer' });
+      report.quality = scoreWorkbookQuality(workbook);
+      report.score = FIDELITY_SCORES[report.fidelity] * report.quality.score;
+    } catch (error) {
+      console.log('⚠️ 변환 결과 품질 계산 실패:', error instanceof Error ? error.message : String(error));
+      report.score = 0;
+    }
+  }
+  return report.score;
+}
+
+/**
+ * Python 서비스를 건너뛸 사유 (없으면 null)
+ * - 텍스트 해석, 고정 폭, 인쇄 보고서 정리, 헤더 감지, 로캘, 수식, .xlsx 외 결과 형식, 복호화, 레이아웃 유지,
+ *   셀 주석(메모, 하이퍼링크, 데이터 유효성 검사) 보존은 TypeScript 변환기만 지원
+ */
+async function findPythonSkipReason(fileBuffer: Buffer, options: ConvertOptions): Promise<string | null> {
+  const { hasCellAnnotations, isFormattedTextFile } = await import('../../lib/converter');
+  if (options.forceTextRecovery || hasTextOverrides(options)) {
+    return '사용자 지정 텍스트 옵션';
+  }
+  if (options.locale !== undefined) {
+    return '로캘 지정';
+  }
+  if (options.formulas !== undefined && options.formulas !== 'values') {
+    return `수식 처리 방식 ${options.formulas}`;
+  }
+  if (options.outputFormat !== undefined && options.outputFormat !== 'xlsx') {
+    return `결과 형식 ${options.outputFormat}`;
+  }
+  if (options.password !== undefined) {
+    return '암호 지정';
+  }
+  // Python 서비스는 데이터만 다시 써서 병합, 열 너비, 행 높이, 틀 고정, 자동 필터, 숨김 상태를 잃음
+  const format = detectFileFormat(fileBuffer);
+  if (options.preserveLayout !== false && (format === 'zip' || format === 'cfb')) {
+    return '레이아웃 유지';
+  }
+  // 메모, 하이퍼링크, 데이터 유효성 검사도 옮기지 않고 리포트의 annotations 개수도 채우지 않음
+  if ((format === 'zip' || format === 'cfb') && hasCellAnnotations(fileBuffer)) {
+    return '메모, 하이퍼링크, 데이터 유효성 검사';
+  }
+  if (isFormattedTextFile(fileBuffer, options)) {
+    return '고정 폭, 인쇄 보고서 또는 헤더가 첫 행이 아닌 텍스트';
+  }
+  return null;
+}
+
 /**
  * 기존 TypeScript 로직으로 fallback
  */
-async function fallbackToTypeScript(fileBuffer: Buffer, filename: string): Promise<Buffer> {
+async function fallbackToTypeScript(
+  fileBuffer: Buffer,
+  filename: string,
+  report: ConversionReport,
+  options: ConvertOptions
+): Promise<WrittenOutput> {
   console.log('🔄 TypeScript 변환 로직으로 fallback');
   
   try {
-    const { convertToXlsx } = await import('../../lib/converter');
-    const convertedBuffer = await convertToXlsx(fileBuffer, filename);
-    return convertedBuffer;
+    const { convertFile } = await import('../../lib/converter');
+    return await convertFile(fileBuffer, filename, options, report);
   } catch (error) {
     console.error('❌ TypeScript fallback도 실패:', error);
+    // 분류된 오류는 그대로 전달 (암호화, 손상 등 원인을 UI에 알리기 위해)
+    if (isConversionError(error)) {
+      throw error;
+    }
     throw new Error('모든 변환 방법이 실패했습니다.');
   }
 }
@@ -179,62 +293,127 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // 3. 옵션 파싱
-    const metaOnly = fields.metaOnly === 'true'; // 메타데이터만 반환할지 여부
+    const options = parseConvertOptions(fields); // 텍스트 복구 강제, 인코딩, 구분자 등
+    const optionsError = validateConvertOptions(options);
+    if (optionsError) {
+      return sendError(res, optionsError, 400, 'INVALID_OPTIONS');
+    }
+    const metaOnly = readBoolean(fields, 'metaOnly') === true; // 메타데이터만 반환할지 여부
+    const allowPartial = readBoolean(fields, 'allowPartial') === true; // 품질 기준 미달 결과도 받을지 여부
 
     console.log('🚀 변환 시작:', uploadedFile.originalFilename, '(' + uploadedFile.size + ' bytes)');
 
     // 4. 파일 읽기
     const fileBuffer = await readFileToBuffer(uploadedFile);
 
-    let convertedBuffer: Buffer;
+    let output!: WrittenOutput;
     let conversionMethod = 'python';
     let originalRows = '0';
     let originalCols = '0';
+    let report!: ConversionReport;
 
-    try {
-      // 5. Python 서비스로 변환 시도
-      const result = await convertWithPythonService(fileBuffer, uploadedFile.originalFilename);
-      convertedBuffer = result.buffer;
-      conversionMethod = result.conversionMethod;
-      originalRows = result.originalRows;
-      originalCols = result.originalCols;
-      
-    } catch (pythonError) {
-      console.error('❌ Python 서비스 실패:', pythonError);
-      
-      // 6. TypeScript 로직으로 fallback
+    // 5. Python 서비스로 변환 시도 (Python 서비스가 지원하지 않는 옵션, 입력이면 바로 TypeScript 변환기로)
+    const skipReason = await findPythonSkipReason(fileBuffer, options);
+    let pythonError: unknown = null;
+    let converted = false;
+    if (skipReason) {
+      console.log('⏭️ Python 서비스 건너뜀:', skipReason);
+    } else {
       try {
-        convertedBuffer = await fallbackToTypeScript(fileBuffer, uploadedFile.originalFilename);
-        conversionMethod = 'typescript-fallback';
-        console.log('✅ TypeScript fallback 성공');
+        const result = await convertWithPythonService(fileBuffer, uploadedFile.originalFilename);
+        output = { buffer: result.buffer, ...getOutputSpec('xlsx') };
+        conversionMethod = result.conversionMethod;
+        originalRows = result.originalRows;
+        originalCols = result.originalCols;
+        report = result.report;
+        converted = true;
+      } catch (error) {
+        console.error('❌ Python 서비스 실패:', error);
+        pythonError = error;
+      }
+    }
+
+    if (!converted) {
+      // 6. TypeScript 로직으로 변환 (Python이 실패했으면 그 사유도 리포트에 남김)
+      report = createConversionReport('unknown');
+      if (pythonError) {
+        recordAttempt(report, 'python-service', false, pythonError);
+      }
+      try {
+        output = await fallbackToTypeScript(fileBuffer, uploadedFile.originalFilename, report, options);
+        conversionMethod = pythonError ? 'typescript-fallback' : 'typescript';
+        console.log(pythonError ? '✅ TypeScript fallback 성공' : '✅ TypeScript 변환 성공');
       } catch (fallbackError) {
         console.error('❌ 모든 변환 방법 실패:', fallbackError);
-        return sendError(res, '파일 변환에 실패했습니다.', 500, 'CONVERSION_FAILED');
+        const upstream = pythonError ? { upstreamError: pythonError instanceof Error ? pythonError.message : String(pythonError) } : {};
+        if (isConversionError(fallbackError)) {
+          return sendError(
+            res,
+            fallbackError.message,
+            httpStatusForError(fallbackError.code),
+            fallbackError.code,
+            report,
+            { ...fallbackError.details, ...upstream }
+          );
+        }
+        return sendError(
+          res,
+          '변환 엔진이 모두 실패했습니다.',
+          httpStatusForError('UPSTREAM_ENGINE_FAILED'),
+          'UPSTREAM_ENGINE_FAILED',
+          report,
+          { ...upstream, fallbackError: fallbackError instanceof Error ? fallbackError.message : String(fallbackError) }
+        );
       }
     }
 
-    // 7. 변환된 파일명 생성
+    // 7. 품질 점수가 기준 미만이면 부분 복구로 구분
+    const convertedBuffer = output.buffer;
+    const qualityThreshold = getQualityThreshold();
+    const score = ensureReportScore(report, convertedBuffer);
+    const status = resolveConversionStatus(score, qualityThreshold);
+    console.log(`📊 품질 점수 ${score.toFixed(2)} (기준 ${qualityThreshold}) → ${status}`);
+    
+    if (status === 'failed') {
+      return sendError(res, '변환 결과에 읽을 수 있는 데이터가 없습니다.', httpStatusForError('EMPTY_WORKBOOK'), 'EMPTY_WORKBOOK', report, {
+        conversionMethod,
+      });
+    }
+    
+    if (status === 'partial' && !allowPartial) {
+      return sendError(
+        res,
+        `복구 품질 점수(${score.toFixed(2)})가 기준(${qualityThreshold})보다 낮아 부분 복구로 처리되었습니다.`,
+        422,
+        'PARTIAL_RECOVERY',
+        report
+      );
+    }
+
+    // 8. 변환된 파일명 생성
     const originalName = uploadedFile.originalFilename.replace(/\.[^.]+$/, '') || 'converted';
-    const convertedFilename = `${originalName.replace(/[^\w가-힣\-_]/g, '_')}_변환완료.xlsx`;
+    const convertedFilename = `${originalName.replace(/[^\w가-힣\-_]/g, '_')}_변환완료.${output.extension}`;
     
     console.log('📁 파일 크기 비교: 원본', `${uploadedFile.size}bytes`, '→ 변환', `${convertedBuffer.length}bytes`, `(비율: ${(convertedBuffer.length / uploadedFile.size).toFixed(2)})`);
     console.log('변환 완료:', convertedFilename, `(${convertedBuffer.length} bytes)`);
 
-    // 8. 응답 처리
+    // 9. 응답 처리
     if (metaOnly) {
       // 메타데이터만 반환
       const successResponse: SuccessResponse = {
         success: true,
+        status,
         filename: convertedFilename,
         originalSize: uploadedFile.size,
         convertedSize: convertedBuffer.length,
         conversionMethod,
+        report,
       };
       
       res.status(200).json(successResponse);
     } else {
       // 파일 다운로드 응답
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Type', output.contentType);
       res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(convertedFilename)}`);
       res.setHeader('Content-Length', convertedBuffer.length);
       
@@ -242,8 +421,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       res.setHeader('X-Original-Size', uploadedFile.size.toString());
       res.setHeader('X-Converted-Size', convertedBuffer.length.toString());
       res.setHeader('X-Conversion-Method', conversionMethod);
+      res.setHeader('X-Conversion-Status', status);
       res.setHeader('X-Original-Rows', originalRows);
       res.setHeader('X-Original-Cols', originalCols);
+      res.setHeader('X-Conversion-Report', encodeReportHeader(report));
 
       res.status(200).send(convertedBuffer);
     }
@@ -253,7 +434,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     
     // 파일 크기 초과 에러
     if (error instanceof Error && error.message && error.message.includes('maxFileSize')) {
-      return sendError(res, '파일이 너무 큽니다. 최대 50MB까지 지원합니다.', 413, 'FILE_TOO_LARGE');
+      return sendError(res, '파일이 너무 큽니다. 최대 50MB까지 지원합니다.', httpStatusForError('LIMIT_EXCEEDED'), 'LIMIT_EXCEEDED', undefined, {
+        limit: 'fileSize',
+        maxSize: 50 * 1024 * 1024,
+      });
     }
     
     // 일반 에러
@@ -2,6 +2,10 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { IncomingForm, File } from 'formidable';
 import { promises as fs } from 'fs';
 import { processFile } from '@/lib/converter';
+import { httpStatusForError } from '@/lib/conversionError';
+import { parseConvertOptions, readBoolean, validateConvertOptions } from '@/lib/convertOptions';
+import { ConversionReport, encodeReportHeader } from '@/lib/conversionReport';
+import { ConversionStatus } from '@/lib/qualityScore';
 
 // API 설정
 export const config = {
@@ -16,15 +20,19 @@ interface ErrorResponse {
   success: false;
   message: string;
   code?: string;
+  details?: Record<string, unknown>;
+  report?: ConversionReport;
 }
 
 // 성공 응답 타입 (메타데이터용)
 interface SuccessResponse {
   success: true;
+  status: ConversionStatus;
   filename: string;
   originalSize: number;
   convertedSize: number;
   warnings?: string[];
+  report?: ConversionReport;
 }
 
 /**
@@ -59,11 +67,20 @@ async function readFileToBuffer(file: File): Promise<Buffer> {
 /**
  * 에러 응답 전송
  */
-function sendError(res: NextApiResponse, message: string, statusCode: number = 400, code?: string) {
+function sendError(
+  res: NextApiResponse,
+  message: string,
+  statusCode: number = 400,
+  code?: string,
+  report?: ConversionReport,
+  details?: Record<string, unknown>
+) {
   const errorResponse: ErrorResponse = {
     success: false,
     message,
     code,
+    details,
+    report,
   };
   
   res.status(statusCode).json(errorResponse);
@@ -107,8 +124,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // 3. 옵션 파싱
-    const forceTextRecovery = fields.forceTextRecovery === 'true';
-    const metaOnly = fields.metaOnly === 'true'; // 메타데이터만 반환할지 여부
+    const options = parseConvertOptions(fields); // 텍스트 복구 강제, 인코딩, 구분자 등
+    const optionsError = validateConvertOptions(options);
+    if (optionsError) {
+      return sendError(res, optionsError, 400, 'INVALID_OPTIONS');
+    }
+    const metaOnly = readBoolean(fields, 'metaOnly') === true; // 메타데이터만 반환할지 여부
+    const allowPartial = readBoolean(fields, 'allowPartial') === true; // 품질 기준 미달 결과도 받을지 여부
 
     console.log('🚀 변환 시작:', uploadedFile.originalFilename, '(' + uploadedFile.size + ' bytes)');
 
@@ -116,12 +138,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const buffer = await readFileToBuffer(uploadedFile);
 
     // 5. 변환 처리
-    const result = await processFile(buffer, uploadedFile.originalFilename, forceTextRecovery);
+    const result = await processFile(buffer, uploadedFile.originalFilename, options);
 
-    // 6. 변환 실패 처리
-    if (!result.success) {
+    // 6. 변환 실패 / 부분 복구 처리
+    if (result.status === 'failed' || !result.buffer) {
       console.error(`변환 실패: ${result.message}`);
-      return sendError(res, result.message || '변환에 실패했습니다.', 500, 'CONVERSION_FAILED');
+      if (result.error) {
+        return sendError(
+          res,
+          result.error.message,
+          httpStatusForError(result.error.code),
+          result.error.code,
+          result.report,
+          result.error.details
+        );
+      }
+      return sendError(res, result.message || '변환에 실패했습니다.', 500, 'CONVERSION_FAILED', result.report);
+    }
+    
+    if (result.status === 'partial' && !allowPartial) {
+      console.warn(`부분 복구: ${result.message}`);
+      return sendError(res, result.message || '부분 복구만 가능했습니다.', 422, 'PARTIAL_RECOVERY', result.report);
     }
 
     console.log(`변환 완료: ${result.filename} (${result.convertedSize} bytes)`);
@@ -131,26 +168,33 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       // 메타데이터만 반환
       const successResponse: SuccessResponse = {
         success: true,
+        status: result.status,
         filename: result.filename,
         originalSize: result.originalSize,
         convertedSize: result.convertedSize || 0,
         warnings: result.warnings,
+        report: result.report,
       };
       
       res.status(200).json(successResponse);
     } else {
       // 파일 다운로드 응답
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Type', result.contentType || 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
       res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(result.filename)}`);
       res.setHeader('Content-Length', result.buffer!.length);
       
       // 추가 메타데이터 헤더
       res.setHeader('X-Original-Size', result.originalSize.toString());
       res.setHeader('X-Converted-Size', result.convertedSize!.toString());
+      res.setHeader('X-Conversion-Status', result.status);
       
       if (result.warnings && result.warnings.length > 0) {
         res.setHeader('X-Warnings', encodeURIComponent(result.warnings.join('; ')));
       }
+      
+      if (result.report) {
+        res.setHeader('X-Conversion-Report', encodeReportHeader(result.report));
+      }
 
       res.status(200).send(result.buffer);
     }
@@ -160,7 +204,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     
     // 파일 크기 초과 에러
     if (error instanceof Error && error.message && error.message.includes('maxFileSize')) {
-      return sendError(res, '파일이 너무 큽니다. 최대 50MB까지 지원합니다.', 413, 'FILE_TOO_LARGE');
+      return sendError(res, '파일이 너무 큽니다. 최대 50MB까지 지원합니다.', httpStatusForError('LIMIT_EXCEEDED'), 'LIMIT_EXCEEDED', undefined, {
+        limit: 'fileSize',
+        maxSize: 50 * 1024 * 1024,
+      });
     }
     
     // 일반 에러
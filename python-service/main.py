@@ -5,6 +5,7 @@ import pandas as pd
 import openpyxl
 import xlrd
 import io
+import json
 import logging
 from typing import Optional
 import chardet
@@ -24,6 +25,20 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
+def detect_format(content: bytes) -> str:
+    """파일 앞부분 시그니처로 형식 감지"""
+    if content[:2] == b'PK':
+        return 'zip'
+    if content[:8] == b'\xd0\xcf\x11\xe0\xa1\xb1\x1a\xe1':
+        return 'cfb'
+    head = content[:4096].lower()
+    if b'urn:schemas-microsoft-com:office:spreadsheet' in head:
+        return 'spreadsheetml'
+    if b'<html' in head or b'<table' in head:
+        return 'html'
+    return 'text'
+
+
 @app.get("/")
 async def root():
     return {"message": "Excel Converter Service is running!", "version": "1.0.0"}
@@ -56,31 +71,48 @@ async def convert_excel(file: UploadFile = File(...)):
         filename = file.filename.lower() if file.filename else ""
         logger.info(f"🔍 파일명 분석: {filename}")
         
-        # DataFrame으로 변환 시도 (여러 방법)
-        df = None
+        # DataFrame으로 변환 시도 (여러 방법) - Excel은 모든 시트를 읽음
+        sheets = None
         conversion_method = ""
         
+        # 변환 리포트 (시도한 방법과 실패 사유)
+        report = {
+            "detectedFormat": detect_format(file_content),
+            "strategy": None,
+            "fidelity": "normalized",
+            "attempts": [],
+            "sheets": [],
+        }
+        
+        def record_attempt(strategy: str, success: bool, reason: Optional[str] = None):
+            attempt = {"strategy": strategy, "success": success}
+            if reason is not None:
+                attempt["reason"] = reason[:200]
+            report["attempts"].append(attempt)
+        
         # 방법 1: openpyxl 엔진 (.xlsx, .xlsm)
         try:
             logger.info("🔧 openpyxl 엔진으로 시도...")
-            df = pd.read_excel(io.BytesIO(file_content), engine='openpyxl')
+            sheets = pd.read_excel(io.BytesIO(file_content), engine='openpyxl', sheet_name=None)
             conversion_method = "openpyxl"
             logger.info("✅ openpyxl 성공!")
         except Exception as e:
             logger.info(f"❌ openpyxl 실패: {str(e)}")
+            record_attempt("openpyxl", False, str(e))
         
         # 방법 2: xlrd 엔진 (.xls, 구 Excel)
-        if df is None:
+        if sheets is None:
             try:
                 logger.info("🔧 xlrd 엔진으로 시도...")
-                df = pd.read_excel(io.BytesIO(file_content), engine='xlrd')
+                sheets = pd.read_excel(io.BytesIO(file_content), engine='xlrd', sheet_name=None)
                 conversion_method = "xlrd"
                 logger.info("✅ xlrd 성공!")
             except Exception as e:
                 logger.info(f"❌ xlrd 실패: {str(e)}")
+                record_attempt("xlrd", False, str(e))
         
         # 방법 3: 인코딩 감지 후 CSV 시도
-        if df is None:
+        if sheets is None:
             try:
                 logger.info("🔧 인코딩 감지 후 CSV 시도...")
                 # 인코딩 감지
@@ -90,14 +122,17 @@ async def convert_excel(file: UploadFile = File(...)):
                 
                 # CSV로 읽기 시도
                 text_content = file_content.decode(encoding)
-                df = pd.read_csv(io.StringIO(text_content))
+                sheets = {'Sheet1': pd.read_csv(io.StringIO(text_content))}
                 conversion_method = f"csv-{encoding}"
+                report["encoding"] = encoding
+                report["delimiter"] = ","
                 logger.info("✅ CSV 변환 성공!")
             except Exception as e:
                 logger.info(f"❌ CSV 변환 실패: {str(e)}")
+                record_attempt("csv-detected-encoding", False, str(e))
         
         # 방법 4: 다양한 구분자로 CSV 시도
-        if df is None:
+        if sheets is None:
             try:
                 logger.info("🔧 다양한 구분자로 CSV 시도...")
                 for sep in ['\t', ';', '|', ',']:
@@ -106,51 +141,66 @@ async def convert_excel(file: UploadFile = File(...)):
                             text_content = file_content.decode(encoding)
                             df = pd.read_csv(io.StringIO(text_content), sep=sep)
                             if len(df.columns) > 1:  # 최소 2개 컬럼 이상
+                                sheets = {'Sheet1': df}
                                 conversion_method = f"csv-{encoding}-{sep}"
+                                report["encoding"] = encoding
+                                report["delimiter"] = sep
                                 logger.info(f"✅ CSV 변환 성공! (구분자: {sep}, 인코딩: {encoding})")
                                 break
                     except:
                         continue
-                    if df is not None:
+                    if sheets is not None:
                         break
             except Exception as e:
                 logger.info(f"❌ 다양한 구분자 CSV 실패: {str(e)}")
+            if sheets is None:
+                record_attempt("csv-delimiters", False, "2개 이상 컬럼으로 읽히는 구분자/인코딩 없음")
         
         # 모든 방법 실패시 오류
-        if df is None:
+        if sheets is None:
             logger.error("❌ 모든 변환 방법 실패")
             raise HTTPException(
                 status_code=400, 
                 detail="지원되지 않는 파일 형식이거나 손상된 파일입니다."
             )
         
-        # DataFrame 정보 로깅
-        rows, cols = df.shape
-        logger.info(f"📊 변환 결과: {rows}행 × {cols}열 (방법: {conversion_method})")
-        logger.info(f"📋 컬럼명: {list(df.columns)[:5]}...")  # 처음 5개만
+        # DataFrame 정보 로깅 (시트별)
+        rows = sum(df.shape[0] for df in sheets.values())
+        cols = max((df.shape[1] for df in sheets.values()), default=0)
+        logger.info(f"📊 변환 결과: 시트 {len(sheets)}개, 총 {rows}행 × 최대 {cols}열 (방법: {conversion_method})")
+        for sheet_name, df in sheets.items():
+            logger.info(f"📋 시트 '{sheet_name}': {df.shape[0]}행 × {df.shape[1]}열, 컬럼명: {list(df.columns)[:5]}...")  # 처음 5개만
         
-        # 빈 값 처리
-        df = df.fillna('')
+        record_attempt(conversion_method, True)
+        report["strategy"] = conversion_method
         
         # 새로운 Excel 파일로 저장
         output_buffer = io.BytesIO()
         
-        # Excel 작성 옵션
+        # 헤더 스타일
+        from openpyxl.styles import Font, PatternFill
+        header_font = Font(bold=True)
+        header_fill = PatternFill(start_color="CCCCCC", end_color="CCCCCC", fill_type="solid")
+        
+        # Excel 작성 옵션 (원본 탭 이름 유지)
         with pd.ExcelWriter(output_buffer, engine='openpyxl') as writer:
-            df.to_excel(writer, index=False, sheet_name='Sheet1')
-            
-            # 워크시트 스타일링 (선택사항)
-            workbook = writer.book
-            worksheet = writer.sheets['Sheet1']
-            
-            # 헤더 스타일 적용
-            from openpyxl.styles import Font, PatternFill
-            header_font = Font(bold=True)
-            header_fill = PatternFill(start_color="CCCCCC", end_color="CCCCCC", fill_type="solid")
-            
-            for cell in worksheet[1]:  # 첫 번째 행 (헤더)
-                cell.font = header_font
-                cell.fill = header_fill
+            for sheet_name, df in sheets.items():
+                # 빈 값 처리
+                df = df.fillna('')
+                safe_sheet_name = str(sheet_name)[:31] or 'Sheet1'
+                df.to_excel(writer, index=False, sheet_name=safe_sheet_name)
+                # 헤더 행 포함 크기
+                report["sheets"].append({
+                    "name": safe_sheet_name,
+                    "rows": df.shape[0] + 1,
+                    "columns": df.shape[1],
+                })
+                
+                # 헤더 스타일 적용
+                worksheet = writer.sheets[safe_sheet_name]
+                for cell in worksheet[1]:  # 첫 번째 행 (헤더)
+                    cell.font = header_font
+                    cell.fill = header_fill
         
         output_buffer.seek(0)
         output_data = output_buffer.getvalue()
@@ -175,7 +225,9 @@ async def convert_excel(file: UploadFile = File(...)):
                 "Content-Disposition": f"attachment; filename*=UTF-8''{encoded_filename}",
                 "X-Conversion-Method": conversion_method,
                 "X-Original-Rows": str(rows),
-                "X-Original-Cols": str(cols)
+                "X-Original-Cols": str(cols),
+                "X-Sheet-Count": str(len(sheets)),
+                "X-Conversion-Report": quote(json.dumps(report, ensure_ascii=False))
             }
         )
         